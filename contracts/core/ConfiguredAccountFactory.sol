@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "./MultiLevelAccountFactory.sol";
+
+/**
+ * @title ConfiguredAccountFactory
+ * @notice Deploys a MultiLevelAccount with its initial amount ranges in one call
+ * @dev MultiLevelAccountFactory creates accounts without amount ranges, so a UserOp
+ * that deploys through it cannot also propose. Used as the ERC-4337 initCode factory,
+ * this contract creates the account with itself as owner, configures the ranges and
+ * hands ownership to the real owner before the UserOp is validated.
+ */
+contract ConfiguredAccountFactory {
+    
+    MultiLevelAccountFactory public immutable accountFactory;
+    
+    event ConfiguredAccountCreated(
+        address indexed account,
+        address indexed owner,
+        uint256 rangeCount
+    );
+    
+    constructor(MultiLevelAccountFactory _accountFactory) {
+        accountFactory = _accountFactory;
+    }
+    
+    /**
+     * @notice Create an account with levels and amount ranges
+     * @dev Returns the existing account if it was already created. Owner and ranges are
+     * part of the inner CREATE2 salt, so an address commits to its initial configuration.
+     * @param owner Account owner
+     * @param levelSigners Array of signer arrays (one per level)
+     * @param ranges Amount ranges configured before ownership is transferred
+     * @param salt Salt for CREATE2 deployment
+     * @return account The created MultiLevelAccount
+     */
+    function createAccount(
+        address owner,
+        address[][] calldata levelSigners,
+        MultiLevelAccount.AmountRange[] calldata ranges,
+        uint256 salt
+    ) external returns (MultiLevelAccount account) {
+        uint256 innerSalt = _innerSalt(owner, ranges, salt);
+        address accountAddress = accountFactory.computeAccountAddress(address(this), levelSigners, innerSalt);
+        
+        if (accountAddress.code.length == 0) {
+            accountFactory.createAccount(address(this), levelSigners, innerSalt);
+        }
+        account = MultiLevelAccount(payable(accountAddress));
+        
+        // Still owned here if created above, or directly through accountFactory by anyone else
+        if (account.owner() == address(this)) {
+            for (uint256 i = 0; i < ranges.length; i++) {
+                account.configureAmountRange(
+                    ranges[i].minAmount,
+                    ranges[i].maxAmount,
+                    ranges[i].levelIds,
+                    ranges[i].quorums,
+                    ranges[i].timelocks
+                );
+            }
+            account.transferOwnership(owner);
+            
+            emit ConfiguredAccountCreated(accountAddress, owner, ranges.length);
+        }
+    }
+    
+    /**
+     * @notice Compute the counterfactual address of a configured account
+     * @param owner Account owner
+     * @param levelSigners Array of signer arrays (one per level)
+     * @param ranges Initial amount ranges
+     * @param salt Salt for CREATE2
+     */
+    function computeAccountAddress(
+        address owner,
+        address[][] calldata levelSigners,
+        MultiLevelAccount.AmountRange[] calldata ranges,
+        uint256 salt
+    ) external view returns (address) {
+        return accountFactory.computeAccountAddress(address(this), levelSigners, _innerSalt(owner, ranges, salt));
+    }
+    
+    function _innerSalt(
+        address owner,
+        MultiLevelAccount.AmountRange[] calldata ranges,
+        uint256 salt
+    ) internal pure returns (uint256) {
+        return uint256(keccak256(abi.encode(owner, ranges, salt)));
+    }
+}
@@ -10,6 +10,17 @@ import "../interfaces/IMultiLevelAccount.sol";
  */
 contract Level {
     
+    // ============ Constants ============
+    
+    /// @notice EIP-712 type of an off-chain approval, see signWithApprovals
+    bytes32 private constant APPROVAL_TYPEHASH =
+        keccak256("Approval(address account,uint256 levelId,bytes32 txHash,uint256 chainId)");
+    
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant NAME_HASH = keccak256("MultiLevelAccount Level");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+    
     // ============ Immutables ============
     
     address public immutable multiLevelAccount;
@@ -88,6 +99,7 @@ contract Level {
     error TimelockActive();
     error AlreadyApproved();
     error InvalidSigner();
+    error InvalidApprovalsLength();
     
     // ============ Modifiers ============
     
@@ -164,26 +176,41 @@ contract Level {
      * @param txHash Transaction hash
      */
     function sign(bytes32 txHash) external onlySigner {
+        if (!_sign(txHash, msg.sender)) revert AlreadySigned();
+    }
+    
+    /**
+     * @notice Apply signers' off-chain EIP-712 approvals in one call
+     * @dev Permissionless - a relayer submits approvals signed over getApprovalDigest.
+     *      Skips approvals from signers who already signed and stops once the level is approved.
+     * @param txHash Transaction hash
+     * @param approvals Concatenated 65-byte signatures (r, s, v), one per signer
+     */
+    function signWithApprovals(bytes32 txHash, bytes calldata approvals) external {
+        if (approvals.length == 0 || approvals.length % 65 != 0) revert InvalidApprovalsLength();
+        bytes32 digest = getApprovalDigest(txHash);
         ApprovalState storage state = approvalStates[txHash];
         
-        if (!state.submitted) revert NotSubmitted();
-        if (state.denied) revert TransactionDenied();
-        if (state.approved) revert AlreadyApproved();
-        if (signatures[txHash][msg.sender]) revert AlreadySigned();
-        
-        signatures[txHash][msg.sender] = true;
-        state.signatureCount++;
-        
-        emit Signed(
-            txHash,
-            msg.sender,
-            state.signatureCount,
-            state.requiredQuorum
-        );
-        
-        // Check if quorum reached
-        if (state.signatureCount >= state.requiredQuorum) {
-            _handleQuorumReached(txHash);
+        for (uint256 offset = 0; offset < approvals.length; offset += 65) {
+            bytes32 r;
+            bytes32 s;
+            uint8 v;
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                let ptr := add(approvals.offset, offset)
+                r := calldataload(ptr)
+                s := calldataload(add(ptr, 32))
+                v := byte(0, calldataload(add(ptr, 64)))
+            }
+            
+            // Malleable (high-s) signatures need no rejection: each signer counts once
+            address signer = ecrecover(digest, v, r, s);
+            if (!isSigner[signer]) revert NotSigner();
+            
+            // Signers who signed since collection are skipped so a front-run cannot void the batch
+            _sign(txHash, signer);
+            
+            if (state.approved) break;
         }
     }
     
@@ -326,7 +353,7 @@ contract Level {
         view 
         returns (uint256 current, uint256 required) 
     {
-        ApprovalState memory state = approvalStates[txHash];
+        ApprovalState storage state = approvalStates[txHash];
         return (state.signatureCount, state.requiredQuorum);
     }
     
@@ -336,7 +363,7 @@ contract Level {
      * @return seconds remaining (0 if expired or not started)
      */
     function getTimelockRemaining(bytes32 txHash) external view returns (uint256) {
-        ApprovalState memory state = approvalStates[txHash];
+        ApprovalState storage state = approvalStates[txHash];
         
         // Return 0 if transaction not submitted
         if (!state.submitted) {
@@ -354,8 +381,60 @@ contract Level {
         return state.timelockEnd - block.timestamp;
     }
     
+    /**
+     * @notice EIP-712 digest a signer signs to approve a transaction off-chain
+     * @dev Domain: name "MultiLevelAccount Level", version "1", current chain, this Level
+     * @param txHash Transaction hash
+     */
+    function getApprovalDigest(bytes32 txHash) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            NAME_HASH,
+            VERSION_HASH,
+            block.chainid,
+            address(this)
+        ));
+        bytes32 structHash = keccak256(abi.encode(
+            APPROVAL_TYPEHASH,
+            multiLevelAccount,
+            levelId,
+            txHash,
+            block.chainid
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+    
     // ============ Internal Functions ============
     
+    /**
+     * @dev Record a signature and start the timelock once quorum is reached.
+     *      Returns false without recording if the signer had already signed.
+     */
+    function _sign(bytes32 txHash, address signer) internal returns (bool recorded) {
+        ApprovalState storage state = approvalStates[txHash];
+        
+        if (!state.submitted) revert NotSubmitted();
+        if (state.denied) revert TransactionDenied();
+        if (state.approved) revert AlreadyApproved();
+        if (signatures[txHash][signer]) return false;
+        
+        signatures[txHash][signer] = true;
+        state.signatureCount++;
+        
+        emit Signed(
+            txHash,
+            signer,
+            state.signatureCount,
+            state.requiredQuorum
+        );
+        
+        // Check if quorum reached
+        if (state.signatureCount >= state.requiredQuorum) {
+            _handleQuorumReached(txHash);
+        }
+        return true;
+    }
+    
     /**
      * @dev Handle quorum reached - start timelock
      * @dev Only starts timelock once - additional signatures after quorum do not reset it
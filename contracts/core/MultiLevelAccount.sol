@@ -115,6 +115,14 @@ contract MultiLevelAccount is IAccount, Ownable {
         address indexed levelAddress
     );
     
+    event BatchProposed(
+        bytes32 indexed txHash,
+        address[] to,
+        uint256[] values,
+        bytes[] data,
+        uint256[] amounts
+    );
+    
     // ============ Errors ============
     
     error OnlyEntryPoint();
@@ -126,6 +134,8 @@ contract MultiLevelAccount is IAccount, Ownable {
     error TransactionFailed(bytes returnData);
     error InvalidConfiguration();
     error Unauthorized();
+    error InvalidBatch();
+    error BatchCallFailed(uint256 index, bytes returnData);
     
     // ============ Modifiers ============
     
@@ -134,6 +144,12 @@ contract MultiLevelAccount is IAccount, Ownable {
         _;
     }
     
+    /// @dev Lets configuration changes be proposed and approved as self-calls
+    modifier onlyOwnerOrSelf() {
+        if (msg.sender != address(this)) _checkOwner();
+        _;
+    }
+    
     modifier onlyLevel(uint256 levelId) {
         if (msg.sender != levelContracts[levelId]) revert Unauthorized();
         _;
@@ -199,39 +215,44 @@ contract MultiLevelAccount is IAccount, Ownable {
         bytes calldata data,
         uint256 amount
     ) external onlyEntryPoint {
-        // Generate unique transaction hash
-        bytes32 txHash = _generateTxHash(to, value, data, amount);
-        
-        // Get configuration for this amount
-        AmountRange memory config = _getConfigForAmount(amount);
-        
-        // Store transaction data
-        transactions[txHash] = Transaction({
-            to: to,
-            value: value,
-            data: data,
-            amount: amount,
-            proposedAt: block.timestamp,
-            config: config
-        });
+        _propose(to, value, data, amount);
+    }
+    
+    /**
+     * @notice Propose a batch of calls as a single transaction (Phase 1: Proposal)
+     * @dev Routed by the sum of amounts and approved once; the calls run in order
+     *      via executeBatchCalls, and the whole batch reverts if any call fails
+     * @param to Destination addresses
+     * @param values ETH values to send
+     * @param data Call data per call
+     * @param amounts Routing amount per call
+     */
+    function executeBatch(
+        address[] calldata to,
+        uint256[] calldata values,
+        bytes[] calldata data,
+        uint256[] calldata amounts
+    ) external onlyEntryPoint {
+        if (to.length == 0 ||
+            to.length != values.length ||
+            to.length != data.length ||
+            to.length != amounts.length) {
+            revert InvalidBatch();
+        }
         
-        currentLevelIndex[txHash] = 0;
+        uint256 totalAmount = 0;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            totalAmount += amounts[i];
+        }
         
-        emit TransactionProposed(
-            txHash,
-            to,
-            value,
-            amount,
-            config.levelIds,
-            config.quorums
+        bytes32 txHash = _propose(
+            address(this),
+            0,
+            abi.encodeCall(this.executeBatchCalls, (to, values, data)),
+            totalAmount
         );
         
-        // Submit to first level
-        ILevel(levelContracts[config.levelIds[0]]).submitTransaction(
-            txHash,
-            config.quorums[0],
-            config.timelocks[0]
-        );
+        emit BatchProposed(txHash, to, values, data, amounts);
     }
     
     // ============ Configuration (Owner Only) ============
@@ -250,7 +271,7 @@ contract MultiLevelAccount is IAccount, Ownable {
         uint256[] calldata levelIds,
         uint256[] calldata quorums,
         uint256[] calldata timelocks
-    ) external onlyOwner {
+    ) external onlyOwnerOrSelf {
         if (levelIds.length != quorums.length || 
             levelIds.length != timelocks.length) {
             revert InvalidConfiguration();
@@ -291,7 +312,7 @@ contract MultiLevelAccount is IAccount, Ownable {
      * @param levelAddress Address of Level contract
      * @return levelId The assigned level ID
      */
-    function addLevel(address levelAddress) external onlyOwner returns (uint256 levelId) {
+    function addLevel(address levelAddress) external onlyOwnerOrSelf returns (uint256 levelId) {
         if (levelAddress == address(0)) revert InvalidConfiguration();
         
         levelId = nextLevelId++;
@@ -354,7 +375,7 @@ contract MultiLevelAccount is IAccount, Ownable {
      * @param levelId Level ID to update
      * @param newAddress New Level contract address
      */
-    function updateLevel(uint256 levelId, address newAddress) external onlyOwner {
+    function updateLevel(uint256 levelId, address newAddress) external onlyOwnerOrSelf {
         if (levelContracts[levelId] == address(0)) revert InvalidConfiguration();
         if (newAddress == address(0)) revert InvalidConfiguration();
         
@@ -369,7 +390,7 @@ contract MultiLevelAccount is IAccount, Ownable {
      * @notice Remove amount range configuration
      * @param index Index in amountRanges array
      */
-    function removeAmountRange(uint256 index) external onlyOwner {
+    function removeAmountRange(uint256 index) external onlyOwnerOrSelf {
         if (index >= amountRanges.length) revert InvalidConfiguration();
         
         // Move last element to deleted position
@@ -509,13 +530,57 @@ contract MultiLevelAccount is IAccount, Ownable {
     
     // ============ Internal Functions ============
     
+    /**
+     * @dev Propose a transaction and submit it to its first level
+     */
+    function _propose(
+        address to,
+        uint256 value,
+        bytes memory data,
+        uint256 amount
+    ) internal returns (bytes32 txHash) {
+        // Generate unique transaction hash
+        txHash = _generateTxHash(to, value, data, amount);
+        
+        // Get configuration for this amount
+        AmountRange memory config = _getConfigForAmount(amount);
+        
+        // Store transaction data
+        transactions[txHash] = Transaction({
+            to: to,
+            value: value,
+            data: data,
+            amount: amount,
+            proposedAt: block.timestamp,
+            config: config
+        });
+        
+        currentLevelIndex[txHash] = 0;
+        
+        emit TransactionProposed(
+            txHash,
+            to,
+            value,
+            amount,
+            config.levelIds,
+            config.quorums
+        );
+        
+        // Submit to first level
+        ILevel(levelContracts[config.levelIds[0]]).submitTransaction(
+            txHash,
+            config.quorums[0],
+            config.timelocks[0]
+        );
+    }
+    
     /**
      * @dev Generate unique transaction hash
      */
     function _generateTxHash(
         address to,
         uint256 value,
-        bytes calldata data,
+        bytes memory data,
         uint256 amount
     ) internal returns (bytes32) {
         bytes32 txHash = keccak256(abi.encodePacked(
@@ -560,18 +625,28 @@ contract MultiLevelAccount is IAccount, Ownable {
         }
     }
     
-    // ============ Batch Execution (Stub) ============
+    // ============ Batch Execution ============
     
     /**
-     * @notice Batch execution (not implemented in v1)
+     * @notice Run an approved batch's calls in order
+     * @dev Only callable by the account itself, from executeApprovedTransaction
+     * @param to Destination addresses
+     * @param values ETH values to send
+     * @param data Call data per call
      */
-    function executeBatch(
-        address[] calldata /* to */,
-        uint256[] calldata /* values */,
-        bytes[] calldata /* data */,
-        uint256[] calldata /* amounts */
-    ) external pure {
-        revert("Not implemented");
+    function executeBatchCalls(
+        address[] calldata to,
+        uint256[] calldata values,
+        bytes[] calldata data
+    ) external {
+        if (msg.sender != address(this)) revert Unauthorized();
+        
+        for (uint256 i = 0; i < to.length; i++) {
+            (bool success, bytes memory returnData) = to[i].call{value: values[i]}(data[i]);
+            if (!success) {
+                revert BatchCallFailed(i, returnData);
+            }
+        }
     }
     
     // ============ Receive ETH ============
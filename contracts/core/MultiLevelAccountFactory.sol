@@ -64,7 +64,7 @@ contract MultiLevelAccountFactory {
         
         // Verify the deployed address matches the predicted address
         // This ensures computeAccountAddress() returns the correct counterfactual address
-        require(accountAddress == predictedAddress, "Address mismatch");
+        if (accountAddress != predictedAddress) revert AddressMismatch();
         
         account = MultiLevelAccount(payable(accountAddress));
         
@@ -23,6 +23,14 @@ contract MockEntryPoint is IEntryPoint {
         for (uint256 i = 0; i < ops.length; i++) {
             PackedUserOperation calldata op = ops[i];
             
+            // Deploy the sender through its factory, as SenderCreator does
+            if (op.initCode.length > 0) {
+                require(op.sender.code.length == 0, "Sender already constructed");
+                (bool created, bytes memory result) = address(bytes20(op.initCode[0:20])).call(op.initCode[20:]);
+                require(created && result.length >= 32, "initCode failed");
+                require(abi.decode(result, (address)) == op.sender, "initCode must return sender");
+            }
+            
             // Validate user op
             bytes32 userOpHash = getUserOpHash(op);
             uint256 validationData = IAccount(op.sender).validateUserOp(
@@ -28,11 +28,21 @@ async function main() {
   
   const factoryAddress = await factory.getAddress();
   
+  // Deploy the wrapper that creates accounts with initial amount ranges (counterfactual deployment)
+  const ConfiguredFactory = await ethers.getContractFactory("ConfiguredAccountFactory");
+  console.log("Deploying ConfiguredAccountFactory...");
+  const configuredFactory = await ConfiguredFactory.deploy(factoryAddress);
+  await configuredFactory.waitForDeployment();
+  
+  const configuredFactoryAddress = await configuredFactory.getAddress();
+  
   console.log("\n=== Factory Deployment Complete ===");
   console.log("Factory Address:", factoryAddress);
+  console.log("ConfiguredAccountFactory Address:", configuredFactoryAddress);
   console.log("EntryPoint:", entryPointAddress);
   console.log("\nAdd this to your website .env.local:");
   console.log(`NEXT_PUBLIC_FACTORY_ADDRESS=${factoryAddress}`);
+  console.log(`NEXT_PUBLIC_CONFIGURED_FACTORY_ADDRESS=${configuredFactoryAddress}`);
 }
 
 main().catch((error) => {
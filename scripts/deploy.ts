@@ -1,4 +1,7 @@
+import * as fs from "fs";
+import * as path from "path";
 import { ethers } from "hardhat";
+import { parsePolicy } from "../sdk/src/policy/amountPolicy";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
@@ -19,6 +22,12 @@ async function main() {
   
   console.log("Factory deployed:", await factory.getAddress());
   
+  const ConfiguredFactory = await ethers.getContractFactory("ConfiguredAccountFactory");
+  const configuredFactory = await ConfiguredFactory.deploy(await factory.getAddress());
+  await configuredFactory.waitForDeployment();
+  
+  console.log("ConfiguredAccountFactory deployed:", await configuredFactory.getAddress());
+  
   // 3. Create example account
   const owner = deployer.address;
   const levelSigners = [
@@ -61,32 +70,19 @@ async function main() {
   
   console.log("MultiLevelAccount deployed:", accountAddress);
   
-  // 4. Configure amount ranges
+  // 4. Configure amount ranges from the policy file
   const account = await ethers.getContractAt("MultiLevelAccount", accountAddress);
   
-  await account.connect(deployer).configureAmountRange(
-    0,
-    ethers.parseEther("10000"),
-    [1],
-    [2],
-    [3600]
-  );
-  
-  await account.connect(deployer).configureAmountRange(
-    ethers.parseEther("10001"),
-    ethers.parseEther("1000000"),
-    [1, 2],
-    [2, 2],
-    [3600, 7200]
-  );
-  
-  await account.connect(deployer).configureAmountRange(
-    ethers.parseEther("1000001"),
-    ethers.MaxUint256,
-    [1, 2, 3],
-    [3, 2, 1],
-    [3600, 7200, 86400]
-  );
+  const policyPath = process.env.POLICY_FILE || path.join(__dirname, "policies", "default.yaml");
+  for (const range of parsePolicy(fs.readFileSync(policyPath, "utf8"))) {
+    await account.connect(deployer).configureAmountRange(
+      range.minAmount,
+      range.maxAmount,
+      range.levelIds,
+      range.quorums,
+      range.timelocks
+    );
+  }
   
   console.log("Configuration complete!");
   
@@ -98,6 +94,7 @@ async function main() {
   
   console.log("\n=== Deployment Summary ===");
   console.log("Factory:", await factory.getAddress());
+  console.log("ConfiguredAccountFactory:", await configuredFactory.getAddress());
   console.log("Account:", accountAddress);
   console.log("EntryPoint:", entryPointAddress);
   console.log("Owner:", owner);
@@ -1,7 +1,10 @@
+import * as fs from "fs";
+import * as path from "path";
 import { ethers } from "hardhat";
+import { diffPolicy, parsePolicy } from "../sdk/src/policy/amountPolicy";
 
 /**
- * Script to configure an existing MultiLevelAccount with amount ranges
+ * Script to configure an existing MultiLevelAccount with amount ranges from a policy file
  */
 async function main() {
   const accountAddress = process.env.ACCOUNT_ADDRESS;
@@ -15,36 +18,35 @@ async function main() {
   console.log("Configuring account:", accountAddress);
   console.log("Using signer:", deployer.address);
   
-  // Configure amount ranges
-  // Range 1: $0 - $10k (Level 1 only, 2-of-3, 1 hour)
-  await account.connect(deployer).configureAmountRange(
-    0,
-    ethers.parseEther("10000"),
-    [1],
-    [2],
-    [3600]
-  );
-  console.log("Configured range 1: $0 - $10k");
+  // Converge amount ranges to the policy file
+  const policyPath = process.env.POLICY_FILE || path.join(__dirname, "policies", "default.yaml");
+  console.log("Applying policy:", policyPath);
   
-  // Range 2: $10k - $1M (Level 1 + 2, 2-of-3 and 2-of-2, 1hr + 2hr)
-  await account.connect(deployer).configureAmountRange(
-    ethers.parseEther("10001"),
-    ethers.parseEther("1000000"),
-    [1, 2],
-    [2, 2],
-    [3600, 7200]
-  );
-  console.log("Configured range 2: $10k - $1M");
+  const current = [];
+  for (let i = 0; i < Number(await account.getAmountRangeCount()); i++) {
+    const range = await account.getAmountRange(i);
+    current.push({
+      minAmount: range.minAmount,
+      maxAmount: range.maxAmount,
+      levelIds: [...range.levelIds],
+      quorums: [...range.quorums],
+      timelocks: [...range.timelocks]
+    });
+  }
   
-  // Range 3: $1M+ (All 3 levels, 3-of-3, 2-of-2, 1-of-1, 1hr + 2hr + 24hr)
-  await account.connect(deployer).configureAmountRange(
-    ethers.parseEther("1000001"),
-    ethers.MaxUint256,
-    [1, 2, 3],
-    [3, 2, 1],
-    [3600, 7200, 86400]
-  );
-  console.log("Configured range 3: $1M+");
+  const plan = diffPolicy(current, parsePolicy(fs.readFileSync(policyPath, "utf8")));
+  console.log(`${plan.unchanged.length} range(s) already match, ${plan.steps.length} change(s) needed`);
+  
+  for (const step of plan.steps) {
+    if (step.type === "configureAmountRange") {
+      const { minAmount, maxAmount, levelIds, quorums, timelocks } = step.range;
+      await (await account.connect(deployer).configureAmountRange(minAmount, maxAmount, levelIds, quorums, timelocks)).wait();
+      console.log(`Configured range: ${ethers.formatEther(minAmount)} - ${ethers.formatEther(maxAmount)} ETH`);
+    } else {
+      await (await account.connect(deployer).removeAmountRange(step.index)).wait();
+      console.log(`Removed range ${step.index}: ${ethers.formatEther(step.range.minAmount)} - ${ethers.formatEther(step.range.maxAmount)} ETH`);
+    }
+  }
   
   console.log("Configuration complete!");
   
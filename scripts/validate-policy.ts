@@ -0,0 +1,38 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parsePolicy } from "../sdk/src/policy/amountPolicy";
+import { validateAmountRanges } from "../sdk/src/policy/validatePolicy";
+
+/**
+ * Script to validate an amount-range policy file offline (exits non-zero on errors, for CI)
+ */
+async function main() {
+  const policyPath = process.env.POLICY_FILE || path.join(__dirname, "policies", "default.yaml");
+  
+  // e.g. SIGNER_COUNTS=1:3,2:2,3:1
+  const signerCounts = process.env.SIGNER_COUNTS
+    ? new Map(process.env.SIGNER_COUNTS.split(",").map((entry) => {
+      const [levelId, count] = entry.split(":").map(Number);
+      return [levelId, count] as [number, number];
+    }))
+    : undefined;
+  
+  console.log("Validating policy:", policyPath);
+  const report = validateAmountRanges(parsePolicy(fs.readFileSync(policyPath, "utf8")), { signerCounts });
+  
+  for (const issue of report.issues) {
+    console.log(`  [${issue.severity}] ${issue.code}: ${issue.message}`);
+  }
+  console.log(report.valid
+    ? `Policy is valid (${report.issues.length} warning(s))`
+    : "Policy has errors");
+  
+  if (!report.valid) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,134 +1,87 @@
-import type { Address, Hex, PublicClient } from "viem";
+import type { AbiEvent, Address, Hex, PublicClient } from "viem";
 import { decodeEventLog } from "viem";
-import { TransactionStatus, LevelStatus } from "./types";
+import {
+  AccountEvent,
+  LevelStatus,
+  TransactionStatus,
+  TransactionStatusChangeSet,
+  WatchEventsOptions
+} from "./types";
 import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI } from "./contracts/abis";
+import type { EventIndexer } from "./indexer/EventIndexer";
+import { getLevelContracts, supportsSubscriptions } from "./utils/accountReads";
+import { diffTransactionStatus } from "./utils/statusDiff";
+import { deriveTransactionState } from "./utils/transactionState";
+
+const DEFAULT_EVENT_POLLING_INTERVAL = 2000;
+
+export type TransactionStatusCallback = (
+  status: TransactionStatus,
+  changeSet: TransactionStatusChangeSet
+) => void;
+
+const WATCHED_EVENTS = [
+  ...MULTI_LEVEL_ACCOUNT_ABI.filter((e) => e.type === "event"),
+  ...LEVEL_ABI.filter((e) => e.type === "event")
+] as AbiEvent[];
 
 export class EventMonitor {
   private accountAddress: Address;
   private publicClient: PublicClient;
+  private indexer?: EventIndexer;
 
+  /**
+   * @param indexer Optional event index; when set, logs are read from it instead of eth_getLogs
+   */
   constructor(
     accountAddress: Address | string,
-    publicClient: PublicClient
+    publicClient: PublicClient,
+    indexer?: EventIndexer
   ) {
     this.accountAddress = accountAddress as Address;
     this.publicClient = publicClient;
+    this.indexer = indexer;
   }
 
   /**
    * Watch transaction progress
-   * Uses polling to check for status changes
+   * The callback receives the new status and the changes since the previous one
+   * (signatures, timelock start/expiry, approvals, denials, level advances).
+   * Refreshes status on each event when the transport supports subscriptions,
+   * otherwise polls for status changes
    */
   watchTransaction(
     txHash: string,
-    callback: (status: TransactionStatus) => void
+    callback: TransactionStatusCallback
   ): () => void {
+    if (supportsSubscriptions(this.publicClient)) {
+      return this._watchTransactionEvents(txHash, callback);
+    }
+
     let lastStatus: TransactionStatus | null = null;
     let intervalId: NodeJS.Timeout;
     let isActive = true;
 
+    // Only call callback if status changed
+    const emit = (status: TransactionStatus) => {
+      const changes = diffTransactionStatus(lastStatus, status);
+      if (lastStatus && changes.length === 0) return;
+      callback(status, { txHash, previous: lastStatus, changes });
+      lastStatus = status;
+    };
+
     const checkStatus = async () => {
       if (!isActive) return;
 
       try {
         const currentStatus = await this.getTransactionStatus(txHash);
 
-        // Only call callback if status changed
-        if (!lastStatus ||
-          lastStatus.currentLevelIndex !== currentStatus.currentLevelIndex ||
-          lastStatus.fullyApproved !== currentStatus.fullyApproved) {
-          callback(currentStatus);
-          lastStatus = currentStatus;
-        }
+        emit(currentStatus);
 
         // Stop polling if transaction is executed or denied
-        if (currentStatus.fullyApproved) {
-          // Check if executed by looking for TransactionExecuted event
-          const eventAbi = MULTI_LEVEL_ACCOUNT_ABI.find((e) =>
-            e.type === "event" && (e as any).name === "TransactionExecuted"
-          ) as any;
-          const logs = await this.publicClient.getLogs({
-            address: this.accountAddress,
-            event: {
-              type: "event",
-              name: "TransactionExecuted",
-              inputs: eventAbi?.inputs || []
-            },
-            args: { txHash: txHash as Hex }
-          });
-
-          if (logs.length > 0) {
-            isActive = false;
-            clearInterval(intervalId);
-            return;
-          }
-        }
-
-        // Check for denial
-        const fromBlock = await this._getSafeFromBlock(50_000n);
-        const deniedEventAbi = MULTI_LEVEL_ACCOUNT_ABI.find((e) =>
-          e.type === "event" && (e as any).name === "TransactionDenied"
-        ) as any;
-        const deniedLogs = await this.publicClient.getLogs({
-          address: this.accountAddress,
-          event: {
-            type: "event",
-            name: "TransactionDenied",
-            inputs: deniedEventAbi?.inputs || []
-          },
-          args: { txHash: txHash as Hex },
-          fromBlock
-        });
-
-        if (deniedLogs.length > 0) {
-          let levelId: number | undefined = undefined;
-
-          for (const log of deniedLogs) {
-            try {
-              const decoded = decodeEventLog({
-                abi: MULTI_LEVEL_ACCOUNT_ABI,
-                eventName: "TransactionDenied",
-                data: log.data,
-                topics: log.topics
-              });
-              const decodedLevelId = (decoded.args as any)?.levelId ?? (decoded.args as any)?.[1];
-              if (decodedLevelId !== undefined) {
-                levelId = Number(decodedLevelId);
-                break;
-              }
-            } catch {
-              // Ignore decode errors, continue
-            }
-          }
-
-          const updatedStatuses = currentStatus.levelStatuses.length > 0
-            ? currentStatus.levelStatuses.map((ls) =>
-              levelId !== undefined && ls.levelId === levelId
-                ? { ...ls, denied: true }
-                : ls
-            )
-            : (levelId !== undefined
-              ? [{
-                levelId,
-                submitted: true,
-                approved: false,
-                denied: true,
-                signaturesCollected: 0,
-                signaturesRequired: 0,
-                timelockRemaining: 0
-              }]
-              : currentStatus.levelStatuses);
-
-          const deniedStatus = {
-            ...currentStatus,
-            levelStatuses: updatedStatuses
-          };
-
-          callback(deniedStatus);
-          lastStatus = deniedStatus;
+        if (currentStatus.state === "executed" || currentStatus.state === "denied") {
           isActive = false;
           clearInterval(intervalId);
-          return;
         }
       } catch (error) {
         console.error("Error checking transaction status:", error);
@@ -136,10 +89,7 @@ export class EventMonitor {
     };
 
     // Initial status
-    this.getTransactionStatus(txHash).then((status) => {
-      lastStatus = status;
-      callback(status);
-    }).catch(console.error);
+    this.getTransactionStatus(txHash).then(emit).catch(console.error);
 
     // Poll every 2 seconds
     intervalId = setInterval(checkStatus, 2000);
@@ -151,6 +101,88 @@ export class EventMonitor {
     };
   }
 
+  /**
+   * Watch typed account and level events
+   * Uses eth_subscribe (watchContractEvent) when the transport supports it,
+   * otherwise polls new blocks with a single eth_getLogs per tick
+   */
+  watchEvents(
+    callback: (event: AccountEvent) => void,
+    options: WatchEventsOptions = {}
+  ): () => void {
+    const unwatchers: (() => void)[] = [];
+    let isActive = true;
+    const onError = options.onError ?? ((error: Error) => console.error("Error watching events:", error));
+
+    const emit = (levels: Map<string, number>, logs: readonly any[]) => {
+      for (const log of logs) {
+        for (const event of this._toAccountEvents(log, levels)) {
+          if (!isActive) return;
+          if (options.txHash && event.txHash.toLowerCase() !== options.txHash.toLowerCase()) continue;
+          if (options.types && !options.types.includes(event.type)) continue;
+          callback(event);
+        }
+      }
+    };
+
+    const start = async () => {
+      const levels = await getLevelContracts(this.publicClient, this.accountAddress);
+      if (!isActive) return;
+
+      if (!options.poll && supportsSubscriptions(this.publicClient)) {
+        // viem uses eth_subscribe("logs") for WebSocket/IPC transports
+        unwatchers.push(this.publicClient.watchContractEvent({
+          address: this.accountAddress,
+          abi: MULTI_LEVEL_ACCOUNT_ABI,
+          onLogs: (logs) => emit(levels, logs),
+          onError
+        }));
+        unwatchers.push(this.publicClient.watchContractEvent({
+          address: [...levels.keys()] as Address[],
+          abi: LEVEL_ABI,
+          onLogs: (logs) => emit(levels, logs),
+          onError
+        }));
+        return;
+      }
+
+      let lastBlock = await this.publicClient.getBlockNumber({ cacheTime: 0 });
+      if (!isActive) return;
+      let polling = false;
+
+      const intervalId = setInterval(async () => {
+        if (polling || !isActive) return;
+        polling = true;
+        try {
+          const currentBlock = await this.publicClient.getBlockNumber({ cacheTime: 0 });
+          if (currentBlock > lastBlock) {
+            const logs = await this.publicClient.getLogs({
+              address: [this.accountAddress, ...levels.keys()] as Address[],
+              events: WATCHED_EVENTS,
+              fromBlock: lastBlock + 1n,
+              toBlock: currentBlock
+            });
+            lastBlock = currentBlock;
+            emit(levels, logs);
+          }
+        } catch (error) {
+          onError(error as Error);
+        } finally {
+          polling = false;
+        }
+      }, options.pollingInterval ?? DEFAULT_EVENT_POLLING_INTERVAL);
+      unwatchers.push(() => clearInterval(intervalId));
+    };
+
+    start().catch(onError);
+
+    // Return unsubscribe function
+    return () => {
+      isActive = false;
+      unwatchers.forEach((unwatch) => unwatch());
+    };
+  }
+
   /**
    * Get current transaction status
    */
@@ -159,6 +191,8 @@ export class EventMonitor {
     const maxRetries = 3;
     const retryDelay = 1000;
     let txData: any | null = null;
+    // Executed and denied transactions are deleted from storage; their data comes from events
+    let stored = false;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
@@ -209,6 +243,7 @@ export class EventMonitor {
             timelocks: (result.config?.timelocks ?? []).map((t: bigint) => BigInt(t))
           }
         };
+        stored = true;
 
         break;
       } catch (error: any) {
@@ -270,10 +305,132 @@ export class EventMonitor {
       proposedAt: txData ? new Date(Number(txData.proposedAt) * 1000) : new Date(0),
       currentLevelIndex: Number(currentIndex),
       fullyApproved,
-      levelStatuses
+      levelStatuses,
+      ...deriveTransactionState(levelStatuses, Number(currentIndex), fullyApproved, stored)
     };
   }
 
+  /**
+   * Event-driven watchTransaction: refetch status only when the transaction changes
+   */
+  private _watchTransactionEvents(
+    txHash: string,
+    callback: TransactionStatusCallback
+  ): () => void {
+    let lastStatus: TransactionStatus | null = null;
+    let isActive = true;
+
+    const emit = (status: TransactionStatus) => {
+      const changes = diffTransactionStatus(lastStatus, status);
+      if (!isActive || (lastStatus && changes.length === 0)) return;
+      callback(status, { txHash, previous: lastStatus, changes });
+      lastStatus = status;
+    };
+
+    const refresh = () => this.getTransactionStatus(txHash).then(emit).catch(console.error);
+
+    const unwatch = this.watchEvents((event) => {
+      if (event.type === "executed" || event.type === "denied") {
+        // Final snapshot reports the terminal state
+        refresh().finally(stop);
+        return;
+      }
+      refresh();
+    }, {
+      txHash,
+      types: ["signed", "timelockStarted", "levelCompleted", "readyForExecution", "executed", "denied"]
+    });
+
+    const stop = () => {
+      isActive = false;
+      unwatch();
+    };
+
+    // Initial status
+    refresh();
+
+    return stop;
+  }
+
+  /**
+   * Map a decoded log to typed events
+   * A Signed log that reaches quorum also yields "quorumReached"
+   */
+  private _toAccountEvents(log: any, levels: Map<string, number>): AccountEvent[] {
+    const args = log.args ?? {};
+    if (!log.eventName || !args.txHash) {
+      return [];
+    }
+
+    const base = {
+      txHash: args.txHash as string,
+      blockNumber: BigInt(log.blockNumber ?? 0),
+      logIndex: Number(log.logIndex ?? 0),
+      transactionHash: log.transactionHash as string
+    };
+
+    if ((log.address as string).toLowerCase() === this.accountAddress.toLowerCase()) {
+      switch (log.eventName) {
+        case "TransactionProposed":
+          return [{
+            ...base,
+            type: "proposed",
+            to: args.to,
+            value: BigInt(args.value),
+            amount: BigInt(args.amount),
+            levelIds: (args.levelIds ?? []).map(Number),
+            quorums: (args.quorums ?? []).map(Number)
+          }];
+        case "LevelCompleted":
+          return [{ ...base, type: "levelCompleted", levelId: Number(args.levelId), currentIndex: Number(args.currentIndex) }];
+        case "ReadyForExecution":
+          return [{ ...base, type: "readyForExecution" }];
+        case "TransactionExecuted":
+          return [{ ...base, type: "executed", to: args.to, value: BigInt(args.value) }];
+        case "TransactionDenied":
+          return [{ ...base, type: "denied", levelId: Number(args.levelId), denier: args.denier }];
+        default:
+          return [];
+      }
+    }
+
+    const levelId = levels.get((log.address as string).toLowerCase());
+    if (levelId === undefined) {
+      return [];
+    }
+
+    switch (log.eventName) {
+      case "TransactionSubmitted":
+        return [{
+          ...base,
+          type: "submitted",
+          levelId,
+          requiredQuorum: Number(args.requiredQuorum),
+          timelockDuration: BigInt(args.timelockDuration)
+        }];
+      case "Signed": {
+        const signatureCount = Number(args.signatureCount);
+        const requiredQuorum = Number(args.requiredQuorum);
+        const events: AccountEvent[] = [{
+          ...base,
+          type: "signed",
+          levelId,
+          signer: args.signer,
+          signatureCount,
+          requiredQuorum
+        }];
+        if (signatureCount === requiredQuorum) {
+          events.push({ ...base, type: "quorumReached", levelId });
+        }
+        return events;
+      }
+      case "QuorumReached":
+        return [{ ...base, type: "timelockStarted", levelId, timelockEnd: BigInt(args.timelockEnd) }];
+      default:
+        return [];
+    }
+  }
+
   private async _getLevelStatuses(
     txHash: string,
     levelIds: readonly bigint[],
@@ -369,6 +526,19 @@ export class EventMonitor {
    */
   private async _getTransactionFromEvents(txHash: string): Promise<any | null> {
     try {
+      if (this.indexer) {
+        const proposed = await this.indexer.getLogs({
+          address: this.accountAddress,
+          eventName: "TransactionProposed",
+          txHash
+        });
+        if (proposed.length === 0) {
+          return null;
+        }
+        const { args, blockNumber } = proposed[proposed.length - 1];
+        return this._txDataFromProposedEvent(args, blockNumber);
+      }
+
       const eventAbi = MULTI_LEVEL_ACCOUNT_ABI.find((e) =>
         e.type === "event" && (e as any).name === "TransactionProposed"
       ) as any;
@@ -404,28 +574,30 @@ export class EventMonitor {
         topics: log.topics
       });
 
-      const args = decoded.args as any;
-
-      // We can get to, value, amount, levelIds, and quorums from the event
-      // But we don't have data, proposedAt, or full config
-      // So we'll construct a minimal txData object
-      return {
-        to: args.to as string,
-        value: BigInt(args.value ?? 0),
-        data: "0x" as Hex, // Not available in event
-        amount: BigInt(args.amount ?? 0),
-        proposedAt: BigInt(log.blockNumber ?? 0), // Use block number as approximation
-        config: {
-          minAmount: 0n,
-          maxAmount: 0n,
-          levelIds: (args.levelIds ?? []).map((id: bigint) => BigInt(id)),
-          quorums: (args.quorums ?? []).map((q: bigint) => BigInt(q)),
-          timelocks: [] // Not available in event
-        }
-      };
+      return this._txDataFromProposedEvent(decoded.args, BigInt(log.blockNumber ?? 0));
     } catch (error) {
       console.error("Error getting transaction from events:", error);
       return null;
     }
   }
+
+  private _txDataFromProposedEvent(args: any, blockNumber: bigint): any {
+    // We can get to, value, amount, levelIds, and quorums from the event
+    // But we don't have data, proposedAt, or full config
+    // So we'll construct a minimal txData object
+    return {
+      to: args.to as string,
+      value: BigInt(args.value ?? 0),
+      data: "0x" as Hex, // Not available in event
+      amount: BigInt(args.amount ?? 0),
+      proposedAt: blockNumber, // Use block number as approximation
+      config: {
+        minAmount: 0n,
+        maxAmount: 0n,
+        levelIds: (args.levelIds ?? []).map((id: bigint) => BigInt(id)),
+        quorums: (args.quorums ?? []).map((q: bigint) => BigInt(q)),
+        timelocks: [] // Not available in event
+      }
+    };
+  }
 }
@@ -0,0 +1,355 @@
+import type { Address, Hex, PublicClient, WalletClient } from "viem";
+import { encodeFunctionData } from "viem";
+import {
+  AccountEvent,
+  KeeperAction,
+  KeeperActionResult,
+  KeeperOptions,
+  KeeperTask
+} from "./types";
+import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI } from "./contracts/abis";
+import { MultiLevelAccountError, decodeError } from "./errors";
+import { EventMonitor } from "./EventMonitor";
+import { TransactionHistory } from "./TransactionHistory";
+import type { EventIndexer } from "./indexer/EventIndexer";
+import { getDeploymentBlock, getLevelContracts } from "./utils/accountReads";
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 15_000;
+
+// Reverts meaning the action was already taken by someone else or can no longer happen
+const SKIP_ERRORS = ["AlreadyApproved", "TransactionDenied", "NotSubmitted", "NotFullyApproved"];
+
+interface ScheduledTask extends KeeperTask {
+  timer?: NodeJS.Timeout;
+  running: boolean;
+}
+
+/**
+ * Calls Level.completeTimelock when timelocks expire and, optionally,
+ * executeApprovedTransaction once transactions are ready, for one or many accounts
+ */
+export class Keeper {
+  private publicClient: PublicClient;
+  private walletClient?: WalletClient;
+  private options: KeeperOptions;
+  private accounts = new Map<string, Map<number, Address>>();
+  private indexers = new Map<string, EventIndexer>();
+  private tasks = new Map<string, ScheduledTask>();
+  private unwatchers = new Map<string, () => void>();
+  private running = false;
+
+  /**
+   * @param walletClient Sends the keeper transactions; not needed in dry-run mode
+   */
+  constructor(
+    accounts: (Address | string)[],
+    publicClient: PublicClient,
+    walletClient?: WalletClient,
+    options: KeeperOptions = {}
+  ) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.options = options;
+    if (!walletClient && !options.dryRun) {
+      throw new Error("WalletClient required unless dryRun is set");
+    }
+    for (const account of accounts) {
+      this.accounts.set(account.toLowerCase(), new Map());
+    }
+    for (const [account, indexer] of Object.entries(options.indexers ?? {})) {
+      this.indexers.set(account.toLowerCase(), indexer);
+    }
+  }
+
+  /**
+   * Schedule actions for transactions already waiting, then watch for new ones
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    await Promise.all([...this.accounts.keys()].map((account) => this._watchAccount(account)));
+  }
+
+  /**
+   * Stop watching and cancel all scheduled actions
+   */
+  stop(): void {
+    this.running = false;
+    this.unwatchers.forEach((unwatch) => unwatch());
+    this.unwatchers.clear();
+    for (const task of this.tasks.values()) {
+      clearTimeout(task.timer);
+    }
+    this.tasks.clear();
+  }
+
+  async addAccount(account: Address | string): Promise<void> {
+    const key = account.toLowerCase();
+    if (this.accounts.has(key)) return;
+    this.accounts.set(key, new Map());
+    if (this.running) {
+      await this._watchAccount(key);
+    }
+  }
+
+  removeAccount(account: Address | string): void {
+    const key = account.toLowerCase();
+    this.unwatchers.get(key)?.();
+    this.unwatchers.delete(key);
+    this.accounts.delete(key);
+    for (const [id, task] of this.tasks) {
+      if (task.action.account.toLowerCase() === key) {
+        this._cancel(id);
+      }
+    }
+  }
+
+  /**
+   * Scheduled actions, soonest first
+   */
+  getScheduled(): KeeperTask[] {
+    return [...this.tasks.values()]
+      .map(({ action, dueAt, attempts }) => ({ action, dueAt, attempts }))
+      .sort((a, b) => (a.dueAt < b.dueAt ? -1 : a.dueAt > b.dueAt ? 1 : 0));
+  }
+
+  /**
+   * Run every scheduled action that is due at the latest block's timestamp
+   * Timers do this automatically; call it directly after jumping chain time or from a cron job.
+   */
+  async runDue(): Promise<KeeperActionResult[]> {
+    const now = await this._chainTime();
+    const due = [...this.tasks.entries()].filter(([, task]) => task.dueAt <= now && !task.running);
+    const results: KeeperActionResult[] = [];
+    for (const [id] of due) {
+      const result = await this._run(id);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  private async _watchAccount(account: string): Promise<void> {
+    await this._refreshLevels(account);
+    if (!this.accounts.has(account)) return;
+
+    const monitor = new EventMonitor(account, this.publicClient);
+    this.unwatchers.set(account, monitor.watchEvents((event) => this._onEvent(account, event), {
+      types: ["timelockStarted", "levelCompleted", "readyForExecution", "executed", "denied"],
+      pollingInterval: this.options.pollingInterval,
+      onError: this.options.onError
+    }));
+
+    // Without an index, scan from the deployment block rather than the whole chain
+    const indexer = this.indexers.get(account);
+    const fromBlock = this.options.fromBlock ??
+      (indexer ? undefined : await getDeploymentBlock(this.publicClient, account as Address));
+    const history = new TransactionHistory(account, this.publicClient, { fromBlock, indexer });
+    for (const entry of await history.getAllTransactions()) {
+      if (entry.outcome === "pending") {
+        for (const level of entry.levels) {
+          if (level.quorumReached && !level.completed && level.timelockEnd) {
+            await this._scheduleTimelock(account, entry.txHash, level.levelId, level.timelockEnd);
+          }
+        }
+      } else if (entry.outcome === "readyForExecution" && this.options.autoExecute) {
+        this._schedule({ type: "executeApprovedTransaction", account, txHash: entry.txHash }, 0n);
+      }
+    }
+  }
+
+  private _onEvent(account: string, event: AccountEvent): void {
+    switch (event.type) {
+      case "timelockStarted":
+        this._scheduleTimelock(account, event.txHash, event.levelId, event.timelockEnd)
+          .catch((error) => this._onError(error));
+        break;
+      case "levelCompleted":
+        this._cancel(this._taskId(account, "completeTimelock", event.txHash, event.levelId));
+        break;
+      case "readyForExecution":
+        if (this.options.autoExecute) {
+          this._schedule({ type: "executeApprovedTransaction", account, txHash: event.txHash }, 0n);
+        }
+        break;
+      case "executed":
+      case "denied":
+        for (const [id, task] of this.tasks) {
+          if (task.action.account === account && task.action.txHash.toLowerCase() === event.txHash.toLowerCase()) {
+            this._cancel(id);
+          }
+        }
+        break;
+    }
+  }
+
+  private async _scheduleTimelock(account: string, txHash: string, levelId: number, timelockEnd: bigint): Promise<void> {
+    let levelAddress = this.accounts.get(account)?.get(levelId);
+    if (!levelAddress) {
+      // Levels added or replaced since the account was watched
+      await this._refreshLevels(account);
+      levelAddress = this.accounts.get(account)?.get(levelId);
+    }
+    if (!levelAddress) {
+      if (this.accounts.has(account)) {
+        this._onError(new Error(`No level contract for level ${levelId} of ${account}; cannot complete timelock of ${txHash}`));
+      }
+      return;
+    }
+    this._schedule({ type: "completeTimelock", account, txHash, levelId, levelAddress }, timelockEnd);
+  }
+
+  private async _refreshLevels(account: string): Promise<void> {
+    const levels = await getLevelContracts(this.publicClient, account as Address);
+    const levelAddresses = this.accounts.get(account);
+    if (!levelAddresses) return;
+    for (const [address, levelId] of levels) {
+      levelAddresses.set(levelId, address as Address);
+    }
+  }
+
+  private _schedule(action: KeeperAction, dueAt: bigint): void {
+    const id = this._taskId(action.account, action.type, action.txHash,
+      action.type === "completeTimelock" ? action.levelId : undefined);
+    if (!this.running || this.tasks.has(id)) return;
+
+    this.tasks.set(id, { action, dueAt, attempts: 0, running: false });
+    this._arm(id).catch((error) => this._onError(error));
+  }
+
+  /**
+   * Set the task's timer from the remaining chain time
+   */
+  private async _arm(id: string, minDelay = 0): Promise<void> {
+    const task = this.tasks.get(id);
+    if (!task) return;
+    const remaining = task.dueAt - await this._chainTime();
+    const delay = Math.max(minDelay, remaining > 0n ? Number(remaining) * 1000 : 0);
+    clearTimeout(task.timer);
+    task.timer = setTimeout(() => {
+      this._run(id).catch((error) => this._onError(error));
+    }, delay);
+  }
+
+  private async _run(id: string): Promise<KeeperActionResult | null> {
+    const task = this.tasks.get(id);
+    if (!task || task.running) return null;
+    // Claim the task before the first await so a timer and runDue cannot both send it
+    task.running = true;
+
+    let result: KeeperActionResult;
+    try {
+      // Wall clock and chain time drift apart; wait until the chain catches up
+      if (task.dueAt > await this._chainTime()) {
+        await this._arm(id, 1000);
+        return null;
+      }
+
+      task.attempts++;
+      result = await this._attempt(task.action, task.attempts);
+    } finally {
+      task.running = false;
+    }
+    // Events seen while waiting for the receipt may have cancelled the task; the
+    // attempt was still made, so report it without retrying
+    const cancelled = !this.tasks.has(id);
+
+    if (!cancelled && result.status === "failed" && task.attempts <= (this.options.retries ?? DEFAULT_RETRIES)) {
+      await this._arm(id, this.options.retryDelay ?? DEFAULT_RETRY_DELAY);
+      return result;
+    }
+
+    this._cancel(id);
+    this.options.onAction?.(result);
+    return result;
+  }
+
+  private async _attempt(action: KeeperAction, attempts: number): Promise<KeeperActionResult> {
+    const call = action.type === "completeTimelock"
+      ? { to: action.levelAddress as Address, data: encodeFunctionData({ abi: LEVEL_ABI, functionName: "completeTimelock", args: [action.txHash as Hex] }) }
+      : { to: action.account as Address, data: encodeFunctionData({ abi: MULTI_LEVEL_ACCOUNT_ABI, functionName: "executeApprovedTransaction", args: [action.txHash as Hex] }) };
+
+    try {
+      if (this.options.maxGasPrice !== undefined) {
+        const gasPrice = await this.publicClient.getGasPrice();
+        if (gasPrice > this.options.maxGasPrice) {
+          return { action, status: "failed", attempts, reason: `Gas price ${gasPrice} above cap ${this.options.maxGasPrice}` };
+        }
+      }
+
+      const from = await this._getSender();
+      const gasEstimate = await this.publicClient.estimateGas({ account: from, ...call });
+      if (this.options.maxGas !== undefined && gasEstimate > this.options.maxGas) {
+        return { action, status: "skipped", attempts, gasEstimate, reason: `Gas estimate ${gasEstimate} above cap ${this.options.maxGas}` };
+      }
+      if (this.options.dryRun) {
+        return { action, status: "simulated", attempts, gasEstimate };
+      }
+
+      const transactionHash = await this.walletClient!.sendTransaction({
+        account: from!,
+        ...call,
+        gas: gasEstimate,
+        chain: undefined
+      });
+      const receipt = await this.publicClient.waitForTransactionReceipt({
+        hash: transactionHash,
+        pollingInterval: this.options.pollingInterval
+      });
+      if (receipt.status === "reverted") {
+        // e.g. another keeper completed the timelock in the same block; replay the
+        // call against the block's final state to learn why
+        try {
+          await this.publicClient.call({ account: from, ...call, blockNumber: receipt.blockNumber });
+        } catch (error) {
+          return { ...this._failure(action, attempts, error), gasEstimate, transactionHash };
+        }
+        return { action, status: "failed", attempts, gasEstimate, transactionHash, reason: "Transaction reverted" };
+      }
+      return { action, status: "sent", attempts, gasEstimate, transactionHash };
+    } catch (error) {
+      return this._failure(action, attempts, error);
+    }
+  }
+
+  /**
+   * Skipped if the revert shows the action was already taken, failed otherwise
+   */
+  private _failure(action: KeeperAction, attempts: number, error: unknown): KeeperActionResult {
+    const decoded = decodeError(error);
+    if (decoded instanceof MultiLevelAccountError && SKIP_ERRORS.includes(decoded.errorName)) {
+      return { action, status: "skipped", attempts, reason: decoded.errorName, error: decoded };
+    }
+    return { action, status: "failed", attempts, reason: decoded.message, error: decoded };
+  }
+
+  private async _getSender(): Promise<Address | undefined> {
+    if (!this.walletClient) return undefined;
+    if (this.walletClient.account) return this.walletClient.account.address;
+    const [address] = await this.walletClient.getAddresses();
+    if (!address) {
+      throw new Error("No account found in wallet client");
+    }
+    return address;
+  }
+
+  private async _chainTime(): Promise<bigint> {
+    const block = await this.publicClient.getBlock({ blockTag: "latest" });
+    return block.timestamp;
+  }
+
+  private _cancel(id: string): void {
+    const task = this.tasks.get(id);
+    if (!task) return;
+    clearTimeout(task.timer);
+    this.tasks.delete(id);
+  }
+
+  private _taskId(account: string, type: KeeperAction["type"], txHash: string, levelId?: number): string {
+    return `${account.toLowerCase()}:${type}:${txHash.toLowerCase()}:${levelId ?? ""}`;
+  }
+
+  private _onError(error: Error): void {
+    (this.options.onError ?? ((e: Error) => console.error("Keeper error:", e)))(error);
+  }
+}
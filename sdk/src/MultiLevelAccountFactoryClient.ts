@@ -0,0 +1,220 @@
+import type { Address, PublicClient, WalletClient } from "viem";
+import { createPublicClient, http, decodeEventLog } from "viem";
+import { MultiLevelAccountSDK } from "./MultiLevelAccountSDK";
+import { AccountCreationResult, AccountInitConfig, CreatedLevel, InitialRanges } from "./types";
+import { CONFIGURED_ACCOUNT_FACTORY_ABI, MULTI_LEVEL_ACCOUNT_FACTORY_ABI } from "./contracts/abis";
+
+/**
+ * Client for MultiLevelAccountFactory
+ * Predicts, creates and connects to MultiLevelAccounts
+ */
+export class MultiLevelAccountFactoryClient {
+  private factoryAddress: Address;
+  private publicClient: PublicClient;
+  private walletClient?: WalletClient;
+  private bundlerUrl?: string;
+  private entryPointAddress: Address | null = null;
+
+  constructor(
+    factoryAddress: Address | string,
+    publicClientOrRpcUrl: PublicClient | string,
+    walletClient?: WalletClient,
+    bundlerUrl?: string
+  ) {
+    this.factoryAddress = factoryAddress as Address;
+
+    // Create PublicClient if RPC URL provided, otherwise use provided client
+    if (typeof publicClientOrRpcUrl === "string") {
+      this.publicClient = createPublicClient({
+        transport: http(publicClientOrRpcUrl)
+      });
+    } else {
+      this.publicClient = publicClientOrRpcUrl;
+    }
+
+    this.walletClient = walletClient;
+    this.bundlerUrl = bundlerUrl;
+  }
+
+  /**
+   * Get the EntryPoint the factory deploys accounts for
+   */
+  async getEntryPointAddress(): Promise<Address> {
+    if (!this.entryPointAddress) {
+      this.entryPointAddress = await this.publicClient.readContract({
+        address: this.factoryAddress,
+        abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI,
+        functionName: "entryPoint"
+      }) as Address;
+    }
+    return this.entryPointAddress;
+  }
+
+  /**
+   * Predict the CREATE2 address of an account
+   */
+  async computeAccountAddress(
+    owner: Address | string,
+    levelSigners: (Address | string)[][],
+    salt: bigint
+  ): Promise<Address> {
+    return await this.publicClient.readContract({
+      address: this.factoryAddress,
+      abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI,
+      functionName: "computeAccountAddress",
+      args: [
+        owner as Address,
+        levelSigners.map(signers => signers.map(s => s as Address)),
+        salt
+      ]
+    }) as Address;
+  }
+
+  /**
+   * Create an account and its levels
+   * Returns the decoded AccountCreated/LevelCreated data and an SDK bound to the new account
+   */
+  async createAccount(
+    owner: Address | string,
+    levelSigners: (Address | string)[][],
+    salt: bigint
+  ): Promise<AccountCreationResult & { sdk: MultiLevelAccountSDK }> {
+    if (!this.walletClient) {
+      throw new Error("WalletClient required");
+    }
+
+    const [account] = await this.walletClient.getAddresses();
+    if (!account) {
+      throw new Error("No account found in wallet client");
+    }
+
+    const hash = await this.walletClient.writeContract({
+      address: this.factoryAddress,
+      abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI,
+      functionName: "createAccount",
+      args: [
+        owner as Address,
+        levelSigners.map(signers => signers.map(s => s as Address)),
+        salt
+      ],
+      account,
+      chain: undefined
+    });
+
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+
+    let created: { account: string; owner: string; levelIds: bigint[] } | null = null;
+    const levels: CreatedLevel[] = [];
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.factoryAddress.toLowerCase()) {
+        continue;
+      }
+
+      try {
+        const decoded = decodeEventLog({
+          abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI,
+          data: log.data,
+          topics: log.topics
+        });
+        const args = decoded.args as any;
+
+        if (decoded.eventName === "LevelCreated") {
+          levels.push({
+            levelId: BigInt(args.levelId),
+            levelAddress: args.level as string,
+            signers: [...(args.signers as string[])]
+          });
+        } else if (decoded.eventName === "AccountCreated") {
+          created = {
+            account: args.account as string,
+            owner: args.owner as string,
+            levelIds: (args.levelIds as bigint[]).map(id => BigInt(id))
+          };
+        }
+      } catch {
+        // Not a factory event, continue
+        continue;
+      }
+    }
+
+    if (!created) {
+      throw new Error(`AccountCreated event not found in transaction ${hash}`);
+    }
+
+    return {
+      accountAddress: created.account,
+      owner: created.owner,
+      levelIds: created.levelIds,
+      levels,
+      transactionHash: hash,
+      blockNumber: receipt.blockNumber,
+      sdk: await this.getSDK(created.account)
+    };
+  }
+
+  /**
+   * Get an SDK instance for an account deployed by this factory
+   */
+  async getSDK(accountAddress: Address | string): Promise<MultiLevelAccountSDK> {
+    return new MultiLevelAccountSDK(
+      accountAddress,
+      await this.getEntryPointAddress(),
+      this.publicClient,
+      this.walletClient,
+      this.bundlerUrl
+    );
+  }
+
+  /**
+   * Get an SDK instance for a counterfactual account
+   * With initialRanges the account is created through a ConfiguredAccountFactory and
+   * the first proposal deploys it. Without them proposals throw AccountNotDeployed
+   * until the account is created and configured.
+   */
+  async getCounterfactualSDK(
+    owner: Address | string,
+    levelSigners: (Address | string)[][],
+    salt: bigint,
+    initialRanges?: InitialRanges
+  ): Promise<MultiLevelAccountSDK> {
+    const initConfig: AccountInitConfig = {
+      factoryAddress: this.factoryAddress,
+      owner: owner as string,
+      levelSigners: levelSigners.map(signers => signers.map(s => s as string)),
+      salt
+    };
+    let accountAddress: Address;
+
+    if (initialRanges) {
+      const configuredFactory = initialRanges.configuredFactoryAddress as Address;
+      const accountFactory = await this.publicClient.readContract({
+        address: configuredFactory,
+        abi: CONFIGURED_ACCOUNT_FACTORY_ABI,
+        functionName: "accountFactory"
+      }) as Address;
+      if (accountFactory.toLowerCase() !== this.factoryAddress.toLowerCase()) {
+        throw new Error(
+          `ConfiguredAccountFactory ${configuredFactory} creates accounts through ${accountFactory}, ` +
+          `not ${this.factoryAddress}`
+        );
+      }
+
+      initConfig.factoryAddress = configuredFactory;
+      initConfig.ranges = initialRanges.ranges;
+      accountAddress = await this.publicClient.readContract({
+        address: configuredFactory,
+        abi: CONFIGURED_ACCOUNT_FACTORY_ABI,
+        functionName: "computeAccountAddress",
+        args: [initConfig.owner as Address, initConfig.levelSigners as Address[][], initConfig.ranges, salt]
+      }) as Address;
+    } else {
+      accountAddress = await this.computeAccountAddress(owner, levelSigners, salt);
+    }
+
+    const sdk = await this.getSDK(accountAddress);
+    sdk.setAccountInitConfig(initConfig);
+
+    return sdk;
+  }
+}
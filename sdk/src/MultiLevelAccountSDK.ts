@@ -1,10 +1,62 @@
-import type { Address, Hex, PublicClient, WalletClient } from "viem";
-import { createPublicClient, http, decodeEventLog } from "viem";
+import type { AbiEvent, Address, Hex, PublicClient, WalletClient } from "viem";
+import { createPublicClient, http, decodeEventLog, encodeFunctionData, getAbiItem, maxUint256 } from "viem";
 import { UserOpBuilder } from "./UserOpBuilder";
+import type { MultiLevelAccountBatchParams, MultiLevelAccountExecuteParams } from "./plugins/MultiLevelAccountPlugin";
 import { SignerInterface } from "./SignerInterface";
-import { EventMonitor } from "./EventMonitor";
-import { TransactionStatus } from "./types";
-import { MULTI_LEVEL_ACCOUNT_ABI, ENTRY_POINT_ABI } from "./contracts/abis";
+import { EventMonitor, type TransactionStatusCallback } from "./EventMonitor";
+import { TransactionHistory } from "./TransactionHistory";
+import { Keeper } from "./Keeper";
+import type { EventIndexer } from "./indexer/EventIndexer";
+import {
+  AccountEvent,
+  AccountInitConfig,
+  AmountCheckOptions,
+  AmountCheckResult,
+  AmountPolicyInput,
+  CallDescription,
+  AmountRange,
+  ApplyPolicyOptions,
+  BatchCall,
+  BatchProposal,
+  PackedUserOperation,
+  ProposalRequest,
+  ApplyPolicyResult,
+  ConfigGovernanceOptions,
+  KeeperOptions,
+  PaymasterProvider,
+  PolicyReport,
+  PolicyValidationOptions,
+  ProposalSimulation,
+  ProposalSimulationOptions,
+  SignerChange,
+  SignerChangeOptions,
+  SignerChangeProposal,
+  SignerChangeValidation,
+  SignerRotationProposal,
+  TransactionState,
+  TransactionStatus,
+  TransactionHistoryPage,
+  TransactionHistoryQuery,
+  SimulationOptions,
+  WatchEventsOptions
+} from "./types";
+import { MULTI_LEVEL_ACCOUNT_ABI, ENTRY_POINT_ABI, LEVEL_ABI } from "./contracts/abis";
+import {
+  MultiLevelAccountError,
+  AccountContractError,
+  UserOperationFailedError,
+  decodeError,
+  decodeRevertData,
+  LevelContractError
+} from "./errors";
+import { validateSignerChange } from "./utils/signerChanges";
+import { diffPolicy, parsePolicy } from "./policy/amountPolicy";
+import { validateAmountRanges } from "./policy/validatePolicy";
+import { getLevelContracts } from "./utils/accountReads";
+import { checkDeclaredAmount } from "./amounts/routingAmount";
+import { simulateCall, simulateStoredTransaction } from "./utils/simulation";
+import { CalldataDecoder } from "./decoding/CalldataDecoder";
+import { getUserOpProposals, type UserOpProposal } from "./utils/userOpProposals";
 
 export class MultiLevelAccountSDK {
   private accountAddress: Address;
@@ -12,6 +64,12 @@ export class MultiLevelAccountSDK {
   private publicClient: PublicClient;
   private walletClient?: WalletClient;
   private userOpBuilder: UserOpBuilder;
+  private eventIndexer?: EventIndexer;
+  private configGovernance?: ConfigGovernanceOptions;
+  private amountCheck?: AmountCheckOptions;
+  private proposalSimulation?: ProposalSimulationOptions;
+  private simulations = new Map<string, ProposalSimulation>();
+  private calldataDecoder = new CalldataDecoder();
 
   constructor(
     accountAddress: Address | string,
@@ -43,6 +101,125 @@ export class MultiLevelAccountSDK {
     );
   }
 
+  // ============ Counterfactual Deployment ============
+
+  /**
+   * Set factory parameters of a counterfactual account, used for initCode
+   * With initial ranges the first proposal deploys the account; without them
+   * proposals throw AccountNotDeployed until the account is deployed and configured
+   */
+  setAccountInitConfig(config: AccountInitConfig | undefined): void {
+    this.userOpBuilder.setAccountInitConfig(config);
+  }
+
+  /**
+   * Check whether the account contract has been deployed
+   */
+  async isDeployed(): Promise<boolean> {
+    return await this.userOpBuilder.isAccountDeployed();
+  }
+
+  // ============ Gas Sponsorship ============
+
+  /**
+   * Set paymaster used to sponsor proposal UserOps
+   * Without a paymaster the account pays for gas from its own balance
+   */
+  setPaymaster(paymaster: PaymasterProvider | undefined): void {
+    this.userOpBuilder.setPaymaster(paymaster);
+  }
+
+  // ============ Event Index ============
+
+  /**
+   * Set event index used by signer interfaces, monitoring and history
+   * Without an index, each call queries logs from the RPC directly
+   */
+  setEventIndexer(indexer: EventIndexer | undefined): void {
+    this.eventIndexer = indexer;
+  }
+
+  getEventIndexer(): EventIndexer | undefined {
+    return this.eventIndexer;
+  }
+
+  // ============ Configuration Governance ============
+
+  /**
+   * Route configureAmountRange, removeAmountRange, addLevel and updateLevel through
+   * the approval flow as self-targeted proposals instead of direct owner calls
+   * Off by default and not enforced on-chain: onlyOwnerOrSelf still accepts the owner's
+   * direct calls. Recommended for production; pass undefined to restore direct owner calls.
+   */
+  setConfigGovernance(options: ConfigGovernanceOptions | undefined): void {
+    this.configGovernance = options;
+  }
+
+  // ============ Amount Checks ============
+
+  /**
+   * Check declared amounts against the value each proposal actually moves
+   * In "warn" mode (default) understated amounts are logged; in "refuse" mode
+   * proposeTransaction throws AmountUnderstated. Pass undefined to disable.
+   */
+  setAmountCheck(options: AmountCheckOptions | undefined): void {
+    this.amountCheck = options;
+  }
+
+  /**
+   * Compute the routing amount for a call and compare it with a declared amount
+   */
+  async checkAmount(
+    to: Address | string,
+    value: bigint,
+    data: Hex | string,
+    amount: bigint,
+    options: AmountCheckOptions | undefined = this.amountCheck
+  ): Promise<AmountCheckResult> {
+    if (!options) {
+      throw new Error("Price source required: pass options or call setAmountCheck()");
+    }
+    return await checkDeclaredAmount(to, value, data, amount, options);
+  }
+
+  // ============ Simulation ============
+
+  /**
+   * Simulate every proposal from the account before submitting it
+   * Proposals whose call reverts are refused unless allowRevert is set, and the
+   * result is kept for getProposalSimulation. Pass undefined to disable.
+   */
+  setProposalSimulation(options: ProposalSimulationOptions | undefined): void {
+    this.proposalSimulation = options;
+  }
+
+  /**
+   * Run a call from the account's address without proposing it
+   * This is what executeApprovedTransaction will do once the proposal is approved.
+   */
+  async simulateProposal(
+    to: Address | string,
+    value: bigint,
+    data: Hex | string,
+    options: SimulationOptions = {}
+  ): Promise<ProposalSimulation> {
+    return await simulateCall(this.publicClient, this.accountAddress, to as Address, value, data as Hex, options);
+  }
+
+  /**
+   * Simulate an already proposed transaction against current state
+   */
+  async simulateTransaction(txHash: Hex | string, options: SimulationOptions = {}): Promise<ProposalSimulation> {
+    return await simulateStoredTransaction(this.publicClient, this.accountAddress, txHash as Hex, options);
+  }
+
+  /**
+   * Simulation recorded when this SDK proposed the transaction
+   */
+  getProposalSimulation(txHash: Hex | string): ProposalSimulation | undefined {
+    return this.simulations.get(txHash.toLowerCase());
+  }
+
   // ============ Proposal (Owner Only) ============
 
   /**
@@ -53,19 +230,222 @@ export class MultiLevelAccountSDK {
     value: bigint,
     data: Hex | string,
     amount: bigint,
-    bundlerUrl?: string
+    bundlerUrl?: string,
+    gasOptions?: Pick<MultiLevelAccountExecuteParams, "gasOverrides" | "gasMultiplier">
   ): Promise<string> {
+    const simulation = await this._simulateBeforeProposal(to, value, data);
+
+    const txHash = await this._submitProposal(
+      { to: to as Address, value, data: data as Hex, amount, ...gasOptions },
+      bundlerUrl
+    );
+    if (simulation) {
+      this.simulations.set(txHash.toLowerCase(), simulation);
+    }
+    return txHash;
+  }
+
+  /**
+   * Propose several independent transactions at once
+   * Unlike proposeBatch, each proposal gets its own txHash and approval cycle. The
+   * UserOps use nonce keys 0..n-1 so a bundler can include them in parallel;
+   * without a bundler they are sent in one handleOps call. Returns the txHashes
+   * in the order of `proposals`.
+   */
+  async proposeTransactions(
+    proposals: ProposalRequest[],
+    bundlerUrl?: string,
+    gasOptions?: Pick<MultiLevelAccountExecuteParams, "gasOverrides" | "gasMultiplier">
+  ): Promise<string[]> {
+    if (proposals.length === 0) {
+      return [];
+    }
+    // Only one UserOp can carry the initCode: deploy with the first proposal, then send the rest
+    if (proposals.length > 1 && this.userOpBuilder.accountInitConfig && !(await this.isDeployed())) {
+      const [first, ...rest] = proposals;
+      const deployed = await this.proposeTransactions([first], bundlerUrl, gasOptions);
+      return [...deployed, ...(await this.proposeTransactions(rest, bundlerUrl, gasOptions))];
+    }
+
+    const simulations: (ProposalSimulation | undefined)[] = [];
+    const params: MultiLevelAccountExecuteParams[] = [];
+    for (const [i, proposal] of proposals.entries()) {
+      simulations.push(await this._simulateBeforeProposal(proposal.to, proposal.value, proposal.data));
+      params.push({
+        to: proposal.to as Address,
+        value: proposal.value,
+        data: proposal.data as Hex,
+        amount: proposal.amount,
+        ...gasOptions,
+        nonceKey: BigInt(i)
+      });
+    }
+    for (const proposal of params) {
+      await this._checkProposal(proposal);
+    }
+
+    if (bundlerUrl) {
+      this.userOpBuilder.setBundlerUrl(bundlerUrl);
+    }
+
+    const signedUserOps: PackedUserOperation[] = [];
+    for (const proposal of params) {
+      signedUserOps.push(await this.userOpBuilder.signUserOp(await this.userOpBuilder.buildUserOp(proposal)));
+    }
+
+    const txHashes = await this._submitUserOps(signedUserOps, bundlerUrl);
+    txHashes.forEach((txHash, i) => {
+      if (simulations[i]) {
+        this.simulations.set(txHash.toLowerCase(), simulations[i]!);
+      }
+    });
+    return txHashes;
+  }
+
+  /**
+   * Propose several calls as one transaction via executeBatch
+   * The batch is routed by the sum of the calls' amounts, approved once, and
+   * executed atomically by executeApprovedTransaction. Returns the txHash.
+   */
+  async proposeBatch(
+    calls: BatchCall[],
+    bundlerUrl?: string,
+    gasOptions?: Pick<MultiLevelAccountBatchParams, "gasOverrides" | "gasMultiplier">
+  ): Promise<string> {
+    if (calls.length === 0) {
+      throw new MultiLevelAccountError("Batch has no calls", "InvalidBatch");
+    }
+    const batchCalls = calls.map((call) => ({
+      to: call.to as Address,
+      value: call.value,
+      data: call.data as Hex,
+      amount: call.amount
+    }));
+    const totalAmount = batchCalls.reduce((sum, call) => sum + call.amount, 0n);
+    if (totalAmount > maxUint256) {
+      throw new MultiLevelAccountError(
+        `Batch amounts sum to ${totalAmount}, which overflows uint256`,
+        "InvalidBatch"
+      );
+    }
+
+    // The proposal stored on-chain is a call from the account to its own executeBatchCalls
+    const batchData = encodeFunctionData({
+      abi: MULTI_LEVEL_ACCOUNT_ABI,
+      functionName: "executeBatchCalls",
+      args: [batchCalls.map((call) => call.to), batchCalls.map((call) => call.value), batchCalls.map((call) => call.data)]
+    });
+    const simulation = await this._simulateBeforeProposal(this.accountAddress, 0n, batchData);
+
+    const txHash = await this._submitProposal({ calls: batchCalls, ...gasOptions }, bundlerUrl);
+    if (simulation) {
+      this.simulations.set(txHash.toLowerCase(), simulation);
+    }
+    return txHash;
+  }
+
+  /**
+   * Calls and amounts of a batch, from its BatchProposed event; null if txHash is not a batch
+   * Available after execution or denial, when the account no longer stores the transaction.
+   */
+  async getBatch(txHash: Hex | string, fromBlock: bigint = 0n): Promise<BatchProposal | null> {
+    let event: { args: Record<string, unknown>; blockNumber: bigint } | undefined;
+    if (this.eventIndexer) {
+      const logs = await this.eventIndexer.getLogs({
+        address: this.accountAddress,
+        eventName: "BatchProposed",
+        txHash,
+        fromBlock
+      });
+      event = logs[logs.length - 1];
+    } else {
+      const logs = await this.publicClient.getLogs({
+        address: this.accountAddress,
+        event: getAbiItem({ abi: MULTI_LEVEL_ACCOUNT_ABI, name: "BatchProposed" }) as AbiEvent,
+        args: { txHash: txHash as Hex },
+        fromBlock
+      });
+      const log = logs[logs.length - 1];
+      if (log) {
+        event = { args: log.args as Record<string, unknown>, blockNumber: log.blockNumber ?? 0n };
+      }
+    }
+    if (!event) {
+      return null;
+    }
+
+    const { to, values, data, amounts } = event.args as {
+      to: Address[];
+      values: bigint[];
+      data: Hex[];
+      amounts: bigint[];
+    };
+    return {
+      txHash: txHash.toLowerCase(),
+      calls: to.map((target, i) => ({ to: target, value: values[i], data: data[i], amount: amounts[i] })),
+      totalAmount: amounts.reduce((sum, amount) => sum + amount, 0n),
+      proposedAtBlock: event.blockNumber
+    };
+  }
+
+  /**
+   * Simulate a proposal when setProposalSimulation is enabled; throws SimulationReverted
+   * if the call reverts and reverting proposals are not allowed
+   */
+  private async _simulateBeforeProposal(
+    to: Address | string,
+    value: bigint,
+    data: Hex | string
+  ): Promise<ProposalSimulation | undefined> {
+    if (!this.proposalSimulation) {
+      return undefined;
+    }
+    const simulation = await this.simulateProposal(to, value, data, this.proposalSimulation);
+    if (!simulation.success && !this.proposalSimulation.allowRevert) {
+      throw new MultiLevelAccountError(
+        `Simulated call reverts: ${simulation.error?.message ?? "no reason"}. ` +
+        `It would fail with TransactionFailed when executed; set allowRevert to propose anyway.`,
+        "SimulationReverted",
+        { data: simulation.returnData, cause: simulation.error ?? undefined }
+      );
+    }
+    return simulation;
+  }
+
+  /**
+   * Checks shared by all proposals: owner wallet, account balance, declared
+   * amounts and amount range coverage
+   */
+  private async _checkProposal(
+    params: MultiLevelAccountExecuteParams | MultiLevelAccountBatchParams
+  ): Promise<void> {
     if (!this.walletClient) {
       throw new Error('WalletClient required');
     }
 
+    // Until deployed, the account is only usable through initCode that installs amount
+    // ranges; MultiLevelAccountFactory alone creates accounts where execute() reverts
+    // with NoConfigForAmount, wasting the deployment prefund
+    const deployed = await this.isDeployed();
+    const initRanges = deployed ? undefined : this.userOpBuilder.accountInitConfig?.ranges;
+    if (!deployed && !initRanges) {
+      throw new MultiLevelAccountError(
+        "Account is not deployed yet and has no initial amount ranges to route a proposal. " +
+        "Create it through a ConfiguredAccountFactory (getCounterfactualSDK with ranges), or deploy it with " +
+        "MultiLevelAccountFactoryClient.createAccount and configure amount ranges as the owner, then propose.",
+        "AccountNotDeployed"
+      );
+    }
+
     // Ensure the connected wallet is the account owner (signature validation will fail otherwise)
     try {
-      const owner = await this.publicClient.readContract({
-        address: this.accountAddress,
-        abi: MULTI_LEVEL_ACCOUNT_ABI,
-        functionName: "owner",
-      }) as Address;
+      const owner = initRanges
+        ? this.userOpBuilder.accountInitConfig!.owner
+        : await this.publicClient.readContract({
+          address: this.accountAddress,
+          abi: MULTI_LEVEL_ACCOUNT_ABI,
+          functionName: "owner",
+        }) as Address;
       const [signer] = await this.walletClient.getAddresses();
       if (!signer || signer.toLowerCase() !== owner.toLowerCase()) {
         throw new Error(
@@ -82,49 +462,95 @@ export class MultiLevelAccountSDK {
       throw new Error("Failed to verify owner/signature. Please connect with the owner wallet.");
     }
 
-    // Check account balance before proposing
-    try {
-      const balance = await this.publicClient.getBalance({ address: this.accountAddress });
-      // Warn if balance is very low (less than 0.001 ETH)
-      if (balance < 1000000000000000n) { // 0.001 ETH
-        console.warn(`Account balance is very low: ${balance.toString()} wei. This may cause transaction failures.`);
+    // Check account balance before proposing (not needed when a paymaster pays for gas)
+    if (!this.userOpBuilder.paymaster) {
+      try {
+        const balance = await this.publicClient.getBalance({ address: this.accountAddress });
+        // Warn if balance is very low (less than 0.001 ETH)
+        if (balance < 1000000000000000n) { // 0.001 ETH
+          console.warn(`Account balance is very low: ${balance.toString()} wei. This may cause transaction failures.`);
+        }
+      } catch (error) {
+        // Balance check failed, but continue anyway
+        console.warn("Failed to check account balance:", error);
+      }
+    }
+
+    // A batch is routed by the sum of its amounts; each call's amount is checked separately
+    const calls = "calls" in params ? params.calls : [params];
+    const amount = calls.reduce((sum, call) => sum + call.amount, 0n);
+
+    if (this.amountCheck) {
+      for (const [i, call] of calls.entries()) {
+        const check = await this.checkAmount(call.to, call.value, call.data, call.amount);
+        if (!check.understated) {
+          continue;
+        }
+        const subject = "calls" in params ? `Batch call ${i}: declared amount` : "Declared amount";
+        const message = check.unpriced.length > 0
+          ? `${subject} ${call.amount} wei cannot be verified: no price for ` +
+            `${[...new Set(check.unpriced.map((m) => m.token))].join(", ")}`
+          : `${subject} ${call.amount} wei understates the transfer, which is worth ${check.amount} wei. ` +
+            `Propose with an amount of at least ${check.amount} so the transaction routes to the right levels.`;
+        if (this.amountCheck.mode === "refuse") {
+          throw new MultiLevelAccountError(message, "AmountUnderstated", { cause: check });
+        }
+        console.warn(message);
       }
-    } catch (error) {
-      // Balance check failed, but continue anyway
-      console.warn("Failed to check account balance:", error);
+    }
+
+    // The deploying UserOp is routed by the initial ranges
+    if (initRanges) {
+      if (!initRanges.some((range) => amount >= range.minAmount && amount <= range.maxAmount)) {
+        throw new AccountContractError(
+          `NoConfigForAmount: No initial amount range covers transaction amount ${amount.toString()} wei. ` +
+          `Add a range that covers this amount to the account's init config.`,
+          "NoConfigForAmount"
+        );
+      }
+      return;
     }
 
     // Check if amount ranges are configured
     try {
       const rangeCount = await this.getAmountRangeCount();
       if (rangeCount === 0n) {
-        throw new Error(
-          "No amount ranges configured. Please configure amount ranges using configureAmountRange() " +
-          "before proposing transactions. Each transaction amount must fall within a configured range."
+        throw new AccountContractError(
+          "NoConfigForAmount: No amount ranges configured. Please configure amount ranges using configureAmountRange() " +
+          "before proposing transactions. Each transaction amount must fall within a configured range.",
+          "NoConfigForAmount"
         );
       }
 
       // Try to get config for this amount to verify it's covered
       try {
         await this.getConfigForAmount(amount);
-      } catch (error: any) {
-        if (error?.message?.includes("NoConfigForAmount") || error?.message?.includes("No amount range")) {
-          throw new Error(
-            `No amount range configured for transaction amount ${amount.toString()} wei. ` +
-            `Please configure an amount range that covers this amount using configureAmountRange().`
+      } catch (error) {
+        if (error instanceof MultiLevelAccountError && error.errorName === "NoConfigForAmount") {
+          throw new AccountContractError(
+            `NoConfigForAmount: No amount range configured for transaction amount ${amount.toString()} wei. ` +
+            `Please configure an amount range that covers this amount using configureAmountRange().`,
+            "NoConfigForAmount",
+            { data: error.data, cause: error }
           );
         }
         // If it's a different error, continue (might be a network issue)
       }
     } catch (error) {
       // If it's our custom error, throw it
-      if (error instanceof Error &&
-        (error.message.includes("No amount range") || error.message.includes("NoConfigForAmount"))) {
+      if (error instanceof AccountContractError) {
         throw error;
       }
       // Otherwise, log and continue (might be a network issue)
       console.warn("Failed to verify amount range configuration:", error);
     }
+  }
+
+  private async _submitProposal(
+    params: MultiLevelAccountExecuteParams | MultiLevelAccountBatchParams,
+    bundlerUrl?: string
+  ): Promise<string> {
+    await this._checkProposal(params);
 
     // Update bundler URL if provided
     if (bundlerUrl) {
@@ -132,12 +558,7 @@ export class MultiLevelAccountSDK {
     }
 
     // Build UserOp
-    const userOp = await this.userOpBuilder.buildUserOp({
-      to: to as Address,
-      value,
-      data: data as Hex,
-      amount
-    });
+    const userOp = await this.userOpBuilder.buildUserOp(params);
 
     // Sign UserOp
     const signedUserOp = await this.userOpBuilder.signUserOp(userOp);
@@ -147,12 +568,13 @@ export class MultiLevelAccountSDK {
       let userOpHash: Hex;
       try {
         userOpHash = await this.userOpBuilder.submitToBundler(signedUserOp, bundlerUrl);
-      } catch (err: any) {
-        const msg = err instanceof Error ? err.message : String(err);
-        throw new Error(
-          `Bundler submission failed: ${msg}. ` +
+      } catch (err) {
+        const reason = decodeError(err);
+        throw new UserOperationFailedError(
+          `Bundler submission failed: ${reason.message}. ` +
           `Bundler URL: ${bundlerUrl || this.userOpBuilder["bundlerUrl"] || "unknown"}. ` +
-          `No UserOp hash returned; the bundler rejected the request during validation.`
+          `No UserOp hash returned; the bundler rejected the request during validation.`,
+          reason
         );
       }
 
@@ -174,8 +596,7 @@ export class MultiLevelAccountSDK {
 
       // First, check if the UserOp failed by looking for UserOperationRevertReason or failed UserOperationEvent
       let userOpFailed = false;
-      let revertReason: string | null = null;
-      let rawRevertData: string | null = null;
+      let revertError: MultiLevelAccountError | null = null;
 
       for (const log of receipt.logs) {
         if (log.address.toLowerCase() !== this.entryPointAddress.toLowerCase()) {
@@ -197,188 +618,35 @@ export class MultiLevelAccountSDK {
           continue;
         }
 
-        if (decoded.eventName === "UserOperationRevertReason") {
-          const args = decoded.args as unknown as {
-            userOpHash: Hex;
-            sender: string;
-            revertReason: Hex;
-          };
-          if (args.userOpHash.toLowerCase() !== (userOpHash as string).toLowerCase()) {
-            continue;
-          }
-          const sender = args.sender;
-
-          if (sender && sender.toLowerCase() === this.accountAddress.toLowerCase()) {
-            userOpFailed = true;
-            let reason: any = args.revertReason || "Unknown error";
-
-            // Decode revert reason if it's bytes
-            let reasonStr: string;
-            if (reason && typeof reason === "object") {
-              if ("data" in reason) {
-                reason = (reason as any).data;
-              }
-              if (typeof reason === "string" && reason.startsWith("0x")) {
-                try {
-                  const hex = reason.slice(2);
-                  const dataStart = hex.length > 8 ? 8 : 0;
-                  const dataHex = hex.slice(dataStart);
-                  const decodedUtf8 = Buffer.from(dataHex, "hex")
-                    .toString("utf-8")
-                    .replace(/\0/g, "")
-                    .trim();
-                  reasonStr = decodedUtf8 || reason;
-                } catch {
-                  reasonStr = reason;
-                }
-              } else {
-                reasonStr = String(reason);
-              }
-            } else {
-              reasonStr = typeof reason === "string" ? reason : String(reason);
-            }
-
-            rawRevertData = reasonStr;
-            const reasonLower = reasonStr.toLowerCase();
-
-            if (reasonStr === "0xab3d0d00" || reasonLower.includes("ab3d0d00") || reasonLower.includes("noconfigforamount")) {
-              revertReason = "NoConfigForAmount: No amount range configured for this transaction amount. " +
-                "Please configure amount ranges using configureAmountRange() before proposing transactions.";
-            } else if (reasonLower.includes("prefund failed") ||
-              reasonLower.includes("prefund") ||
-              reasonLower.includes("insufficient") ||
-              reasonLower.includes("balance") ||
-              reasonLower.includes("not enough")) {
-              try {
-                const balance = await this.publicClient.getBalance({
-                  address: this.accountAddress,
-                  blockTag: 'latest'
-                });
-                const balanceEth = Number(balance) / 1e18;
-
-                if (balanceEth < 0.001) {
-                  revertReason = `Insufficient funds: Account has ${balance.toString()} wei (${balanceEth.toFixed(6)} ETH). ` +
-                    `The account needs sufficient ETH to pay for gas fees (typically at least 0.001 ETH). ` +
-                    `Please fund the account first using the "Fund Account" section.`;
-                } else {
-                  let decodedError = reasonStr;
-                  if (reasonStr.startsWith("0x") && reasonStr.length > 2) {
-                    try {
-                      const decodedUtf8 = Buffer.from(reasonStr.slice(2), 'hex').toString('utf-8').replace(/\0/g, '').trim();
-                      if (decodedUtf8 && decodedUtf8.length > 0 && /^[\x20-\x7E]+$/.test(decodedUtf8)) {
-                        decodedError = decodedUtf8;
-                      }
-                    } catch {
-                      // Keep original
-                    }
-                  }
-
-                  revertReason = `Validation error: ${decodedError}. Account balance: ${balanceEth.toFixed(6)} ETH (sufficient). ` +
-                    `This might be a gas estimation issue, EntryPoint validation problem, or signature validation failure. ` +
-                    `Check the transaction on Etherscan for more details.`;
-                }
-              } catch {
-                revertReason = "Prefund/validation error: " + reasonStr + ". " +
-                  "Unable to check account balance. Please verify the account has sufficient funds and check Etherscan for details.";
-              }
-            } else if (reasonLower.includes("sig_validation_failed") ||
-              reasonLower.includes("signature") ||
-              reasonStr === "0x01" || reasonStr === "1") {
-              revertReason = "Signature validation failed: The transaction was signed by the wrong account. " +
-                "Make sure you're using the account owner's wallet to sign the transaction.";
-            } else {
-              if (reasonStr === "Unknown error" || reasonStr.toLowerCase().includes("unknown") || reasonStr.length < 10) {
-                try {
-                  const balance = await this.publicClient.getBalance({ address: this.accountAddress });
-                  const balanceEth = Number(balance) / 1e18;
-                  if (balanceEth < 0.001) {
-                    revertReason = `Insufficient funds: Account has ${balance.toString()} wei (${balanceEth.toFixed(6)} ETH). ` +
-                      `The account needs sufficient ETH to pay for gas fees (typically at least 0.001 ETH). ` +
-                      `Please fund the account first using the "Fund Account" section.`;
-                  } else {
-                    revertReason = `${reasonStr} (Account balance: ${balanceEth.toFixed(6)} ETH)`;
-                  }
-                } catch {
-                  revertReason = reasonStr;
-                }
-              } else {
-                if (reasonStr.startsWith("0x") && reasonStr.length > 2) {
-                  try {
-                    const decodedUtf8 = Buffer.from(reasonStr.slice(2), 'hex').toString('utf-8').replace(/\0/g, '').trim();
-                    if (decodedUtf8 && decodedUtf8.length > 0 && /^[\x20-\x7E]+$/.test(decodedUtf8)) {
-                      revertReason = decodedUtf8;
-                    } else {
-                      revertReason = reasonStr;
-                    }
-                  } catch {
-                    revertReason = reasonStr;
-                  }
-                } else {
-                  revertReason = reasonStr;
-                }
-              }
-            }
+        const args = decoded.args as unknown as {
+          userOpHash: Hex;
+          sender: string;
+          revertReason?: Hex;
+          success?: boolean;
+        };
+        if (args.userOpHash.toLowerCase() !== (userOpHash as string).toLowerCase() ||
+          args.sender?.toLowerCase() !== this.accountAddress.toLowerCase()) {
+          continue;
+        }
 
-            break;
-          }
+        if (decoded.eventName === "UserOperationRevertReason") {
+          userOpFailed = true;
+          revertError = decodeRevertData(args.revertReason ?? "0x");
+          break;
         }
 
-        if (decoded.eventName === "UserOperationEvent") {
-          const args = decoded.args as unknown as {
-            userOpHash: Hex;
-            sender: string;
-            success: boolean;
-          };
-          if (args.userOpHash.toLowerCase() !== (userOpHash as string).toLowerCase()) {
-            continue;
-          }
-          const sender = args.sender;
-          const success = args.success;
-
-          if (sender && sender.toLowerCase() === this.accountAddress.toLowerCase()) {
-            if (!success) {
-              userOpFailed = true;
-              revertReason = "UserOperation execution failed";
-              break;
-            }
-          }
+        if (decoded.eventName === "UserOperationEvent" && !args.success) {
+          userOpFailed = true;
         }
       }
 
-      // If UserOp failed, throw an error with details
       if (userOpFailed) {
-        // If we still have a generic error, do a final balance check
-        if (revertReason === null || revertReason === "Unknown error" || revertReason.toLowerCase().includes("unknown")) {
-          try {
-            const balance = await this.publicClient.getBalance({
-              address: this.accountAddress,
-              blockTag: 'latest'
-            });
-            const balanceEth = Number(balance) / 1e18;
-
-            if (balanceEth < 0.001) {
-              revertReason = `Insufficient funds: Account has ${balance.toString()} wei (${balanceEth.toFixed(6)} ETH). ` +
-                `The account needs sufficient ETH to pay for gas fees (typically at least 0.001 ETH). ` +
-                `Please fund the account first using the "Fund Account" section.`;
-            } else {
-              revertReason = `UserOperation failed with unknown error. Account balance: ${balanceEth.toFixed(6)} ETH. ` +
-                `Check the transaction on Etherscan for more details.`;
-            }
-          } catch (balanceError) {
-            console.warn("Failed to check balance for error diagnosis:", balanceError);
-            revertReason = revertReason || "UserOperation failed. Check the transaction on Etherscan for details.";
-          }
-        }
-
-        const errorMsg = revertReason !== null
-          ? `UserOperation failed with revert reason: ${revertReason}. ` +
-          `UserOp hash: ${userOpHash}. Tx hash: ${actualTxHash}. ` +
-          (rawRevertData ? `Raw revert data: ${rawRevertData}. ` : "") +
-          `Transaction was not proposed.`
-          : `UserOperation failed. UserOp hash: ${userOpHash}. Tx hash: ${actualTxHash}. ` +
-          (rawRevertData ? `Raw revert data: ${rawRevertData}. ` : "") +
-          "Check the transaction on Etherscan for details.";
-        throw new Error(errorMsg);
+        throw new UserOperationFailedError(
+          `UserOperation failed${revertError ? `: ${revertError.message}` : ""}. ` +
+          `UserOp hash: ${userOpHash}. Tx hash: ${actualTxHash}. Transaction was not proposed.`,
+          revertError,
+          { userOpHash, transactionHash: actualTxHash as Hex }
+        );
       }
 
       // Parse TransactionProposed event to get the internal transaction hash
@@ -479,27 +747,32 @@ export class MultiLevelAccountSDK {
       }
 
       // Submit directly to EntryPoint using viem
-      const hash = await this.walletClient.writeContract({
-        address: this.entryPointAddress,
-        abi: ENTRY_POINT_ABI,
-        functionName: "handleOps",
-        args: [
-          [{
-            sender: signedUserOp.sender as Address,
-            nonce: signedUserOp.nonce,
-            initCode: signedUserOp.initCode as Hex,
-            callData: signedUserOp.callData as Hex,
-            accountGasLimits: signedUserOp.accountGasLimits as Hex,
-            preVerificationGas: signedUserOp.preVerificationGas,
-            gasFees: signedUserOp.gasFees as Hex,
-            paymasterAndData: signedUserOp.paymasterAndData as Hex,
-            signature: signedUserOp.signature as Hex
-          }],
-          account
-        ],
-        account,
-        chain: undefined
-      });
+      let hash: Hex;
+      try {
+        hash = await this.walletClient.writeContract({
+          address: this.entryPointAddress,
+          abi: ENTRY_POINT_ABI,
+          functionName: "handleOps",
+          args: [
+            [{
+              sender: signedUserOp.sender as Address,
+              nonce: signedUserOp.nonce,
+              initCode: signedUserOp.initCode as Hex,
+              callData: signedUserOp.callData as Hex,
+              accountGasLimits: signedUserOp.accountGasLimits as Hex,
+              preVerificationGas: signedUserOp.preVerificationGas,
+              gasFees: signedUserOp.gasFees as Hex,
+              paymasterAndData: signedUserOp.paymasterAndData as Hex,
+              signature: signedUserOp.signature as Hex
+            }],
+            account
+          ],
+          account,
+          chain: undefined
+        });
+      } catch (error) {
+        throw decodeError(error);
+      }
 
       // Wait for transaction receipt
       const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
@@ -531,18 +804,132 @@ export class MultiLevelAccountSDK {
     }
   }
 
+  /**
+   * Submit signed UserOps together and return their internal txHashes in order
+   */
+  private async _submitUserOps(signedUserOps: PackedUserOperation[], bundlerUrl?: string): Promise<string[]> {
+    let outcomes: UserOpProposal[];
+    let transactionHashes: Hex[];
+
+    if (bundlerUrl || this.userOpBuilder["bundlerUrl"]) {
+      const userOpHashes: Hex[] = [];
+      for (const [i, userOp] of signedUserOps.entries()) {
+        try {
+          userOpHashes.push(await this.userOpBuilder.submitToBundler(userOp, bundlerUrl));
+        } catch (err) {
+          const reason = decodeError(err);
+          throw new UserOperationFailedError(
+            `Bundler submission failed for proposal ${i}: ${reason.message}. ` +
+            `${userOpHashes.length} earlier proposal(s) were already submitted: ${userOpHashes.join(", ") || "none"}.`,
+            reason
+          );
+        }
+      }
+
+      transactionHashes = await Promise.all(userOpHashes.map((userOpHash) =>
+        this.userOpBuilder.waitForUserOperationReceipt(userOpHash, bundlerUrl, 120_000, 2_000)));
+
+      // Several UserOps may land in the same bundle transaction
+      const byUserOp = new Map<string, UserOpProposal>();
+      for (const hash of new Set(transactionHashes)) {
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash, timeout: 60_000 });
+        for (const outcome of getUserOpProposals(receipt.logs, this.accountAddress, this.entryPointAddress)) {
+          if (outcome.userOpHash) {
+            byUserOp.set(outcome.userOpHash.toLowerCase(), outcome);
+          }
+        }
+      }
+      outcomes = userOpHashes.map((userOpHash) =>
+        byUserOp.get(userOpHash.toLowerCase()) ?? { userOpHash, txHash: null, revertReason: null });
+    } else {
+      // Direct submission (for testing): all UserOps in one handleOps call
+      const [account] = await this.walletClient!.getAddresses();
+      if (!account) {
+        throw new Error("No account found in wallet client");
+      }
+
+      let hash: Hex;
+      try {
+        hash = await this.walletClient!.writeContract({
+          address: this.entryPointAddress,
+          abi: ENTRY_POINT_ABI,
+          functionName: "handleOps",
+          args: [
+            signedUserOps.map((userOp) => ({
+              sender: userOp.sender as Address,
+              nonce: userOp.nonce,
+              initCode: userOp.initCode as Hex,
+              callData: userOp.callData as Hex,
+              accountGasLimits: userOp.accountGasLimits as Hex,
+              preVerificationGas: userOp.preVerificationGas,
+              gasFees: userOp.gasFees as Hex,
+              paymasterAndData: userOp.paymasterAndData as Hex,
+              signature: userOp.signature as Hex
+            })),
+            account
+          ],
+          account,
+          chain: undefined
+        });
+      } catch (error) {
+        throw decodeError(error);
+      }
+
+      const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+      outcomes = getUserOpProposals(receipt.logs, this.accountAddress, this.entryPointAddress);
+      transactionHashes = signedUserOps.map(() => hash);
+    }
+
+    const failed = signedUserOps.map((_, i) => i).filter((i) => !outcomes[i]?.txHash);
+    if (failed.length > 0) {
+      const first = outcomes[failed[0]];
+      const proposed = outcomes.filter((outcome) => outcome?.txHash).map((outcome) => outcome.txHash);
+      throw new UserOperationFailedError(
+        `UserOperation failed for proposal(s) ${failed.join(", ")}` +
+        `${first?.revertReason ? `: ${first.revertReason.message}` : ""}. ` +
+        `Proposed: ${proposed.join(", ") || "none"}.`,
+        first?.revertReason ?? null,
+        { userOpHash: first?.userOpHash, transactionHash: transactionHashes[failed[0]] }
+      );
+    }
+    return outcomes.slice(0, signedUserOps.length).map((outcome) => outcome.txHash!);
+  }
+
   // ============ Signer Interface ============
 
   /**
    * Get signer interface for a level
    */
   getSignerInterface(levelId: number): SignerInterface {
-    return new SignerInterface(
+    const signerInterface = new SignerInterface(
       this.accountAddress,
       levelId,
       this.publicClient,
-      this.walletClient
+      this.walletClient,
+      this.eventIndexer
     );
+    signerInterface.setCalldataDecoder(this.calldataDecoder);
+    return signerInterface;
+  }
+
+  // ============ Calldata Decoding ============
+
+  /**
+   * Set the decoder shared by signer interfaces for pending transaction summaries
+   */
+  setCalldataDecoder(decoder: CalldataDecoder): void {
+    this.calldataDecoder = decoder;
+  }
+
+  getCalldataDecoder(): CalldataDecoder {
+    return this.calldataDecoder;
+  }
+
+  /**
+   * Decode a call from the account and describe it in plain English
+   */
+  describeCall(to: Address | string, value: bigint, data: Hex | string): CallDescription {
+    return this.calldataDecoder.describe(to, value, data, this.accountAddress);
   }
 
   // ============ Monitoring ============
@@ -552,28 +939,71 @@ export class MultiLevelAccountSDK {
    */
   monitorTransaction(
     txHash: string,
-    callback: (status: TransactionStatus) => void
+    callback: TransactionStatusCallback
   ): () => void {
     const monitor = new EventMonitor(
       this.accountAddress,
-      this.publicClient
+      this.publicClient,
+      this.eventIndexer
     );
 
     return monitor.watchTransaction(txHash, callback);
   }
 
+  /**
+   * Watch typed events (signed, quorum reached, timelock started, level completed, ready, executed, denied)
+   * Push-based on WebSocket/IPC transports, block polling otherwise
+   */
+  watchEvents(
+    callback: (event: AccountEvent) => void,
+    options?: WatchEventsOptions
+  ): () => void {
+    const monitor = new EventMonitor(
+      this.accountAddress,
+      this.publicClient,
+      this.eventIndexer
+    );
+
+    return monitor.watchEvents(callback, options);
+  }
+
   /**
    * Get current transaction status
    */
   async getTransactionStatus(txHash: string): Promise<TransactionStatus> {
     const monitor = new EventMonitor(
       this.accountAddress,
-      this.publicClient
+      this.publicClient,
+      this.eventIndexer
     );
 
     return await monitor.getTransactionStatus(txHash);
   }
 
+  /**
+   * Get paginated transaction history from logs, including executed and denied transactions
+   */
+  async getTransactionHistory(query: TransactionHistoryQuery = {}): Promise<TransactionHistoryPage> {
+    const history = new TransactionHistory(
+      this.accountAddress,
+      this.publicClient,
+      { indexer: this.eventIndexer }
+    );
+
+    return await history.getTransactions(query);
+  }
+
+  /**
+   * Create a keeper that completes expired timelocks for this account
+   * Call start() on it to begin; set autoExecute to also execute ready transactions.
+   * The keeper reads pending transactions from the SDK's event indexer, if one is set.
+   */
+  createKeeper(options: KeeperOptions = {}): Keeper {
+    const indexers = options.indexers ??
+      (this.eventIndexer ? { [this.accountAddress]: this.eventIndexer } : undefined);
+    return new Keeper([this.accountAddress], this.publicClient, this.walletClient, { ...options, indexers });
+  }
+
   // ============ Execution ============
 
   /**
@@ -589,22 +1019,229 @@ export class MultiLevelAccountSDK {
       throw new Error("No account found in wallet client");
     }
 
-    const hash = await this.walletClient.writeContract({
+    try {
+      return await this.walletClient.writeContract({
+        address: this.accountAddress,
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName: "executeApprovedTransaction",
+        args: [txHash as Hex],
+        account,
+        chain: undefined
+      });
+    } catch (error) {
+      throw decodeError(error);
+    }
+  }
+
+  // ============ Signer Management ============
+
+  /**
+   * Get the current signers of a level
+   */
+  async getLevelSigners(levelId: number): Promise<Address[]> {
+    const levelAddress = await this._getLevelAddress(levelId);
+    return [...await this.publicClient.readContract({
+      address: levelAddress,
+      abi: LEVEL_ABI,
+      functionName: "getSigners"
+    }) as readonly Address[]];
+  }
+
+  /**
+   * Check that a signer change would be accepted by the level and leave every
+   * amount range's quorum at that level satisfiable
+   */
+  async validateSignerChange(levelId: number, change: SignerChange): Promise<SignerChangeValidation> {
+    const [signers, ranges] = await Promise.all([
+      this.getLevelSigners(levelId),
+      this.getAmountRanges()
+    ]);
+    return validateSignerChange(levelId, signers, change, ranges);
+  }
+
+  /**
+   * Propose Level.addSigner as a self-call through the approval flow
+   */
+  async proposeAddSigner(
+    levelId: number,
+    signer: Address | string,
+    options: SignerChangeOptions = {}
+  ): Promise<SignerChangeProposal> {
+    const signers = await this.getLevelSigners(levelId);
+    return this._proposeSignerChange(levelId, signers, { type: "add", signer }, options);
+  }
+
+  /**
+   * Propose Level.removeSigner as a self-call through the approval flow
+   * Throws if the removal would leave a configured quorum unsatisfiable, unless options.force is set.
+   */
+  async proposeRemoveSigner(
+    levelId: number,
+    signer: Address | string,
+    options: SignerChangeOptions = {}
+  ): Promise<SignerChangeProposal> {
+    const signers = await this.getLevelSigners(levelId);
+    return this._proposeSignerChange(levelId, signers, { type: "remove", signer }, options);
+  }
+
+  /**
+   * Propose replacing a signer: addSigner then removeSigner as one batch
+   * The batch executes atomically, so the removal is validated against the signer set after the addition.
+   */
+  async proposeSignerRotation(
+    levelId: number,
+    oldSigner: Address | string,
+    newSigner: Address | string,
+    options: SignerChangeOptions = {}
+  ): Promise<SignerRotationProposal> {
+    const [signers, levelAddress, ranges] = await Promise.all([
+      this.getLevelSigners(levelId),
+      this._getLevelAddress(levelId),
+      this.getAmountRanges()
+    ]);
+    const changes: [SignerChange, SignerChange] = [
+      { type: "add", signer: newSigner },
+      { type: "remove", signer: oldSigner }
+    ];
+    const added = this._checkSignerChange(levelId, signers, changes[0], ranges, options);
+    const removed = this._checkSignerChange(levelId, added.resultingSigners, changes[1], ranges, options);
+
+    const amount = options.amount ?? this._getStrictestRoutingAmount(ranges);
+    const data: [Hex, Hex] = [
+      this._encodeSignerChange(changes[0]),
+      this._encodeSignerChange(changes[1])
+    ];
+    // The batch is routed by the sum of its amounts, so the second call carries none
+    const txHash = await this.proposeBatch([
+      { to: levelAddress, value: 0n, data: data[0], amount },
+      { to: levelAddress, value: 0n, data: data[1], amount: 0n }
+    ], options.bundlerUrl);
+
+    return {
+      txHash,
+      levelId,
+      levelAddress,
+      changes,
+      data,
+      amount,
+      resultingSigners: removed.resultingSigners
+    };
+  }
+
+  /**
+   * Report a signer change proposal's lifecycle state and the level's current signers
+   * Once the state is "executed", signers is the resulting signer set.
+   */
+  async getSignerChangeStatus(proposal: SignerChangeProposal | SignerRotationProposal): Promise<{
+    state: TransactionState;
+    signers: Address[];
+  }> {
+    const [status, signers] = await Promise.all([
+      this.getTransactionStatus(proposal.txHash),
+      this.getLevelSigners(proposal.levelId)
+    ]);
+    return { state: status.state, signers };
+  }
+
+  private async _proposeSignerChange(
+    levelId: number,
+    currentSigners: readonly string[],
+    change: SignerChange,
+    options: SignerChangeOptions
+  ): Promise<SignerChangeProposal> {
+    const [levelAddress, ranges] = await Promise.all([
+      this._getLevelAddress(levelId),
+      this.getAmountRanges()
+    ]);
+
+    const validation = this._checkSignerChange(levelId, currentSigners, change, ranges, options);
+
+    const amount = options.amount ?? this._getStrictestRoutingAmount(ranges);
+    const data = this._encodeSignerChange(change);
+
+    const txHash = await this.proposeTransaction(levelAddress, 0n, data, amount, options.bundlerUrl);
+
+    return {
+      txHash,
+      levelId,
+      levelAddress,
+      change,
+      data,
+      amount,
+      resultingSigners: validation.resultingSigners
+    };
+  }
+
+  /**
+   * Validate a signer change, throwing if the Level would reject it or, unless
+   * options.force is set, if a removal leaves a quorum unsatisfiable
+   */
+  private _checkSignerChange(
+    levelId: number,
+    currentSigners: readonly string[],
+    change: SignerChange,
+    ranges: readonly AmountRange[],
+    options: SignerChangeOptions
+  ): SignerChangeValidation {
+    const validation = validateSignerChange(levelId, currentSigners, change, ranges);
+    if (validation.error) {
+      throw new LevelContractError(validation.error, "InvalidSigner", { args: [change.signer] });
+    }
+    if (validation.unsatisfiableQuorums.length > 0 && !options.force) {
+      const [first] = validation.unsatisfiableQuorums;
+      throw new MultiLevelAccountError(
+        `Removing ${change.signer} leaves ${first.signerCount} signer(s) at level ${levelId}, ` +
+        `but amount range ${first.rangeIndex} requires a quorum of ${first.quorum}`,
+        "UnsatisfiableQuorum",
+        { args: validation.unsatisfiableQuorums }
+      );
+    }
+    return validation;
+  }
+
+  private _encodeSignerChange(change: SignerChange): Hex {
+    return encodeFunctionData({
+      abi: LEVEL_ABI,
+      functionName: change.type === "add" ? "addSigner" : "removeSigner",
+      args: [change.signer as Address]
+    });
+  }
+
+  private async _getLevelAddress(levelId: number): Promise<Address> {
+    return await this.publicClient.readContract({
       address: this.accountAddress,
       abi: MULTI_LEVEL_ACCOUNT_ABI,
-      functionName: "executeApprovedTransaction",
-      args: [txHash as Hex],
-      account,
-      chain: undefined
-    });
+      functionName: "levelContracts",
+      args: [BigInt(levelId)]
+    }) as Address;
+  }
+
+  /**
+   * Amount routed through the highest range, so the change needs the strictest approval
+   */
+  private _getStrictestRoutingAmount(ranges: readonly AmountRange[]): bigint {
+    return ranges.reduce((max, r) => (r.minAmount > max ? r.minAmount : max), 0n);
+  }
 
-    return hash;
+  private async _getSignerCounts(): Promise<Map<number, number>> {
+    const levels = await getLevelContracts(this.publicClient, this.accountAddress);
+    const counts = new Map<number, number>();
+    for (const [levelAddress, levelId] of levels) {
+      const count = await this.publicClient.readContract({
+        address: levelAddress as Address,
+        abi: LEVEL_ABI,
+        functionName: "getSignerCount"
+      }) as bigint;
+      counts.set(levelId, Number(count));
+    }
+    return counts;
   }
 
-  // ============ Configuration (Owner Only) ============
+  // ============ Configuration ============
 
   /**
    * Configure amount range
+   * Returns the owner call's transaction hash, or the proposal's txHash when config governance is set
    */
   async configureAmountRange(
     minAmount: bigint,
@@ -612,32 +1249,147 @@ export class MultiLevelAccountSDK {
     levelIds: number[],
     quorums: number[],
     timelocks: number[]
+  ): Promise<string> {
+    return this._applyConfigChange("configureAmountRange", [
+      minAmount,
+      maxAmount,
+      levelIds.map(id => BigInt(id)),
+      quorums.map(q => BigInt(q)),
+      timelocks.map(t => BigInt(t))
+    ]);
+  }
+
+  /**
+   * Remove amount range at index
+   * Returns the owner call's transaction hash, or the proposal's txHash when config governance is set
+   */
+  async removeAmountRange(index: number): Promise<string> {
+    return this._applyConfigChange("removeAmountRange", [BigInt(index)]);
+  }
+
+  /**
+   * Register a Level contract; its levelId must equal the account's nextLevelId
+   * Returns the owner call's transaction hash, or the proposal's txHash when config governance is set
+   */
+  async addLevel(levelAddress: Address | string): Promise<string> {
+    return this._applyConfigChange("addLevel", [levelAddress as Address]);
+  }
+
+  /**
+   * Replace the Level contract for an existing level
+   * Returns the owner call's transaction hash, or the proposal's txHash when config governance is set
+   */
+  async updateLevel(levelId: number, newAddress: Address | string): Promise<string> {
+    return this._applyConfigChange("updateLevel", [BigInt(levelId), newAddress as Address]);
+  }
+
+  private async _applyConfigChange(
+    functionName: "configureAmountRange" | "removeAmountRange" | "addLevel" | "updateLevel",
+    args: readonly unknown[]
   ): Promise<string> {
     if (!this.walletClient) {
       throw new Error('WalletClient required');
     }
 
+    if (this.configGovernance) {
+      const data = encodeFunctionData({
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName,
+        args: args as any
+      });
+      const amount = this.configGovernance.routingAmount ??
+        this._getStrictestRoutingAmount(await this.getAmountRanges());
+      return await this.proposeTransaction(this.accountAddress, 0n, data, amount, this.configGovernance.bundlerUrl);
+    }
+
     const [account] = await this.walletClient.getAddresses();
     if (!account) {
       throw new Error("No account found in wallet client");
     }
 
-    const hash = await this.walletClient.writeContract({
-      address: this.accountAddress,
-      abi: MULTI_LEVEL_ACCOUNT_ABI,
-      functionName: "configureAmountRange",
-      args: [
-        minAmount,
-        maxAmount,
-        levelIds.map(id => BigInt(id)),
-        quorums.map(q => BigInt(q)),
-        timelocks.map(t => BigInt(t))
-      ],
-      account,
-      chain: undefined
-    });
+    try {
+      return await this.walletClient.writeContract({
+        address: this.accountAddress,
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName,
+        args: args as any,
+        account,
+        chain: undefined
+      });
+    } catch (error) {
+      throw decodeError(error);
+    }
+  }
+
+  /**
+   * Converge on-chain amount ranges to a YAML/JSON policy with the fewest
+   * configureAmountRange / removeAmountRange calls
+   * Steps run in order. Under config governance the whole plan is one batch
+   * proposal, since separate proposals could execute out of order and removal
+   * indices assume the earlier steps have run.
+   */
+  async applyPolicy(
+    policy: string | AmountPolicyInput,
+    options: ApplyPolicyOptions = {}
+  ): Promise<ApplyPolicyResult> {
+    const plan = diffPolicy(await this.getAmountRanges(), parsePolicy(policy));
+    const transactionHashes: string[] = [];
+    if (options.dryRun) {
+      return { plan, transactionHashes };
+    }
+
+    if (this.configGovernance && plan.steps.length > 0) {
+      const amount = this.configGovernance.routingAmount ??
+        this._getStrictestRoutingAmount(await this.getAmountRanges());
+      const calls = plan.steps.map((step, i) => ({
+        to: this.accountAddress,
+        value: 0n,
+        data: step.type === "configureAmountRange"
+          ? encodeFunctionData({
+            abi: MULTI_LEVEL_ACCOUNT_ABI,
+            functionName: "configureAmountRange",
+            args: [step.range.minAmount, step.range.maxAmount, step.range.levelIds, step.range.quorums, step.range.timelocks]
+          })
+          : encodeFunctionData({
+            abi: MULTI_LEVEL_ACCOUNT_ABI,
+            functionName: "removeAmountRange",
+            args: [BigInt(step.index)]
+          }),
+        // The batch is routed by the sum of its amounts
+        amount: i === 0 ? amount : 0n
+      }));
+      transactionHashes.push(await this.proposeBatch(calls, this.configGovernance.bundlerUrl));
+      return { plan, transactionHashes };
+    }
 
-    return hash;
+    for (const step of plan.steps) {
+      transactionHashes.push(step.type === "configureAmountRange"
+        ? await this.configureAmountRange(
+          step.range.minAmount,
+          step.range.maxAmount,
+          step.range.levelIds.map(Number),
+          step.range.quorums.map(Number),
+          step.range.timelocks.map(Number)
+        )
+        : await this.removeAmountRange(step.index));
+    }
+
+    return { plan, transactionHashes };
+  }
+
+  /**
+   * Validate amount ranges against this account's levels and signer counts
+   * Checks the on-chain ranges unless others are given (e.g. a parsed policy before applyPolicy).
+   */
+  async validateAmountPolicy(
+    ranges?: readonly AmountRange[],
+    options: Pick<PolicyValidationOptions, "highTierMinAmount"> = {}
+  ): Promise<PolicyReport> {
+    const [currentRanges, signerCounts] = await Promise.all([
+      ranges ? Promise.resolve([...ranges]) : this.getAmountRanges(),
+      this._getSignerCounts()
+    ]);
+    return validateAmountRanges(currentRanges, { ...options, signerCounts });
   }
 
   /**
@@ -663,20 +1415,43 @@ export class MultiLevelAccountSDK {
     });
   }
 
+  /**
+   * Get all amount ranges, decoded
+   */
+  async getAmountRanges(): Promise<AmountRange[]> {
+    const count = await this.getAmountRangeCount();
+    const ranges: AmountRange[] = [];
+    for (let i = 0; i < Number(count); i++) {
+      const range = await this.getAmountRange(i);
+      ranges.push({
+        minAmount: BigInt(range.minAmount),
+        maxAmount: BigInt(range.maxAmount),
+        levelIds: range.levelIds.map((id: bigint) => BigInt(id)),
+        quorums: range.quorums.map((q: bigint) => BigInt(q)),
+        timelocks: range.timelocks.map((t: bigint) => BigInt(t))
+      });
+    }
+    return ranges;
+  }
+
   /**
    * Get configuration for a specific amount
    */
   async getConfigForAmount(amount: bigint): Promise<any> {
-    return await this.publicClient.readContract({
-      address: this.accountAddress,
-      abi: MULTI_LEVEL_ACCOUNT_ABI,
-      functionName: "getConfigForAmount",
-      args: [amount]
-    });
+    try {
+      return await this.publicClient.readContract({
+        address: this.accountAddress,
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName: "getConfigForAmount",
+        args: [amount]
+      });
+    } catch (error) {
+      throw decodeError(error);
+    }
   }
 
   /**
-   * Get account diagnostics (balance, amount ranges, etc.)
+   * Get account diagnostics (balance, amount ranges, policy report)
    * Useful for debugging transaction proposal failures
    */
   async getAccountDiagnostics(): Promise<{
@@ -685,6 +1460,7 @@ export class MultiLevelAccountSDK {
     amountRangeCount: bigint;
     amountRanges: any[];
     owner: Address;
+    policyReport: PolicyReport;
   }> {
     // Force fresh balance check (no caching)
     const balance = await this.publicClient.getBalance({
@@ -717,7 +1493,8 @@ export class MultiLevelAccountSDK {
       balanceEth: (Number(balance) / 1e18).toFixed(6),
       amountRangeCount: rangeCount,
       amountRanges,
-      owner
+      owner,
+      policyReport: await this.validateAmountPolicy()
     };
   }
 }
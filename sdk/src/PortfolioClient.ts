@@ -0,0 +1,206 @@
+import type { AbiEvent, Address, PublicClient, WalletClient } from "viem";
+import { createPublicClient, getAbiItem, http } from "viem";
+import { MultiLevelAccountSDK } from "./MultiLevelAccountSDK";
+import { MultiLevelAccountFactoryClient } from "./MultiLevelAccountFactoryClient";
+import {
+  PortfolioAccount,
+  PortfolioAccountSummary,
+  PortfolioFilter,
+  PortfolioLevel,
+  PortfolioPendingTransaction,
+  PortfolioSummary
+} from "./types";
+import { LEVEL_ABI, MULTI_LEVEL_ACCOUNT_ABI, MULTI_LEVEL_ACCOUNT_FACTORY_ABI } from "./contracts/abis";
+import { CalldataDecoder } from "./decoding/CalldataDecoder";
+import { getLevelContracts } from "./utils/accountReads";
+
+/**
+ * Read-only view over every account deployed by a MultiLevelAccountFactory
+ * Accounts are discovered from AccountCreated logs; balances, ranges and
+ * pending transactions are read per account through MultiLevelAccountSDK.
+ */
+export class PortfolioClient {
+  private factoryAddress: Address;
+  private publicClient: PublicClient;
+  private factoryClient: MultiLevelAccountFactoryClient;
+  private decoder?: CalldataDecoder;
+
+  constructor(
+    factoryAddress: Address | string,
+    publicClientOrRpcUrl: PublicClient | string,
+    walletClient?: WalletClient,
+    bundlerUrl?: string
+  ) {
+    this.factoryAddress = factoryAddress as Address;
+
+    // Create PublicClient if RPC URL provided, otherwise use provided client
+    if (typeof publicClientOrRpcUrl === "string") {
+      this.publicClient = createPublicClient({
+        transport: http(publicClientOrRpcUrl)
+      });
+    } else {
+      this.publicClient = publicClientOrRpcUrl;
+    }
+
+    this.factoryClient = new MultiLevelAccountFactoryClient(
+      this.factoryAddress,
+      this.publicClient,
+      walletClient,
+      bundlerUrl
+    );
+  }
+
+  /**
+   * Set the decoder used for pending transaction summaries across all accounts
+   */
+  setCalldataDecoder(decoder: CalldataDecoder): void {
+    this.decoder = decoder;
+  }
+
+  /**
+   * Get an SDK instance for one of the portfolio's accounts
+   */
+  async getSDK(accountAddress: Address | string): Promise<MultiLevelAccountSDK> {
+    const sdk = await this.factoryClient.getSDK(accountAddress);
+    if (this.decoder) {
+      sdk.setCalldataDecoder(this.decoder);
+    }
+    return sdk;
+  }
+
+  /**
+   * Accounts created by the factory, in deployment order
+   */
+  async discoverAccounts(filter: PortfolioFilter = {}): Promise<PortfolioAccount[]> {
+    const logs = await this.publicClient.getLogs({
+      address: this.factoryAddress,
+      event: getAbiItem({ abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI, name: "AccountCreated" }) as AbiEvent,
+      fromBlock: filter.fromBlock ?? 0n,
+      toBlock: filter.toBlock
+    });
+
+    const accounts: PortfolioAccount[] = [];
+    for (const log of logs) {
+      const { account, levelIds } = log.args as { account: Address; levelIds: bigint[] };
+      const owner = await this.publicClient.readContract({
+        address: account,
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName: "owner"
+      }) as Address;
+
+      if (filter.owner && owner.toLowerCase() !== filter.owner.toLowerCase()) {
+        continue;
+      }
+      if (filter.signer && (await this._getSignerLevels(account, filter.signer)).length === 0) {
+        continue;
+      }
+
+      accounts.push({
+        accountAddress: account,
+        owner,
+        levelIds: [...levelIds],
+        transactionHash: log.transactionHash as string,
+        blockNumber: log.blockNumber ?? 0n
+      });
+    }
+    return accounts;
+  }
+
+  /**
+   * Balance, amount ranges, signers and pending transactions per level of one account
+   */
+  async getAccountSummary(accountAddress: Address | string): Promise<PortfolioAccountSummary> {
+    const sdk = await this.getSDK(accountAddress);
+    const [balance, owner, amountRanges, levelContracts] = await Promise.all([
+      this.publicClient.getBalance({ address: accountAddress as Address }),
+      this.publicClient.readContract({
+        address: accountAddress as Address,
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName: "owner"
+      }) as Promise<Address>,
+      sdk.getAmountRanges(),
+      getLevelContracts(this.publicClient, accountAddress as Address)
+    ]);
+
+    const levels: PortfolioLevel[] = [];
+    for (const [levelAddress, levelId] of levelContracts) {
+      const signers = await this.publicClient.readContract({
+        address: levelAddress as Address,
+        abi: LEVEL_ABI,
+        functionName: "getSigners"
+      }) as readonly Address[];
+
+      levels.push({
+        levelId,
+        levelAddress,
+        signers: [...signers],
+        pending: await sdk.getSignerInterface(levelId).getPendingTransactions()
+      });
+    }
+
+    return { accountAddress, owner, balance, amountRanges, levels };
+  }
+
+  /**
+   * Summaries of every matching account, with the total balance and pending count
+   */
+  async getSummary(filter: PortfolioFilter = {}): Promise<PortfolioSummary> {
+    const accounts: PortfolioAccountSummary[] = [];
+    for (const account of await this.discoverAccounts(filter)) {
+      accounts.push(await this.getAccountSummary(account.accountAddress));
+    }
+
+    return {
+      accounts,
+      totalBalance: accounts.reduce((sum, account) => sum + account.balance, 0n),
+      pendingCount: accounts.reduce(
+        (count, account) => count + account.levels.reduce((n, level) => n + level.pending.length, 0),
+        0
+      )
+    };
+  }
+
+  /**
+   * Transactions waiting on a signer's signature across all matching accounts
+   * Excludes transactions the signer already signed or denied and those whose
+   * level quorum is met and only the timelock remains.
+   */
+  async getPendingForSigner(
+    signer: Address | string,
+    filter: PortfolioFilter = {}
+  ): Promise<PortfolioPendingTransaction[]> {
+    const waiting: PortfolioPendingTransaction[] = [];
+
+    for (const account of await this.discoverAccounts(filter)) {
+      const sdk = await this.getSDK(account.accountAddress);
+
+      for (const [, levelId] of await this._getSignerLevels(account.accountAddress, signer)) {
+        const pending = await sdk.getSignerInterface(levelId).getPendingTransactions({ signer, onlyActionable: true });
+        waiting.push(...pending.map((tx) => ({ ...tx, accountAddress: account.accountAddress, levelId })));
+      }
+    }
+    return waiting;
+  }
+
+  /**
+   * Levels of an account where the address is currently a signer
+   */
+  private async _getSignerLevels(
+    accountAddress: Address | string,
+    signer: Address | string
+  ): Promise<[Address, number][]> {
+    const levels: [Address, number][] = [];
+    for (const [levelAddress, levelId] of await getLevelContracts(this.publicClient, accountAddress as Address)) {
+      const isSigner = await this.publicClient.readContract({
+        address: levelAddress as Address,
+        abi: LEVEL_ABI,
+        functionName: "isSigner",
+        args: [signer as Address]
+      }) as boolean;
+      if (isSigner) {
+        levels.push([levelAddress as Address, levelId]);
+      }
+    }
+    return levels;
+  }
+}
@@ -0,0 +1,172 @@
+import type { AbiEvent, Address, PublicClient, WalletClient } from "viem";
+import { getAbiItem, getAddress } from "viem";
+import { SignerInterface } from "./SignerInterface";
+import { InboxTransaction, PendingTransactionOptions, SignerInboxOptions, SignerLevel } from "./types";
+import { LEVEL_ABI, MULTI_LEVEL_ACCOUNT_ABI } from "./contracts/abis";
+import { CalldataDecoder } from "./decoding/CalldataDecoder";
+
+/**
+ * Everything awaiting one signer, across all levels and accounts
+ * Levels are found from SignerAdded/SignerRemoved logs filtered by the signer.
+ * Level constructors emit SignerAdded for the signers in the factory's
+ * LevelCreated event, so levels created with the signer are included.
+ */
+export class SignerInbox {
+  private signer: Address;
+  private publicClient: PublicClient;
+  private walletClient?: WalletClient;
+  private options: SignerInboxOptions;
+  private decoder = new CalldataDecoder();
+
+  /**
+   * @param walletClient Used by the signer interfaces from getSignerInterface
+   */
+  constructor(
+    signer: Address | string,
+    publicClient: PublicClient,
+    walletClient?: WalletClient,
+    options: SignerInboxOptions = {}
+  ) {
+    this.signer = getAddress(signer);
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.options = options;
+  }
+
+  /**
+   * Set the decoder used for transaction summaries
+   */
+  setCalldataDecoder(decoder: CalldataDecoder): void {
+    this.decoder = decoder;
+  }
+
+  /**
+   * Levels where the address is currently a signer, sorted by account and level
+   * Each candidate from the logs is checked on-chain: isSigner must be true and
+   * the account must still use the Level contract, which also drops logs from
+   * contracts that merely emit a SignerAdded event.
+   */
+  async getLevels(): Promise<SignerLevel[]> {
+    const [added, removed] = await Promise.all(["SignerAdded", "SignerRemoved"].map((name) =>
+      this.publicClient.getLogs({
+        event: getAbiItem({ abi: LEVEL_ABI, name }) as AbiEvent,
+        args: { signer: this.signer },
+        fromBlock: this.options.fromBlock ?? 0n
+      })
+    ));
+
+    // Replay in chain order; the last event per level decides membership
+    const events = [
+      ...added.map((log) => ({ log, isAdded: true })),
+      ...removed.map((log) => ({ log, isAdded: false }))
+    ].sort((a, b) =>
+      a.log.blockNumber === b.log.blockNumber
+        ? (a.log.logIndex ?? 0) - (b.log.logIndex ?? 0)
+        : (a.log.blockNumber ?? 0n) < (b.log.blockNumber ?? 0n) ? -1 : 1
+    );
+    const candidates = new Set<string>();
+    for (const { log, isAdded } of events) {
+      if (isAdded) {
+        candidates.add(log.address.toLowerCase());
+      } else {
+        candidates.delete(log.address.toLowerCase());
+      }
+    }
+
+    const accounts = this.options.accounts?.map((account) => account.toLowerCase());
+    const levels: SignerLevel[] = [];
+    for (const candidate of candidates) {
+      const level = await this._readLevel(candidate as Address);
+      if (!level || (accounts && !accounts.includes(level.accountAddress.toLowerCase()))) {
+        continue;
+      }
+      levels.push(level);
+    }
+
+    return levels.sort((a, b) =>
+      a.accountAddress === b.accountAddress
+        ? a.levelId - b.levelId
+        : a.accountAddress.toLowerCase() < b.accountAddress.toLowerCase() ? -1 : 1
+    );
+  }
+
+  /**
+   * Transactions awaiting the signer's signature, oldest first
+   * Excludes transactions the signer already signed or denied and those whose
+   * level quorum is met and only the timelock remains.
+   */
+  async getTransactions(options: Pick<PendingTransactionOptions, "simulate"> = {}): Promise<InboxTransaction[]> {
+    const transactions: InboxTransaction[] = [];
+    for (const level of await this.getLevels()) {
+      const pending = await this.getSignerInterface(level).getPendingTransactions({
+        ...options,
+        signer: this.signer,
+        onlyActionable: true
+      });
+      transactions.push(...pending.map((tx) => ({ ...tx, ...level })));
+    }
+
+    return transactions.sort((a, b) =>
+      a.submittedAtBlock === b.submittedAtBlock ? 0 : a.submittedAtBlock < b.submittedAtBlock ? -1 : 1
+    );
+  }
+
+  /**
+   * Signer interface for acting on one of the inbox's levels
+   */
+  getSignerInterface(level: SignerLevel): SignerInterface {
+    const signerInterface = new SignerInterface(
+      level.accountAddress,
+      level.levelId,
+      this.publicClient,
+      this.walletClient
+    );
+    signerInterface.setCalldataDecoder(this.decoder);
+    return signerInterface;
+  }
+
+  /**
+   * Account and level ID of a candidate Level; null unless the signer is
+   * current and the account's levelContracts still points at the contract
+   */
+  private async _readLevel(levelAddress: Address): Promise<SignerLevel | null> {
+    try {
+      const [accountAddress, levelId, isSigner] = await Promise.all([
+        this.publicClient.readContract({
+          address: levelAddress,
+          abi: LEVEL_ABI,
+          functionName: "multiLevelAccount"
+        }) as Promise<Address>,
+        this.publicClient.readContract({
+          address: levelAddress,
+          abi: LEVEL_ABI,
+          functionName: "levelId"
+        }) as Promise<bigint>,
+        this.publicClient.readContract({
+          address: levelAddress,
+          abi: LEVEL_ABI,
+          functionName: "isSigner",
+          args: [this.signer]
+        }) as Promise<boolean>
+      ]);
+      if (!isSigner) {
+        return null;
+      }
+
+      const registered = await this.publicClient.readContract({
+        address: accountAddress,
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName: "levelContracts",
+        args: [levelId]
+      }) as Address;
+      if (registered.toLowerCase() !== levelAddress.toLowerCase()) {
+        return null;
+      }
+
+      return { accountAddress, levelId: Number(levelId), levelAddress: getAddress(levelAddress) };
+    } catch {
+      // Not a Level contract
+      return null;
+    }
+  }
+}
@@ -1,7 +1,21 @@
-import type { Address, Hex, PublicClient, WalletClient } from "viem";
-import { decodeEventLog, encodeFunctionData } from "viem";
-import { PendingTransaction, ApprovalState } from "./types";
+import type { AbiEvent, Address, Hex, PublicClient, WalletClient } from "viem";
+import { decodeEventLog, encodeFunctionData, getAbiItem, getAddress } from "viem";
+import {
+  PendingTransaction,
+  PendingTransactionOptions,
+  ApprovalState,
+  ProposalSimulation,
+  SimulationOptions,
+  LevelApproval,
+  SignedLevelApproval
+} from "./types";
 import { LEVEL_ABI, MULTI_LEVEL_ACCOUNT_ABI } from "./contracts/abis";
+import { LevelContractError, decodeError } from "./errors";
+import type { EventIndexer } from "./indexer/EventIndexer";
+import { supportsSubscriptions } from "./utils/accountReads";
+import { simulateCall, simulateStoredTransaction } from "./utils/simulation";
+import { CalldataDecoder } from "./decoding/CalldataDecoder";
+import { encodeLevelApprovals, getLevelApprovalTypedData, verifyLevelApproval } from "./utils/levelApprovals";
 
 /**
  * Privacy-preserving interface for signers
@@ -13,17 +27,32 @@ export class SignerInterface {
   private levelId: number;
   private publicClient: PublicClient;
   private walletClient?: WalletClient;
+  private indexer?: EventIndexer;
+  private decoder = new CalldataDecoder();
   
+  /**
+   * @param indexer Optional event index; when set, logs are read from it instead of eth_getLogs
+   */
   constructor(
     accountAddress: Address | string,
     levelId: number,
     publicClient: PublicClient,
-    walletClient?: WalletClient
+    walletClient?: WalletClient,
+    indexer?: EventIndexer
   ) {
     this.accountAddress = accountAddress as Address;
     this.levelId = levelId;
     this.publicClient = publicClient;
     this.walletClient = walletClient;
+    this.indexer = indexer;
+  }
+  
+  /**
+   * Set the decoder used for pending transaction summaries
+   * Register token labels and ABIs on it to describe calls to your contracts.
+   */
+  setCalldataDecoder(decoder: CalldataDecoder): void {
+    this.decoder = decoder;
   }
   
   async initialize(): Promise<void> {
@@ -39,37 +68,30 @@ export class SignerInterface {
   
   /**
    * Get pending transactions at this level
+   * needsMyAction is computed for options.signer, or the wallet client's account.
+   * With { simulate: true }, each entry carries the simulated result of its call.
    */
-  async getPendingTransactions(): Promise<PendingTransaction[]> {
+  async getPendingTransactions(options: PendingTransactionOptions = {}): Promise<PendingTransaction[]> {
     if (!this.levelAddress) await this.initialize();
     if (!this.levelAddress) throw new Error("Level not initialized");
     
-    // Query TransactionSubmitted events
-    const logs = await this.publicClient.getLogs({
-      address: this.levelAddress,
-      event: {
-        type: "event",
-        name: "TransactionSubmitted",
-        inputs: [
-          { name: "txHash", type: "bytes32", indexed: true },
-          { name: "requiredQuorum", type: "uint256", indexed: false },
-          { name: "timelockDuration", type: "uint256", indexed: false }
-        ]
-      },
-      fromBlock: 0n
-    });
+    const me = (options.signer ?? (this.walletClient ? (await this.walletClient.getAddresses())[0] : undefined))
+      ?.toLowerCase() as Address | undefined;
+    const [isSigner, signatures] = await Promise.all([
+      me
+        ? this.publicClient.readContract({
+          address: this.levelAddress,
+          abi: LEVEL_ABI,
+          functionName: "isSigner",
+          args: [me]
+        }) as Promise<boolean>
+        : Promise.resolve(false),
+      this._getSignatures()
+    ]);
     
     const pending: PendingTransaction[] = [];
     
-    for (const log of logs) {
-      const decoded = decodeEventLog({
-        abi: LEVEL_ABI,
-        data: log.data,
-        topics: log.topics
-      });
-      
-      const txHash = (decoded.args as any).txHash as Hex;
-      
+    for (const { txHash, blockNumber } of await this._getSubmissions()) {
       // Get approval state
       const stateResult = await this.publicClient.readContract({
         address: this.levelAddress!,
@@ -132,6 +154,21 @@ export class SignerInterface {
         const collected = progress?.current ?? progress?.[0] ?? 0n;
         const required = progress?.required ?? progress?.[1] ?? 0n;
         
+        const signedBy = signatures.get(txHash.toLowerCase()) ?? [];
+        const awaitingTimelock = BigInt(collected) >= BigInt(required);
+        const needsMyAction = isSigner && !awaitingTimelock &&
+          !signedBy.some((signer) => signer.toLowerCase() === me);
+        if ((options.onlyActionable && !needsMyAction) || (options.includeTimelocked === false && awaitingTimelock)) {
+          continue;
+        }
+        
+        const { decoded, summary } = this.decoder.describe(
+          txData.to,
+          BigInt(txData.value ?? 0),
+          txData.data,
+          this.accountAddress
+        );
+        
         pending.push({
           txHash: txHash as string,
           to: txData.to as string,
@@ -140,7 +177,22 @@ export class SignerInterface {
           amount: BigInt(txData.amount ?? 0),
           signaturesCollected: Number(collected),
           signaturesRequired: Number(required),
-          timelockRemaining: Number(remaining)
+          timelockRemaining: Number(remaining),
+          submittedAtBlock: blockNumber,
+          signedBy,
+          needsMyAction,
+          awaitingTimelock,
+          decoded,
+          summary,
+          ...(options.simulate && {
+            simulation: await simulateCall(
+              this.publicClient,
+              this.accountAddress,
+              txData.to,
+              BigInt(txData.value ?? 0),
+              txData.data
+            )
+          })
         });
       }
     }
@@ -148,6 +200,13 @@ export class SignerInterface {
     return pending;
   }
   
+  /**
+   * Simulate what a pending transaction will do when executed
+   */
+  async simulateTransaction(txHash: Hex | string, options: SimulationOptions = {}): Promise<ProposalSimulation> {
+    return await simulateStoredTransaction(this.publicClient, this.accountAddress, txHash as Hex, options);
+  }
+  
   /**
    * Sign (approve) transaction
    */
@@ -178,22 +237,126 @@ export class SignerInterface {
       const BLOCK_GAS_LIMIT = 16000000n; // Leave some margin
       gasLimit = estimatedGas > BLOCK_GAS_LIMIT ? BLOCK_GAS_LIMIT : estimatedGas;
     } catch (error) {
-      // If estimation fails, use a reasonable default
+      // A Level revert (e.g. AlreadySigned) would also fail on-chain
+      const decoded = decodeError(error);
+      if (decoded instanceof LevelContractError) throw decoded;
+      // If estimation fails otherwise, use a reasonable default
       console.warn("Gas estimation failed, using default:", error);
       gasLimit = 500000n; // Default gas limit for simple operations
     }
     
-    const hash = await this.walletClient.writeContract({
-      address: this.levelAddress,
-      abi: LEVEL_ABI,
-      functionName: "sign",
-      args: [txHash as Hex],
+    try {
+      return await this.walletClient.writeContract({
+        address: this.levelAddress,
+        abi: LEVEL_ABI,
+        functionName: "sign",
+        args: [txHash as Hex],
+        account,
+        gas: gasLimit,
+        chain: undefined
+      });
+    } catch (error) {
+      throw decodeError(error);
+    }
+  }
+  
+  /**
+   * Approve a transaction off-chain with an EIP-712 signature
+   * Costs no gas; hand the result to a relayer, which calls submitApprovals.
+   */
+  async signApproval(txHash: Hex | string): Promise<SignedLevelApproval> {
+    if (!this.walletClient) throw new Error('WalletClient required');
+    if (!this.levelAddress) await this.initialize();
+    if (!this.levelAddress) throw new Error("Level not initialized");
+    
+    const [account] = await this.walletClient.getAddresses();
+    if (!account) {
+      throw new Error("No account found in wallet client");
+    }
+    
+    const approval: LevelApproval = {
+      account: this.accountAddress,
+      levelId: BigInt(this.levelId),
+      txHash,
+      chainId: BigInt(await this.publicClient.getChainId())
+    };
+    const signature = await this.walletClient.signTypedData({
       account,
-      gas: gasLimit,
-      chain: undefined
+      ...getLevelApprovalTypedData(this.levelAddress, approval)
     });
     
-    return hash;
+    return { ...approval, levelAddress: this.levelAddress, signer: account, signature };
+  }
+  
+  /**
+   * Apply co-signers' off-chain approvals in one transaction
+   * The wallet only relays and pays gas; it need not be a signer. Throws if an
+   * approval is for another transaction, level or chain, has a bad signature or
+   * comes from a non-signer. Duplicates and approvals from signers who have
+   * already signed are dropped.
+   */
+  async submitApprovals(txHash: Hex | string, approvals: readonly SignedLevelApproval[]): Promise<string> {
+    if (!this.walletClient) throw new Error('WalletClient required');
+    if (!this.levelAddress) await this.initialize();
+    if (!this.levelAddress) throw new Error("Level not initialized");
+    
+    const [account] = await this.walletClient.getAddresses();
+    if (!account) {
+      throw new Error("No account found in wallet client");
+    }
+    
+    const chainId = BigInt(await this.publicClient.getChainId());
+    const unsigned = new Map<string, SignedLevelApproval>();
+    for (const approval of approvals) {
+      const matches = approval.levelAddress.toLowerCase() === this.levelAddress.toLowerCase() &&
+        approval.account.toLowerCase() === this.accountAddress.toLowerCase() &&
+        BigInt(approval.levelId) === BigInt(this.levelId) &&
+        approval.txHash.toLowerCase() === txHash.toLowerCase() &&
+        BigInt(approval.chainId) === chainId;
+      if (!matches) {
+        throw new Error(`Approval from ${approval.signer} is for a different transaction, level or chain`);
+      }
+      if (!(await verifyLevelApproval(approval))) {
+        throw new Error(`Approval signature does not match signer ${approval.signer}`);
+      }
+      
+      const [isSigner, signed] = await Promise.all([
+        this.publicClient.readContract({
+          address: this.levelAddress,
+          abi: LEVEL_ABI,
+          functionName: "isSigner",
+          args: [approval.signer as Address]
+        }) as Promise<boolean>,
+        this.publicClient.readContract({
+          address: this.levelAddress,
+          abi: LEVEL_ABI,
+          functionName: "hasSigned",
+          args: [txHash as Hex, approval.signer as Address]
+        }) as Promise<boolean>
+      ]);
+      if (!isSigner) {
+        throw new Error(`${approval.signer} is not a signer at level ${this.levelId}`);
+      }
+      if (!signed) {
+        unsigned.set(approval.signer.toLowerCase(), approval);
+      }
+    }
+    if (unsigned.size === 0) {
+      throw new Error("No approvals to submit: every approver has already signed");
+    }
+    
+    try {
+      return await this.walletClient.writeContract({
+        address: this.levelAddress,
+        abi: LEVEL_ABI,
+        functionName: "signWithApprovals",
+        args: [txHash as Hex, encodeLevelApprovals([...unsigned.values()])],
+        account,
+        chain: undefined
+      });
+    } catch (error) {
+      throw decodeError(error);
+    }
   }
   
   /**
@@ -226,22 +389,27 @@ export class SignerInterface {
       const BLOCK_GAS_LIMIT = 16000000n; // Leave some margin
       gasLimit = estimatedGas > BLOCK_GAS_LIMIT ? BLOCK_GAS_LIMIT : estimatedGas;
     } catch (error) {
-      // If estimation fails, use a reasonable default
+      // A Level revert (e.g. AlreadySigned) would also fail on-chain
+      const decoded = decodeError(error);
+      if (decoded instanceof LevelContractError) throw decoded;
+      // If estimation fails otherwise, use a reasonable default
       console.warn("Gas estimation failed, using default:", error);
       gasLimit = 500000n; // Default gas limit for simple operations
     }
     
-    const hash = await this.walletClient.writeContract({
-      address: this.levelAddress,
-      abi: LEVEL_ABI,
-      functionName: "deny",
-      args: [txHash as Hex],
-      account,
-      gas: gasLimit,
-      chain: undefined
-    });
-    
-    return hash;
+    try {
+      return await this.walletClient.writeContract({
+        address: this.levelAddress,
+        abi: LEVEL_ABI,
+        functionName: "deny",
+        args: [txHash as Hex],
+        account,
+        gas: gasLimit,
+        chain: undefined
+      });
+    } catch (error) {
+      throw decodeError(error);
+    }
   }
   
   /**
@@ -272,21 +440,27 @@ export class SignerInterface {
           const BLOCK_GAS_LIMIT = 16000000n; // Leave some margin
           gasLimit = estimatedGas > BLOCK_GAS_LIMIT ? BLOCK_GAS_LIMIT : estimatedGas;
         } catch (error) {
-          // If estimation fails, use a reasonable default
+          // A Level revert (e.g. AlreadySigned) would also fail on-chain
+          const decoded = decodeError(error);
+          if (decoded instanceof LevelContractError) throw decoded;
+          // If estimation fails otherwise, use a reasonable default
           console.warn("Gas estimation failed, using default:", error);
           gasLimit = 500000n; // Default gas limit for simple operations
         }
         
-        const hash = await this.walletClient.writeContract({
-          address: this.levelAddress,
-          abi: LEVEL_ABI,
-          functionName: "completeTimelock",
-          args: [txHash as Hex],
-          account,
-          gas: gasLimit,
-          chain: undefined
-        });
-        return hash;
+        try {
+          return await this.walletClient.writeContract({
+            address: this.levelAddress,
+            abi: LEVEL_ABI,
+            functionName: "completeTimelock",
+            args: [txHash as Hex],
+            account,
+            gas: gasLimit,
+            chain: undefined
+          });
+        } catch (error) {
+          throw decodeError(error);
+        }
       }
     }
     
@@ -346,14 +520,23 @@ export class SignerInterface {
   
   /**
    * Subscribe to new transactions
-   * Note: viem doesn't have the same event subscription model as ethers
-   * This uses polling instead
+   * Uses eth_subscribe when the transport supports it, otherwise polls every 5 seconds
    */
   onNewTransaction(
     callback: (txHash: string) => void
   ): () => void {
     if (!this.levelAddress) throw new Error('Must initialize first');
     
+    if (supportsSubscriptions(this.publicClient)) {
+      return this.publicClient.watchContractEvent({
+        address: this.levelAddress,
+        abi: LEVEL_ABI,
+        eventName: "TransactionSubmitted",
+        onLogs: (logs) => logs.forEach((log) => callback((log as any).args.txHash as string)),
+        onError: (error) => console.error("Error watching for new transactions:", error)
+      });
+    }
+    
     let lastBlockNumber: bigint | null = null;
     let intervalId: NodeJS.Timeout;
     
@@ -364,31 +547,12 @@ export class SignerInterface {
           ? lastBlockNumber + 1n
           : (currentBlock > 100n ? currentBlock - 100n : 0n);
         
-        const logs = await this.publicClient.getLogs({
-          address: this.levelAddress!,
-          event: {
-            type: "event",
-            name: "TransactionSubmitted",
-            inputs: [
-              { name: "txHash", type: "bytes32", indexed: true },
-              { name: "requiredQuorum", type: "uint256", indexed: false },
-              { name: "timelockDuration", type: "uint256", indexed: false }
-            ]
-          },
-          fromBlock,
-          toBlock: currentBlock
-        });
-        
-        for (const log of logs) {
-          const decoded = decodeEventLog({
-            abi: LEVEL_ABI,
-            data: log.data,
-            topics: log.topics
-          });
-          callback((decoded.args as any).txHash as string);
+        const toBlock = this.indexer ? await this.indexer.sync() : currentBlock;
+        for (const { txHash } of await this._getSubmissions(fromBlock, toBlock)) {
+          callback(txHash);
         }
         
-        lastBlockNumber = currentBlock;
+        lastBlockNumber = toBlock;
       } catch (error) {
         console.error("Error polling for new transactions:", error);
       }
@@ -403,4 +567,71 @@ export class SignerInterface {
       clearInterval(intervalId);
     };
   }
+
+  /**
+   * Signers of each transaction at this level, in signing order, from Signed events
+   * Keyed by lowercase txHash.
+   */
+  private async _getSignatures(): Promise<Map<string, string[]>> {
+    let logs: { args: Record<string, unknown> }[];
+    if (this.indexer) {
+      logs = await this.indexer.getLogs({ address: this.levelAddress!, eventName: "Signed" });
+    } else {
+      logs = await this.publicClient.getLogs({
+        address: this.levelAddress!,
+        event: getAbiItem({ abi: LEVEL_ABI, name: "Signed" }) as AbiEvent,
+        fromBlock: 0n
+      }) as { args: Record<string, unknown> }[];
+    }
+    
+    const signatures = new Map<string, string[]>();
+    for (const { args } of logs) {
+      const txHash = (args.txHash as string).toLowerCase();
+      signatures.set(txHash, [...(signatures.get(txHash) ?? []), getAddress(args.signer as string)]);
+    }
+    return signatures;
+  }
+  
+  /**
+   * All transactions submitted to this level, from TransactionSubmitted events
+   */
+  private async _getSubmissions(
+    fromBlock: bigint = 0n,
+    toBlock?: bigint
+  ): Promise<{ txHash: Hex; blockNumber: bigint }[]> {
+    if (this.indexer) {
+      const logs = await this.indexer.getLogs({
+        address: this.levelAddress!,
+        eventName: "TransactionSubmitted",
+        fromBlock,
+        toBlock
+      });
+      return logs.map((log) => ({ txHash: log.args.txHash as Hex, blockNumber: log.blockNumber }));
+    }
+    
+    // Query TransactionSubmitted events
+    const logs = await this.publicClient.getLogs({
+      address: this.levelAddress!,
+      event: {
+        type: "event",
+        name: "TransactionSubmitted",
+        inputs: [
+          { name: "txHash", type: "bytes32", indexed: true },
+          { name: "requiredQuorum", type: "uint256", indexed: false },
+          { name: "timelockDuration", type: "uint256", indexed: false }
+        ]
+      },
+      fromBlock,
+      toBlock
+    });
+    
+    return logs.map((log) => {
+      const decoded = decodeEventLog({
+        abi: LEVEL_ABI,
+        data: log.data,
+        topics: log.topics
+      });
+      return { txHash: (decoded.args as any).txHash as Hex, blockNumber: log.blockNumber ?? 0n };
+    });
+  }
 }
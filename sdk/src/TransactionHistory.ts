@@ -0,0 +1,296 @@
+import type { AbiEvent, Address, Hex, PublicClient } from "viem";
+import {
+  HistoryEvent,
+  TransactionHistoryEntry,
+  TransactionHistoryPage,
+  TransactionHistoryQuery
+} from "./types";
+import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI } from "./contracts/abis";
+import type { EventIndexer } from "./indexer/EventIndexer";
+import { getLevelContracts } from "./utils/accountReads";
+
+const DEFAULT_CHUNK_SIZE = 5_000n;
+const DEFAULT_PAGE_SIZE = 20;
+
+const ACCOUNT_EVENTS = [
+  "TransactionProposed",
+  "LevelCompleted",
+  "ReadyForExecution",
+  "TransactionExecuted",
+  "TransactionDenied"
+];
+const LEVEL_EVENTS = ["Signed", "QuorumReached", "Denied"];
+
+const HISTORY_EVENTS = [
+  ...MULTI_LEVEL_ACCOUNT_ABI.filter((e) => e.type === "event" && ACCOUNT_EVENTS.includes((e as AbiEvent).name)),
+  ...LEVEL_ABI.filter((e) => e.type === "event" && LEVEL_EVENTS.includes((e as AbiEvent).name))
+] as AbiEvent[];
+
+export interface TransactionHistoryOptions {
+  /** Block to start scanning from, ideally the account's deployment block (default 0) */
+  fromBlock?: bigint;
+  /** Maximum block range per eth_getLogs request (default 5,000) */
+  chunkSize?: bigint;
+  /** Read logs from an event index instead of scanning with eth_getLogs */
+  indexer?: EventIndexer;
+}
+
+interface HistoryLog {
+  address: Address;
+  eventName: string;
+  args: any;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hex;
+}
+
+/**
+ * Transaction history rebuilt from MultiLevelAccount and Level logs
+ * Covers every proposal in the scanned range, including executed and denied ones
+ */
+export class TransactionHistory {
+  private accountAddress: Address;
+  private publicClient: PublicClient;
+  private fromBlock: bigint;
+  private chunkSize: bigint;
+  private indexer?: EventIndexer;
+
+  constructor(
+    accountAddress: Address | string,
+    publicClient: PublicClient,
+    options: TransactionHistoryOptions = {}
+  ) {
+    this.accountAddress = accountAddress as Address;
+    this.publicClient = publicClient;
+    this.fromBlock = options.fromBlock ?? 0n;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.indexer = options.indexer;
+    if (this.chunkSize <= 0n) {
+      throw new Error("chunkSize must be positive");
+    }
+  }
+
+  /**
+   * Get a page of transactions, newest first by default
+   */
+  async getTransactions(query: TransactionHistoryQuery = {}): Promise<TransactionHistoryPage> {
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const outcomes = query.outcome === undefined
+      ? undefined
+      : Array.isArray(query.outcome) ? query.outcome : [query.outcome];
+
+    let entries = await this.getAllTransactions(query.fromBlock, query.toBlock);
+    if (outcomes) {
+      entries = entries.filter((entry) => outcomes.includes(entry.outcome));
+    }
+    if ((query.order ?? "desc") === "desc") {
+      entries.reverse();
+    }
+
+    return {
+      entries: entries.slice(offset, offset + limit),
+      total: entries.length,
+      offset,
+      limit,
+      hasMore: offset + limit < entries.length
+    };
+  }
+
+  /**
+   * Get the lifecycle of a single transaction, or null if it was not proposed in range
+   */
+  async getTransaction(
+    txHash: Hex | string,
+    fromBlock?: bigint,
+    toBlock?: bigint
+  ): Promise<TransactionHistoryEntry | null> {
+    const entries = await this.getAllTransactions(fromBlock, toBlock);
+    return entries.find((entry) => entry.txHash.toLowerCase() === txHash.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Get all transactions proposed in the block range, oldest first
+   * Events for proposals made before fromBlock are ignored.
+   */
+  async getAllTransactions(fromBlock?: bigint, toBlock?: bigint): Promise<TransactionHistoryEntry[]> {
+    const start = fromBlock ?? this.fromBlock;
+    const levelIdsByAddress = await getLevelContracts(this.publicClient, this.accountAddress);
+
+    if (this.indexer) {
+      const indexed = await this.indexer.getLogs({
+        eventName: [...ACCOUNT_EVENTS, ...LEVEL_EVENTS],
+        fromBlock: start,
+        toBlock
+      });
+      return this._buildEntries(indexed.map((log) => ({
+        address: log.address as Address,
+        eventName: log.eventName,
+        args: log.args,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash as Hex
+      })), levelIdsByAddress);
+    }
+
+    const end = toBlock ?? await this.publicClient.getBlockNumber({ cacheTime: 0 });
+    const logs = await this._getLogsChunked(
+      [this.accountAddress, ...levelIdsByAddress.keys()] as Address[],
+      start,
+      end
+    );
+
+    return this._buildEntries(logs, levelIdsByAddress);
+  }
+
+  private _buildEntries(
+    logs: HistoryLog[],
+    levelIdsByAddress: Map<string, number>
+  ): TransactionHistoryEntry[] {
+    const entries = new Map<string, TransactionHistoryEntry>();
+
+    for (const log of logs) {
+      const args = log.args;
+      const key = (args.txHash as string).toLowerCase();
+      const isAccountLog = log.address.toLowerCase() === this.accountAddress.toLowerCase();
+      const event: HistoryEvent = {
+        type: "proposed",
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash
+      };
+
+      if (isAccountLog && log.eventName === "TransactionProposed") {
+        const levelIds = (args.levelIds ?? []) as bigint[];
+        const quorums = (args.quorums ?? []) as bigint[];
+        entries.set(key, {
+          txHash: args.txHash,
+          to: args.to,
+          value: BigInt(args.value ?? 0),
+          amount: BigInt(args.amount ?? 0),
+          outcome: "pending",
+          proposedAtBlock: log.blockNumber,
+          levels: levelIds.map((id, i) => ({
+            levelId: Number(id),
+            requiredQuorum: Number(quorums[i] ?? 0n),
+            signers: [],
+            quorumReached: false,
+            completed: false
+          })),
+          events: [event]
+        });
+        continue;
+      }
+
+      const entry = entries.get(key);
+      if (!entry) {
+        continue;
+      }
+
+      if (isAccountLog) {
+        switch (log.eventName) {
+          case "LevelCompleted": {
+            event.type = "levelCompleted";
+            event.levelId = Number(args.levelId);
+            const level = entry.levels.find((l) => l.levelId === event.levelId);
+            if (level) level.completed = true;
+            break;
+          }
+          case "ReadyForExecution":
+            event.type = "readyForExecution";
+            entry.outcome = "readyForExecution";
+            break;
+          case "TransactionExecuted":
+            event.type = "executed";
+            entry.outcome = "executed";
+            entry.finalizedAtBlock = log.blockNumber;
+            break;
+          case "TransactionDenied":
+            event.type = "denied";
+            event.levelId = Number(args.levelId);
+            event.actor = args.denier;
+            entry.outcome = "denied";
+            entry.finalizedAtBlock = log.blockNumber;
+            break;
+          default:
+            continue;
+        }
+      } else {
+        const levelId = levelIdsByAddress.get(log.address.toLowerCase());
+        const level = entry.levels.find((l) => l.levelId === levelId);
+        if (levelId === undefined || !level) {
+          continue;
+        }
+        event.levelId = levelId;
+
+        switch (log.eventName) {
+          case "Signed":
+            event.type = "signed";
+            event.actor = args.signer;
+            event.signatureCount = Number(args.signatureCount);
+            event.requiredQuorum = Number(args.requiredQuorum);
+            level.signers.push(args.signer);
+            break;
+          case "QuorumReached":
+            event.type = "quorumReached";
+            event.timelockEnd = BigInt(args.timelockEnd);
+            level.quorumReached = true;
+            level.timelockEnd = event.timelockEnd;
+            break;
+          case "Denied":
+            event.type = "levelDenied";
+            event.actor = args.denier;
+            level.deniedBy = args.denier;
+            break;
+          default:
+            continue;
+        }
+      }
+
+      entry.events.push(event);
+    }
+
+    return [...entries.values()];
+  }
+
+  /**
+   * Fetch logs in chunkSize block ranges, sorted by block and log index
+   */
+  private async _getLogsChunked(
+    addresses: Address[],
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<HistoryLog[]> {
+    const logs: HistoryLog[] = [];
+
+    for (let start = fromBlock; start <= toBlock; start += this.chunkSize) {
+      const end = start + this.chunkSize - 1n < toBlock ? start + this.chunkSize - 1n : toBlock;
+      const chunk = await this.publicClient.getLogs({
+        address: addresses,
+        events: HISTORY_EVENTS,
+        fromBlock: start,
+        toBlock: end
+      });
+
+      for (const log of chunk as any[]) {
+        if (!log.eventName || !log.args?.txHash) {
+          continue;
+        }
+        logs.push({
+          address: log.address,
+          eventName: log.eventName,
+          args: log.args,
+          blockNumber: BigInt(log.blockNumber ?? 0n),
+          logIndex: Number(log.logIndex ?? 0),
+          transactionHash: log.transactionHash
+        });
+      }
+    }
+
+    return logs.sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber ? -1 : 1
+    );
+  }
+}
@@ -1,8 +1,28 @@
 import type { Address, Hex, PublicClient, WalletClient } from "viem";
-import { encodeAbiParameters, keccak256, encodePacked } from "viem";
-import { MultiLevelAccountPlugin, type MultiLevelAccountExecuteParams } from "./plugins/MultiLevelAccountPlugin";
-import type { PackedUserOperation } from "./types";
+import { encodeAbiParameters, keccak256 } from "viem";
+import {
+  MultiLevelAccountPlugin,
+  type MultiLevelAccountBatchParams,
+  type MultiLevelAccountExecuteParams
+} from "./plugins/MultiLevelAccountPlugin";
+import type { AccountInitConfig, PackedUserOperation, PaymasterProvider, UserOpGasLimits } from "./types";
 import { ENTRY_POINT_ABI } from "./contracts/abis";
+import {
+  DUMMY_SIGNATURE,
+  packAccountGasLimits,
+  packGasFees,
+  packPaymasterAndData,
+  unpackAccountGasLimits,
+  toRpcUserOp
+} from "./utils/userOpPacking";
+
+// Fallback gas limits when neither the bundler nor the node can estimate
+const DEFAULT_VERIFICATION_GAS_LIMIT = 1000000n; // validateUserOp + prefund + signature validation
+const DEFAULT_DEPLOYMENT_VERIFICATION_GAS_LIMIT = 7000000n; // Also covers account + Level deployment via initCode
+const DEFAULT_CALL_GAS_LIMIT = 500000n; // execute + submission to the first Level
+const DEFAULT_PRE_VERIFICATION_GAS = 200000n; // EntryPoint overhead
+
+const DEFAULT_GAS_MULTIPLIER = 1.2;
 
 /**
  * UserOpBuilder using permissionless.js and viem
@@ -17,6 +37,8 @@ export class UserOpBuilder {
   private walletClient?: WalletClient;
   private plugin: MultiLevelAccountPlugin;
   private _bundlerUrl?: string;
+  private _initConfig?: AccountInitConfig;
+  private _paymaster?: PaymasterProvider;
 
   /**
    * Set bundler URL (can be updated dynamically)
@@ -29,6 +51,35 @@ export class UserOpBuilder {
     return this._bundlerUrl;
   }
 
+  /**
+   * Set factory parameters used to deploy the account on its first UserOp
+   */
+  setAccountInitConfig(config: AccountInitConfig | undefined): void {
+    this._initConfig = config;
+  }
+
+  get accountInitConfig(): AccountInitConfig | undefined {
+    return this._initConfig;
+  }
+
+  /**
+   * Set paymaster used to sponsor UserOps (undefined = account pays its own gas)
+   */
+  setPaymaster(paymaster: PaymasterProvider | undefined): void {
+    this._paymaster = paymaster;
+  }
+
+  get paymaster(): PaymasterProvider | undefined {
+    return this._paymaster;
+  }
+
+  /**
+   * Check whether the sender account is already deployed
+   */
+  async isAccountDeployed(): Promise<boolean> {
+    return await this.plugin.isDeployed();
+  }
+
   constructor(
     accountAddress: Address,
     entryPointAddress: Address,
@@ -159,40 +210,190 @@ export class UserOpBuilder {
   /**
    * Build UserOperation for MultiLevelAccount
    */
-  async buildUserOp(params: MultiLevelAccountExecuteParams): Promise<PackedUserOperation> {
+  async buildUserOp(
+    params: MultiLevelAccountExecuteParams | MultiLevelAccountBatchParams
+  ): Promise<PackedUserOperation> {
     // Get nonce
-    const nonce = await this.plugin.getNonce();
+    const nonce = await this.plugin.getNonce(params.nonceKey);
 
-    // Encode execute call
-    const callData = this.plugin.encodeExecute(params);
+    // Encode execute (or executeBatch) call
+    const callData = "calls" in params
+      ? this.plugin.encodeExecuteBatch(params)
+      : this.plugin.encodeExecute(params);
+
+    // Deploy the account in the same UserOp if it does not exist yet
+    const initCode = await this.getInitCode();
 
     // Get fee data - try bundler first, then fall back to standard estimation
     const { maxFeePerGas, maxPriorityFeePerGas } = await this.getGasPrices();
 
-    // Pack gas limits (verificationGasLimit, callGasLimit)
-    // Packed as two uint128 values in bytes32
-    // Use higher limits to avoid validation failures
-    // verificationGasLimit needs to cover validateUserOp + prefund + signature validation
-    // callGasLimit needs to cover execute function
-    const verificationGasLimit = 1000000n; // Increased significantly for validateUserOp + prefund
-    const callGasLimit = 500000n; // Increased for execute function
-    const accountGasLimits = this._packAccountGasLimits(verificationGasLimit, callGasLimit);
-
     // Pack gas fees (maxPriorityFeePerGas, maxFeePerGas)
     // Packed as two uint128 values in bytes32
-    const gasFees = this._packGasFees(maxPriorityFeePerGas, maxFeePerGas);
+    const gasFees = packGasFees(maxPriorityFeePerGas, maxFeePerGas);
 
-    return {
+    const userOp: PackedUserOperation = {
       sender: this.accountAddress,
       nonce,
-      initCode: "0x" as Hex,
+      initCode,
       callData: callData as Hex,
-      accountGasLimits: accountGasLimits as Hex,
-      preVerificationGas: 200000n, // Increased for EntryPoint overhead
+      accountGasLimits: packAccountGasLimits(
+        initCode === "0x" ? DEFAULT_VERIFICATION_GAS_LIMIT : DEFAULT_DEPLOYMENT_VERIFICATION_GAS_LIMIT,
+        DEFAULT_CALL_GAS_LIMIT
+      ),
+      preVerificationGas: DEFAULT_PRE_VERIFICATION_GAS,
       gasFees: gasFees as Hex,
       paymasterAndData: "0x" as Hex,
       signature: "0x" as Hex
     };
+
+    // Estimate with stub paymaster data so the paymaster's validation is covered
+    if (this._paymaster) {
+      userOp.paymasterAndData = await this._paymasterStubData(this._paymaster, userOp);
+    }
+
+    // Replace the defaults with estimated limits (multiplier and overrides applied)
+    const { verificationGasLimit, callGasLimit, preVerificationGas } = await this.estimateGasLimits(userOp, params);
+
+    // Pack gas limits (verificationGasLimit, callGasLimit)
+    // Packed as two uint128 values in bytes32
+    const estimatedUserOp: PackedUserOperation = {
+      ...userOp,
+      accountGasLimits: packAccountGasLimits(verificationGasLimit, callGasLimit),
+      preVerificationGas
+    };
+
+    // Paymaster data is part of the signed hash, so it must be filled before signing
+    return this._paymaster
+      ? await this.applyPaymaster(estimatedUserOp)
+      : estimatedUserOp;
+  }
+
+  /**
+   * Request sponsorship from the configured paymaster and fill paymasterAndData
+   * Gas limits returned by the paymaster replace the estimated ones
+   */
+  async applyPaymaster(userOp: PackedUserOperation): Promise<PackedUserOperation> {
+    if (!this._paymaster) {
+      throw new Error("Paymaster required");
+    }
+
+    const sponsorship = await this._paymaster.sponsorUserOperation(
+      { ...userOp, signature: DUMMY_SIGNATURE },
+      this.entryPointAddress
+    );
+
+    const current = unpackAccountGasLimits(userOp.accountGasLimits as Hex);
+    const gasLimits = sponsorship.gasLimits ?? {};
+
+    return {
+      ...userOp,
+      accountGasLimits: packAccountGasLimits(
+        gasLimits.verificationGasLimit ?? current.verificationGasLimit,
+        gasLimits.callGasLimit ?? current.callGasLimit
+      ),
+      preVerificationGas: gasLimits.preVerificationGas ?? userOp.preVerificationGas,
+      paymasterAndData: packPaymasterAndData(sponsorship)
+    };
+  }
+
+  /**
+   * Packed stub paymasterAndData for gas estimation
+   * Uses a full sponsorship when the paymaster has no stub method
+   */
+  private async _paymasterStubData(paymaster: PaymasterProvider, userOp: PackedUserOperation): Promise<Hex> {
+    const stubUserOp = { ...userOp, signature: DUMMY_SIGNATURE };
+    const stub = paymaster.getPaymasterStubData
+      ? await paymaster.getPaymasterStubData(stubUserOp, this.entryPointAddress)
+      : await paymaster.sponsorUserOperation(stubUserOp, this.entryPointAddress);
+    return packPaymasterAndData(stub);
+  }
+
+  /**
+   * Estimate gas limits for a UserOperation
+   * Tries the bundler first, then local eth_estimateGas for callGasLimit, then the defaults.
+   * The multiplier applies to estimated values only; overrides are used as given.
+   */
+  async estimateGasLimits(
+    userOp: PackedUserOperation,
+    options: Pick<MultiLevelAccountExecuteParams, "gasOverrides" | "gasMultiplier"> = {}
+  ): Promise<UserOpGasLimits> {
+    const overrides = options.gasOverrides ?? {};
+    const multiplier = options.gasMultiplier ?? DEFAULT_GAS_MULTIPLIER;
+    // Below 1 would shrink estimates; NaN or Infinity cannot be converted to a BigInt
+    if (!Number.isFinite(multiplier) || multiplier < 1) {
+      throw new Error(`Invalid gasMultiplier ${multiplier}: must be a finite number of at least 1`);
+    }
+    const defaults = unpackAccountGasLimits(userOp.accountGasLimits as Hex);
+
+    if (overrides.callGasLimit !== undefined &&
+      overrides.verificationGasLimit !== undefined &&
+      overrides.preVerificationGas !== undefined) {
+      return {
+        callGasLimit: overrides.callGasLimit,
+        verificationGasLimit: overrides.verificationGasLimit,
+        preVerificationGas: overrides.preVerificationGas
+      };
+    }
+
+    let estimate: Partial<UserOpGasLimits> = {};
+
+    if (this._bundlerUrl) {
+      try {
+        estimate = await this.estimateUserOperationGas(userOp);
+      } catch (error) {
+        console.warn("Bundler gas estimation failed, falling back to local estimation:", error);
+      }
+    }
+
+    // execute() is onlyEntryPoint, so simulate the call from the EntryPoint
+    // (not possible before deployment, the account has no code yet)
+    if (estimate.callGasLimit === undefined && userOp.initCode === "0x") {
+      try {
+        estimate.callGasLimit = await this.publicClient.estimateGas({
+          account: this.entryPointAddress,
+          to: this.accountAddress,
+          data: userOp.callData as Hex
+        });
+      } catch (error) {
+        console.warn("Local callGasLimit estimation failed, using default:", error);
+      }
+    }
+
+    const withMultiplier = (value: bigint | undefined, fallback: bigint) =>
+      value !== undefined ? this._applyGasMultiplier(value, multiplier) : fallback;
+
+    return {
+      callGasLimit: overrides.callGasLimit ??
+        withMultiplier(estimate.callGasLimit, defaults.callGasLimit),
+      verificationGasLimit: overrides.verificationGasLimit ??
+        withMultiplier(estimate.verificationGasLimit, defaults.verificationGasLimit),
+      preVerificationGas: overrides.preVerificationGas ??
+        withMultiplier(estimate.preVerificationGas, userOp.preVerificationGas)
+    };
+  }
+
+  /**
+   * Get initCode for the sender
+   * Returns "0x" when the account is deployed or no init config is set
+   */
+  async getInitCode(): Promise<Hex> {
+    if (!this._initConfig) {
+      return "0x";
+    }
+
+    if (await this.plugin.isDeployed()) {
+      return "0x";
+    }
+
+    const predicted = await this.plugin.computeAccountAddress(this._initConfig);
+    if (predicted.toLowerCase() !== this.accountAddress.toLowerCase()) {
+      throw new Error(
+        `Counterfactual address mismatch: factory computes ${predicted} for the given owner, ` +
+        `levelSigners, ranges and salt, but the builder is bound to ${this.accountAddress}.`
+      );
+    }
+
+    return this.plugin.encodeInitCode(this._initConfig);
   }
 
   /**
@@ -236,76 +437,85 @@ export class UserOpBuilder {
       throw new Error("Bundler URL required");
     }
 
-    // Unpack accountGasLimits (bytes32) to verificationGasLimit and callGasLimit (uint128 each)
-    const { verificationGasLimit, callGasLimit } = this._unpackAccountGasLimits(userOp.accountGasLimits as Hex);
-
-    // Unpack gasFees (bytes32) to maxPriorityFeePerGas and maxFeePerGas (uint128 each)
-    const { maxPriorityFeePerGas, maxFeePerGas } = this._unpackGasFees(userOp.gasFees as Hex);
-
-    // Convert to hex strings for JSON-RPC
-    const toHex = (value: bigint) => `0x${value.toString(16)}`;
+    return await this._sendBundlerRequest<Hex>(
+      url,
+      "eth_sendUserOperation",
+      toRpcUserOp(userOp),
+      "sendUserOp:v0.7"
+    );
+  }
 
-    const send = async (
-      rpcMethod: string,
-      paramsUserOp: Record<string, string | null>,
-      schemaLabel: string
-    ) => {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: rpcMethod,
-          params: [paramsUserOp, this.entryPointAddress],
-        }),
-      });
+  /**
+   * Estimate UserOperation gas limits via the bundler's eth_estimateUserOperationGas
+   * The op is sent with a dummy signature since the real one depends on the gas values
+   */
+  async estimateUserOperationGas(userOp: PackedUserOperation, bundlerUrl?: string): Promise<UserOpGasLimits> {
+    const url = bundlerUrl || this._bundlerUrl;
+    if (!url) {
+      throw new Error("Bundler URL required");
+    }
 
-      const result = (await response.json()) as {
-        error?: { message?: string; code?: number; data?: unknown };
-        result?: Hex;
-      };
+    const estimate = await this._sendBundlerRequest<{
+      preVerificationGas: string;
+      verificationGasLimit: string;
+      callGasLimit: string;
+    }>(
+      url,
+      "eth_estimateUserOperationGas",
+      toRpcUserOp({ ...userOp, signature: DUMMY_SIGNATURE }),
+      "estimateUserOp:v0.7"
+    );
 
-      if (result.error) {
-        const dataStr =
-          typeof result.error.data === "string"
-            ? result.error.data
-            : result.error.data
-              ? JSON.stringify(result.error.data)
-              : "";
-        const codeStr = typeof result.error.code === "number" ? ` code=${result.error.code}` : "";
-        const dataSuffix = dataStr ? ` data=${dataStr}` : "";
-        const msg = result.error.message || "Bundler error";
-        throw new Error(`[${rpcMethod} ${schemaLabel}] ${msg}${codeStr}${dataSuffix}`);
-      }
+    return {
+      preVerificationGas: BigInt(estimate.preVerificationGas),
+      verificationGasLimit: BigInt(estimate.verificationGasLimit),
+      callGasLimit: BigInt(estimate.callGasLimit)
+    };
+  }
 
-      if (!result.result) {
-        throw new Error(`[${rpcMethod} ${schemaLabel}] No result from bundler`);
-      }
+  /**
+   * Send a UserOperation JSON-RPC request to the bundler
+   */
+  private async _sendBundlerRequest<T>(
+    url: string,
+    rpcMethod: string,
+    paramsUserOp: Record<string, string | null>,
+    schemaLabel: string
+  ): Promise<T> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: rpcMethod,
+        params: [paramsUserOp, this.entryPointAddress],
+      }),
+    });
 
-      return result.result;
+    const result = (await response.json()) as {
+      error?: { message?: string; code?: number; data?: unknown };
+      result?: T;
     };
 
-    // Build userOp object for bundler (EntryPoint v0.7 JSON-RPC schema).
-    const bundlerUserOpV7: Record<string, string | null> = {
-      sender: userOp.sender,
-      nonce: toHex(userOp.nonce),
-      factory: null,
-      factoryData: null,
-      callData: userOp.callData,
-      callGasLimit: toHex(callGasLimit),
-      verificationGasLimit: toHex(verificationGasLimit),
-      preVerificationGas: toHex(userOp.preVerificationGas),
-      maxFeePerGas: toHex(maxFeePerGas),
-      maxPriorityFeePerGas: toHex(maxPriorityFeePerGas),
-      paymaster: null,
-      paymasterVerificationGasLimit: null,
-      paymasterPostOpGasLimit: null,
-      paymasterData: null,
-      signature: userOp.signature,
-    };
+    if (result.error) {
+      const dataStr =
+        typeof result.error.data === "string"
+          ? result.error.data
+          : result.error.data
+            ? JSON.stringify(result.error.data)
+            : "";
+      const codeStr = typeof result.error.code === "number" ? ` code=${result.error.code}` : "";
+      const dataSuffix = dataStr ? ` data=${dataStr}` : "";
+      const msg = result.error.message || "Bundler error";
+      throw new Error(`[${rpcMethod} ${schemaLabel}] ${msg}${codeStr}${dataSuffix}`);
+    }
 
-    return await send("eth_sendUserOperation", bundlerUserOpV7, "sendUserOp:v0.7");
+    if (!result.result) {
+      throw new Error(`[${rpcMethod} ${schemaLabel}] No result from bundler`);
+    }
+
+    return result.result;
   }
 
   /**
@@ -477,52 +687,9 @@ export class UserOpBuilder {
   }
 
   /**
-   * Pack two uint128 values into bytes32
-   */
-  private _packAccountGasLimits(verificationGasLimit: bigint, callGasLimit: bigint): Hex {
-    return encodePacked(
-      ["uint128", "uint128"],
-      [verificationGasLimit, callGasLimit]
-    ) as Hex;
-  }
-
-  /**
-   * Pack two uint128 values into bytes32
+   * Scale a gas value by a multiplier (two decimal places of precision)
    */
-  private _packGasFees(maxPriorityFeePerGas: bigint, maxFeePerGas: bigint): Hex {
-    return encodePacked(
-      ["uint128", "uint128"],
-      [maxPriorityFeePerGas, maxFeePerGas]
-    ) as Hex;
-  }
-
-  /**
-   * Unpack bytes32 to two uint128 values (accountGasLimits)
-   */
-  private _unpackAccountGasLimits(packed: Hex): { verificationGasLimit: bigint; callGasLimit: bigint } {
-    // Packed format: first 16 bytes = verificationGasLimit, last 16 bytes = callGasLimit
-    const hex = packed.replace("0x", "");
-    const verificationGasLimitHex = hex.slice(0, 32); // First 16 bytes (32 hex chars)
-    const callGasLimitHex = hex.slice(32, 64); // Last 16 bytes (32 hex chars)
-
-    return {
-      verificationGasLimit: BigInt(`0x${verificationGasLimitHex}` as `0x${string}`),
-      callGasLimit: BigInt(`0x${callGasLimitHex}` as `0x${string}`)
-    };
-  }
-
-  /**
-   * Unpack bytes32 to two uint128 values (gasFees)
-   */
-  private _unpackGasFees(packed: Hex): { maxPriorityFeePerGas: bigint; maxFeePerGas: bigint } {
-    // Packed format: first 16 bytes = maxPriorityFeePerGas, last 16 bytes = maxFeePerGas
-    const hex = packed.replace("0x", "");
-    const maxPriorityFeePerGasHex = hex.slice(0, 32); // First 16 bytes (32 hex chars)
-    const maxFeePerGasHex = hex.slice(32, 64); // Last 16 bytes (32 hex chars)
-
-    return {
-      maxPriorityFeePerGas: BigInt(`0x${maxPriorityFeePerGasHex}` as `0x${string}`),
-      maxFeePerGas: BigInt(`0x${maxFeePerGasHex}` as `0x${string}`)
-    };
+  private _applyGasMultiplier(gas: bigint, multiplier: number): bigint {
+    return (gas * BigInt(Math.round(multiplier * 100))) / 100n;
   }
 }
@@ -0,0 +1,24 @@
+import type { Address } from "viem";
+import type { TokenPriceSource, TokenQuote } from "../types";
+
+/**
+ * TokenPriceSource backed by a fixed table of quotes keyed by token address
+ * Suited to tests, stablecoins and WETH; plug in an oracle-backed source for volatile tokens.
+ */
+export class StaticPriceSource implements TokenPriceSource {
+  private quotes = new Map<string, TokenQuote>();
+
+  constructor(quotes: Record<string, TokenQuote> = {}) {
+    for (const [token, quote] of Object.entries(quotes)) {
+      this.setQuote(token, quote);
+    }
+  }
+
+  setQuote(token: Address | string, quote: TokenQuote): void {
+    this.quotes.set(token.toLowerCase(), quote);
+  }
+
+  async getQuote(token: Address): Promise<TokenQuote | undefined> {
+    return this.quotes.get(token.toLowerCase());
+  }
+}
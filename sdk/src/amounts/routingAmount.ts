@@ -0,0 +1,137 @@
+import type { Address, Hex } from "viem";
+import { decodeFunctionData, maxUint256, parseAbi } from "viem";
+import type {
+  AmountCheckOptions,
+  AmountCheckResult,
+  AssetMovement,
+  PricedMovement,
+  RoutingAmount,
+  RoutingAmountOptions,
+  TokenPriceSource
+} from "../types";
+
+const ERC20_MOVEMENT_ABI = parseAbi([
+  "function transfer(address to, uint256 amount)",
+  "function transferFrom(address from, address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)"
+]);
+
+const WETH_ABI = parseAbi([
+  "function deposit() payable",
+  "function withdraw(uint256 wad)"
+]);
+
+/**
+ * Decode the value a call moves: native value, ERC-20 transfer/transferFrom/approve
+ * and, for targets listed in wethAddresses, WETH deposit/withdraw
+ * Calldata that matches none of these contributes only its native value.
+ */
+export function decodeAssetMovements(
+  to: Address | string,
+  value: bigint,
+  data: Hex | string,
+  options: RoutingAmountOptions = {}
+): AssetMovement[] {
+  const target = to as Address;
+  const isWeth = (options.wethAddresses ?? []).some((weth) => weth.toLowerCase() === target.toLowerCase());
+  const movements: AssetMovement[] = [];
+
+  if (isWeth) {
+    const call = tryDecode(WETH_ABI, data);
+    if (call?.functionName === "deposit") {
+      return [{ kind: "wethDeposit", token: target, amount: value }];
+    }
+    if (call?.functionName === "withdraw") {
+      movements.push({ kind: "wethWithdraw", token: target, amount: call.args[0] });
+    }
+  }
+
+  const call = tryDecode(ERC20_MOVEMENT_ABI, data);
+  if (call?.functionName === "transfer") {
+    movements.push({ kind: "erc20Transfer", token: target, to: call.args[0], amount: call.args[1] });
+  } else if (call?.functionName === "transferFrom") {
+    movements.push({
+      kind: "erc20TransferFrom",
+      token: target,
+      from: call.args[0],
+      to: call.args[1],
+      amount: call.args[2]
+    });
+  } else if (call?.functionName === "approve") {
+    movements.push({ kind: "erc20Approve", token: target, to: call.args[0], amount: call.args[1] });
+  }
+
+  if (value > 0n) {
+    movements.unshift({ kind: "native", to: target, amount: value });
+  }
+  return movements;
+}
+
+/**
+ * Normalized routing amount in wei for a call
+ * Token amounts are converted with the price source and rounded up, so the result
+ * never understates a priced transfer; the total is capped at 2^256 - 1.
+ */
+export async function computeRoutingAmount(
+  to: Address | string,
+  value: bigint,
+  data: Hex | string,
+  priceSource: TokenPriceSource,
+  options: RoutingAmountOptions = {}
+): Promise<RoutingAmount> {
+  const movements: PricedMovement[] = [];
+  for (const movement of decodeAssetMovements(to, value, data, options)) {
+    movements.push({ ...movement, value: await priceMovement(movement, priceSource) });
+  }
+
+  let amount = 0n;
+  for (const movement of movements) {
+    amount += movement.value ?? 0n;
+  }
+
+  return {
+    amount: amount > maxUint256 ? maxUint256 : amount,
+    movements,
+    unpriced: movements.filter((movement) => movement.value === undefined)
+  };
+}
+
+/**
+ * Compare a declared routing amount against the computed one
+ */
+export async function checkDeclaredAmount(
+  to: Address | string,
+  value: bigint,
+  data: Hex | string,
+  declared: bigint,
+  options: AmountCheckOptions
+): Promise<AmountCheckResult> {
+  const computed = await computeRoutingAmount(to, value, data, options.priceSource, options);
+  return {
+    ...computed,
+    declared,
+    understated: declared < computed.amount || computed.unpriced.length > 0
+  };
+}
+
+async function priceMovement(movement: AssetMovement, priceSource: TokenPriceSource): Promise<bigint | undefined> {
+  // Wrapping is valued at the native value sent
+  if (movement.kind === "native" || movement.kind === "wethDeposit") {
+    return movement.amount;
+  }
+
+  const quote = await priceSource.getQuote(movement.token!);
+  if (!quote) {
+    return undefined;
+  }
+  const unit = 10n ** BigInt(quote.decimals);
+  return (movement.amount * quote.price + unit - 1n) / unit;
+}
+
+function tryDecode<const TAbi extends typeof ERC20_MOVEMENT_ABI | typeof WETH_ABI>(abi: TAbi, data: Hex | string) {
+  try {
+    return decodeFunctionData({ abi, data: data as Hex });
+  } catch {
+    return undefined;
+  }
+}
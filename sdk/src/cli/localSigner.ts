@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import { Wallet } from "ethers";
+import type { Hex, LocalAccount, Transport } from "viem";
+import { createPublicClient, createWalletClient, custom, hexToBigInt } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+export interface LocalSignerOptions {
+  /** 0x-prefixed hex private key */
+  privateKey?: string;
+  /** Path to an encrypted JSON keystore (geth / ethers format) */
+  keystore?: string;
+  password?: string;
+  /** File whose first line is the keystore password */
+  passwordFile?: string;
+}
+
+/**
+ * Load a signing key from a raw private key or an encrypted keystore
+ * Returns undefined when neither is configured (read-only use).
+ */
+export async function loadLocalSigner(options: LocalSignerOptions): Promise<LocalAccount | undefined> {
+  if (options.privateKey && options.keystore) {
+    throw new Error("Configure either a private key or a keystore, not both");
+  }
+
+  if (options.privateKey) {
+    const key = options.privateKey.trim();
+    if (!/^(0x)?[0-9a-fA-F]{64}$/.test(key)) {
+      throw new Error("Private key must be 32 bytes of hex");
+    }
+    return privateKeyToAccount((key.startsWith("0x") ? key : `0x${key}`) as Hex);
+  }
+
+  if (options.keystore) {
+    const password = options.password ??
+      (options.passwordFile ? fs.readFileSync(options.passwordFile, "utf8").split(/\r?\n/)[0] : undefined);
+    if (password === undefined) {
+      throw new Error("Keystore password required: set MLA_KEYSTORE_PASSWORD or pass --password-file");
+    }
+    const wallet = await Wallet.fromEncryptedJson(fs.readFileSync(options.keystore, "utf8"), password);
+    return privateKeyToAccount(wallet.privateKey as Hex);
+  }
+
+  return undefined;
+}
+
+/**
+ * Transport that answers wallet methods with a local key and forwards the rest
+ * The SDK signs and sends through eth_accounts, personal_sign,
+ * eth_signTypedData_v4 and eth_sendTransaction; handling them in-process means any RPC node works and
+ * the key never leaves the machine.
+ */
+export function localSignerTransport(account: LocalAccount, transport: Transport): Transport {
+  const publicClient = createPublicClient({ transport });
+  const walletClient = createWalletClient({ account, transport });
+
+  return custom({
+    request: async ({ method, params }: { method: string; params?: any }) => {
+      switch (method) {
+        case "eth_accounts":
+        case "eth_requestAccounts":
+          return [account.address];
+        case "personal_sign":
+          assertSigner(params[1]);
+          return await account.signMessage({ message: { raw: params[0] as Hex } });
+        case "eth_sign":
+          assertSigner(params[0]);
+          return await account.signMessage({ message: { raw: params[1] as Hex } });
+        case "eth_signTypedData_v4":
+          assertSigner(params[0]);
+          return await account.signTypedData(JSON.parse(params[1]));
+        case "eth_sendTransaction": {
+          const tx = params[0] as Record<string, Hex | undefined>;
+          assertSigner(tx.from);
+          const toBigInt = (value?: Hex) => (value === undefined ? undefined : hexToBigInt(value));
+          return await walletClient.sendTransaction({
+            to: tx.to,
+            data: tx.data ?? tx.input,
+            value: toBigInt(tx.value),
+            gas: toBigInt(tx.gas),
+            nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+            chain: null
+          });
+        }
+        default:
+          return await publicClient.request({ method, params } as any);
+      }
+    }
+  });
+
+  function assertSigner(address: unknown) {
+    if (typeof address === "string" && address.toLowerCase() !== account.address.toLowerCase()) {
+      throw new Error(`Cannot sign for ${address}: the configured key is ${account.address}`);
+    }
+  }
+}
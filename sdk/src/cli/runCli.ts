@@ -0,0 +1,378 @@
+import * as fs from "fs";
+import { parseArgs } from "util";
+import type { Address, Hex, PublicClient, WalletClient } from "viem";
+import { createPublicClient, createWalletClient, formatEther, http, isAddress, isHex, maxUint256, parseEther } from "viem";
+import { MultiLevelAccountSDK } from "../MultiLevelAccountSDK";
+import { SignerInterface } from "../SignerInterface";
+import { MultiLevelAccountError } from "../errors";
+import { ENTRY_POINT_ADDRESSES } from "../contracts/addresses";
+import { formatDuration } from "../policy/amountPolicy";
+import type { AmountRange, PendingTransaction, TransactionStatus } from "../types";
+import { loadLocalSigner, localSignerTransport } from "./localSigner";
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+export interface CliContext {
+  /** Defaults to process.env */
+  env?: Record<string, string | undefined>;
+  /** Used instead of a client for --rpc-url */
+  publicClient?: PublicClient;
+  /** Used instead of the configured private key or keystore */
+  walletClient?: WalletClient;
+  io?: CliIo;
+}
+
+interface CommandOutput {
+  /** Printed with --json */
+  data: unknown;
+  /** Printed otherwise */
+  text: string[];
+}
+
+interface CommandContext {
+  sdk: MultiLevelAccountSDK;
+  accountAddress: Address;
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+  args: string[];
+  options: Record<string, string | boolean | undefined>;
+}
+
+type Command = (ctx: CommandContext) => Promise<CommandOutput>;
+
+class UsageError extends Error {}
+
+export const USAGE = `Usage: mla <command> [options]
+
+Commands:
+  propose --to <address> --amount <eth> [--value <eth>] [--data <hex>]
+  status <txHash>
+  pending --level <id> [--simulate]
+  sign <txHash> --level <id>
+  deny <txHash> --level <id>
+  complete-timelock <txHash> --level <id>
+  execute <txHash>
+  ranges list
+  ranges apply <policy-file> [--dry-run]
+  diagnostics
+
+Options:
+  --rpc-url <url>        RPC endpoint (MLA_RPC_URL)
+  --account <address>    MultiLevelAccount address (MLA_ACCOUNT or ACCOUNT_ADDRESS)
+  --entry-point <addr>   EntryPoint address (ENTRYPOINT_ADDRESS, default v0.7)
+  --bundler-url <url>    Bundler for proposals (MLA_BUNDLER_URL)
+  --keystore <file>      Encrypted JSON keystore (MLA_KEYSTORE)
+  --password-file <file> Keystore password file (or MLA_KEYSTORE_PASSWORD)
+  --json                 Print machine-readable JSON
+
+The signing key is read from MLA_PRIVATE_KEY or the keystore. ETH amounts are decimal ether.`;
+
+const OPTIONS = {
+  "rpc-url": { type: "string" },
+  account: { type: "string" },
+  "entry-point": { type: "string" },
+  "bundler-url": { type: "string" },
+  keystore: { type: "string" },
+  "password-file": { type: "string" },
+  json: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+  to: { type: "string" },
+  value: { type: "string" },
+  data: { type: "string" },
+  amount: { type: "string" },
+  level: { type: "string" },
+  simulate: { type: "boolean" },
+  "dry-run": { type: "boolean" }
+} as const;
+
+const COMMANDS: Record<string, Command> = {
+  propose: async ({ sdk, options }) => {
+    const to = requireAddress(options.to, "--to");
+    const data = (options.data as string | undefined) ?? "0x";
+    if (!isHex(data)) {
+      throw new UsageError("--data must be 0x-prefixed hex");
+    }
+    const txHash = await sdk.proposeTransaction(
+      to,
+      parseEth(options.value ?? "0", "--value"),
+      data,
+      parseEth(requireOption(options.amount, "--amount"), "--amount")
+    );
+    return { data: { txHash }, text: [`Proposed ${txHash}`] };
+  },
+
+  status: async ({ sdk, args }) => {
+    const status = await sdk.getTransactionStatus(requireTxHash(args[0]));
+    return { data: status, text: formatStatus(status) };
+  },
+
+  pending: async (ctx) => {
+    const levelId = requireLevel(ctx.options.level);
+    const pending = await signerInterface(ctx, levelId).getPendingTransactions({
+      simulate: ctx.options.simulate === true
+    });
+    return {
+      data: pending,
+      text: pending.length > 0
+        ? pending.flatMap(formatPending)
+        : [`No pending transactions at level ${levelId}`]
+    };
+  },
+
+  sign: levelAction("sign", "Signed", (signer, txHash) => signer.sign(txHash)),
+  deny: levelAction("deny", "Denied", (signer, txHash) => signer.deny(txHash)),
+  "complete-timelock": levelAction(
+    "complete-timelock",
+    "Completed timelock for",
+    (signer, txHash) => signer.completeTimelock(txHash)
+  ),
+
+  execute: async ({ sdk, args }) => {
+    const txHash = requireTxHash(args[0]);
+    const transactionHash = await sdk.executeApprovedTransaction(txHash);
+    return { data: { txHash, transactionHash }, text: [`Executed ${txHash} (transaction ${transactionHash})`] };
+  },
+
+  ranges: async ({ sdk, args, options }) => {
+    const [subcommand, policyFile] = args;
+    if (subcommand === "list") {
+      const ranges = await sdk.getAmountRanges();
+      return {
+        data: ranges,
+        text: ranges.length > 0
+          ? ranges.map((range, i) => `#${i}  ${formatRange(range)}`)
+          : ["No amount ranges configured"]
+      };
+    }
+    if (subcommand === "apply") {
+      if (!policyFile) {
+        throw new UsageError("ranges apply needs a policy file");
+      }
+      const result = await sdk.applyPolicy(fs.readFileSync(policyFile, "utf8"), {
+        dryRun: options["dry-run"] === true
+      });
+      const steps = result.plan.steps.map((step, i) => {
+        const description = step.type === "configureAmountRange"
+          ? `Configure ${formatRange(step.range)}`
+          : `Remove #${step.index} (${formatRange(step.range)})`;
+        const hash = result.transactionHashes[i];
+        return hash ? `${description}  ${hash}` : description;
+      });
+      return {
+        data: result,
+        text: steps.length === 0
+          ? ["On-chain ranges already match the policy"]
+          : [options["dry-run"] ? "Planned changes (dry run):" : "Applied changes:", ...steps.map((s) => `  ${s}`)]
+      };
+    }
+    throw new UsageError("Usage: mla ranges list | mla ranges apply <policy-file> [--dry-run]");
+  },
+
+  diagnostics: async ({ sdk, accountAddress }) => {
+    const diagnostics = await sdk.getAccountDiagnostics();
+    const { issues } = diagnostics.policyReport;
+    return {
+      data: diagnostics,
+      text: [
+        `Account:       ${accountAddress}`,
+        `Owner:         ${diagnostics.owner}`,
+        `Balance:       ${formatEther(diagnostics.balance)} ETH`,
+        `Amount ranges: ${diagnostics.amountRangeCount}`,
+        `Policy:        ${diagnostics.policyReport.valid ? "valid" : "has errors"}`,
+        ...issues.map((issue) => `  [${issue.severity}] ${issue.code}: ${issue.message}`)
+      ]
+    };
+  }
+};
+
+/**
+ * Run the mla command line and return the exit code
+ * 0 on success, 1 when the command fails, 2 for usage errors.
+ */
+export async function runCli(argv: string[], context: CliContext = {}): Promise<number> {
+  const io = context.io ?? {
+    stdout: (text: string) => process.stdout.write(`${text}\n`),
+    stderr: (text: string) => process.stderr.write(`${text}\n`)
+  };
+  const env = context.env ?? process.env;
+
+  let json = argv.includes("--json");
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    json = values.json === true;
+    const [name, ...args] = positionals;
+
+    if (values.help || !name) {
+      io.stdout(USAGE);
+      return values.help ? 0 : 2;
+    }
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command "${name}"`);
+    }
+
+    const rpcUrl = values["rpc-url"] ?? env.MLA_RPC_URL;
+    const accountAddress = requireAddress(values.account ?? env.MLA_ACCOUNT ?? env.ACCOUNT_ADDRESS, "--account");
+    if (!context.publicClient && !rpcUrl) {
+      throw new UsageError("RPC URL required: pass --rpc-url or set MLA_RPC_URL");
+    }
+    const publicClient = context.publicClient ?? createPublicClient({ transport: http(rpcUrl) });
+
+    let walletClient = context.walletClient;
+    if (!walletClient) {
+      const signer = await loadLocalSigner({
+        privateKey: env.MLA_PRIVATE_KEY,
+        keystore: values.keystore ?? env.MLA_KEYSTORE,
+        password: env.MLA_KEYSTORE_PASSWORD,
+        passwordFile: values["password-file"]
+      });
+      if (signer) {
+        walletClient = createWalletClient({ transport: localSignerTransport(signer, http(rpcUrl)) });
+      }
+    }
+
+    const sdk = new MultiLevelAccountSDK(
+      accountAddress,
+      values["entry-point"] ?? env.ENTRYPOINT_ADDRESS ?? ENTRY_POINT_ADDRESSES.mainnet,
+      publicClient,
+      walletClient,
+      values["bundler-url"] ?? env.MLA_BUNDLER_URL
+    );
+
+    const output = await command({
+      sdk,
+      accountAddress,
+      publicClient,
+      walletClient,
+      args,
+      options: values as CommandContext["options"]
+    });
+    io.stdout(json ? toJson(output.data) : output.text.join("\n"));
+    return 0;
+  } catch (error) {
+    const usage = error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS");
+    const message = error instanceof Error ? error.message : String(error);
+    const errorName = error instanceof MultiLevelAccountError ? error.errorName : undefined;
+    io.stderr(json
+      ? toJson({ error: { message, errorName } })
+      : `Error${errorName ? ` (${errorName})` : ""}: ${message}${usage ? "\nRun mla --help for usage." : ""}`);
+    return usage ? 2 : 1;
+  }
+}
+
+/**
+ * JSON with bigints as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+}
+
+function levelAction(
+  name: string,
+  verb: string,
+  action: (signer: SignerInterface, txHash: Hex) => Promise<string>
+): Command {
+  return async (ctx) => {
+    const txHash = requireTxHash(ctx.args[0]);
+    const levelId = requireLevel(ctx.options.level);
+    if (!ctx.walletClient) {
+      throw new UsageError(`${name} needs a signer: set MLA_PRIVATE_KEY or pass --keystore`);
+    }
+    const transactionHash = await action(signerInterface(ctx, levelId), txHash);
+    return {
+      data: { txHash, levelId, transactionHash },
+      text: [`${verb} ${txHash} at level ${levelId} (transaction ${transactionHash})`]
+    };
+  };
+}
+
+function signerInterface(ctx: CommandContext, levelId: number): SignerInterface {
+  return new SignerInterface(ctx.accountAddress, levelId, ctx.publicClient, ctx.walletClient);
+}
+
+function formatRange(range: AmountRange): string {
+  const max = range.maxAmount === maxUint256 ? "unlimited" : `${formatEther(range.maxAmount)} ETH`;
+  const levels = range.levelIds.map((id, i) =>
+    `level ${id} (quorum ${range.quorums[i]}, timelock ${formatDuration(range.timelocks[i])})`);
+  return `${formatEther(range.minAmount)} ETH to ${max}: ${levels.join(", ")}`;
+}
+
+function formatStatus(status: TransactionStatus): string[] {
+  return [
+    `Transaction ${status.txHash}`,
+    `  To:       ${status.to}`,
+    `  Value:    ${formatEther(status.value)} ETH`,
+    `  Amount:   ${formatEther(status.amount)} ETH`,
+    `  State:    ${status.state}`,
+    `  Next:     ${status.nextAction.description}`,
+    ...status.levelStatuses.map((level) => {
+      const progress = level.denied ? "denied"
+        : level.approved ? "approved"
+        : level.timelockRemaining > 0 ? `timelock ${formatDuration(level.timelockRemaining)} remaining`
+        : level.submitted ? "collecting signatures"
+        : "not reached";
+      return `  Level ${level.levelId}:  ${level.signaturesCollected}/${level.signaturesRequired} signatures, ${progress}`;
+    })
+  ];
+}
+
+function formatPending(tx: PendingTransaction): string[] {
+  const timelock = tx.timelockRemaining > 0 ? `, timelock ${formatDuration(tx.timelockRemaining)} remaining` : "";
+  const lines = [
+    tx.txHash,
+    `  ${tx.summary}`,
+    `  Amount ${formatEther(tx.amount)} ETH, ${tx.signaturesCollected}/${tx.signaturesRequired} signatures${timelock}`
+  ];
+  if (tx.simulation) {
+    lines.push(tx.simulation.success
+      ? "  Simulation: succeeds"
+      : `  Simulation: reverts (${tx.simulation.error?.message ?? "no reason"})`);
+  }
+  return lines;
+}
+
+function requireOption(value: string | boolean | undefined, name: string): string {
+  if (typeof value !== "string" || value === "") {
+    throw new UsageError(`${name} is required`);
+  }
+  return value;
+}
+
+function requireAddress(value: string | boolean | undefined, name: string): Address {
+  const address = requireOption(value, name);
+  if (!isAddress(address, { strict: false })) {
+    throw new UsageError(`${name} must be an address, got "${address}"`);
+  }
+  return address as Address;
+}
+
+function requireTxHash(value: string | undefined): Hex {
+  if (!value || !/^0x[0-9a-fA-F]{64}$/.test(value)) {
+    throw new UsageError(`Expected a transaction hash (0x + 64 hex characters), got "${value ?? ""}"`);
+  }
+  return value as Hex;
+}
+
+function requireLevel(value: string | boolean | undefined): number {
+  const level = Number(requireOption(value, "--level"));
+  if (!Number.isInteger(level) || level < 1) {
+    throw new UsageError("--level must be a level id (1, 2, ...)");
+  }
+  return level;
+}
+
+function parseEth(value: string | boolean | undefined, name: string): bigint {
+  let amount: bigint;
+  try {
+    amount = parseEther(String(value).replace(/_/g, ""));
+  } catch {
+    amount = -1n;
+  }
+  if (amount < 0n) {
+    throw new UsageError(`${name} must be a non-negative ETH amount, got "${value}"`);
+  }
+  return amount;
+}
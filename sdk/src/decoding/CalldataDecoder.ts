@@ -0,0 +1,172 @@
+import type { Abi, AbiFunction, Address, Hex } from "viem";
+import {
+  decodeFunctionData,
+  erc1155Abi,
+  erc20Abi,
+  erc721Abi,
+  parseAbiItem,
+  toFunctionSelector,
+  toFunctionSignature
+} from "viem";
+import type {
+  CallDescription,
+  DecodedCall,
+  RegisterAbiOptions,
+  SignatureTable,
+  TokenLabel
+} from "../types";
+import { LEVEL_ABI, MULTI_LEVEL_ACCOUNT_ABI } from "../contracts/abis";
+import { summarizeCall } from "./summarizeCall";
+
+interface IndexedAbi {
+  name: string;
+  functions: Map<string, AbiFunction[]>;
+}
+
+function indexAbi(name: string, abi: Abi | readonly AbiFunction[]): IndexedAbi {
+  const functions = new Map<string, AbiFunction[]>();
+  for (const item of abi) {
+    if (item.type !== "function") continue;
+    const selector = toFunctionSelector(item);
+    functions.set(selector, [...(functions.get(selector) ?? []), item]);
+  }
+  return { name, functions };
+}
+
+const ERC20 = indexAbi("ERC20", erc20Abi);
+const ERC721 = indexAbi("ERC721", erc721Abi);
+const ERC1155 = indexAbi("ERC1155", erc1155Abi);
+const MULTI_LEVEL_ACCOUNT = indexAbi("MultiLevelAccount", MULTI_LEVEL_ACCOUNT_ABI);
+const LEVEL = indexAbi("Level", LEVEL_ABI);
+
+/**
+ * Decodes calldata into function calls and plain-English summaries
+ *
+ * ABIs are tried in order: ABIs registered for the target address, the
+ * MultiLevelAccount ABI for self-calls, ABIs registered globally, the built-in
+ * ERC-20/721/1155, Level and MultiLevelAccount ABIs, then signature tables.
+ * ERC-20 and ERC-721 share transferFrom and approve selectors; ERC-20 wins
+ * unless the target is registered as an ERC-721 token.
+ */
+export class CalldataDecoder {
+  private addressAbis = new Map<string, IndexedAbi[]>();
+  private globalAbis: IndexedAbi[] = [];
+  private signatures = indexAbi("signatures", []);
+  private tokens = new Map<string, TokenLabel>();
+
+  registerAbi(abi: Abi, options: RegisterAbiOptions = {}): void {
+    const indexed = indexAbi(options.name ?? "custom", abi);
+    if (options.address) {
+      const key = options.address.toLowerCase();
+      this.addressAbis.set(key, [...(this.addressAbis.get(key) ?? []), indexed]);
+    } else {
+      this.globalAbis.push(indexed);
+    }
+  }
+
+  /**
+   * Add text signatures such as "transfer(address,uint256)", e.g. an export of the 4byte directory
+   */
+  registerSignatures(table: SignatureTable): void {
+    const entries: [string | undefined, string][] = Array.isArray(table)
+      ? table.map((signature) => [undefined, signature])
+      : Object.entries(table).flatMap(([selector, signatures]) =>
+        (typeof signatures === "string" ? [signatures] : signatures).map((s): [string, string] => [selector, s]));
+
+    for (const [expectedSelector, signature] of entries) {
+      let item: AbiFunction;
+      try {
+        item = parseAbiItem(signature.startsWith("function ") ? signature : `function ${signature}`) as AbiFunction;
+      } catch {
+        throw new Error(`Invalid function signature: "${signature}"`);
+      }
+      const selector = toFunctionSelector(item);
+      if (expectedSelector && expectedSelector.toLowerCase() !== selector) {
+        throw new Error(`Signature "${signature}" has selector ${selector}, not ${expectedSelector}`);
+      }
+      const existing = this.signatures.functions.get(selector) ?? [];
+      if (!existing.some((candidate) => toFunctionSignature(candidate) === toFunctionSignature(item))) {
+        this.signatures.functions.set(selector, [...existing, item]);
+      }
+    }
+  }
+
+  /**
+   * Set the symbol (and decimals or standard) shown for a token or collection
+   */
+  registerToken(address: Address | string, label: TokenLabel): void {
+    this.tokens.set(address.toLowerCase(), label);
+  }
+
+  getToken(address: Address | string): TokenLabel | undefined {
+    return this.tokens.get(address.toLowerCase());
+  }
+
+  /**
+   * Decode calldata sent to `to`; null when it is empty or no ABI matches
+   * @param accountAddress The MultiLevelAccount, so calls to itself decode with its ABI
+   */
+  decode(to: Address | string, data: Hex | string, accountAddress?: Address | string): DecodedCall | null {
+    if (data.length < 10) {
+      return null;
+    }
+    const selector = data.slice(0, 10).toLowerCase();
+    const isSelfCall = accountAddress !== undefined && accountAddress.toLowerCase() === to.toLowerCase();
+    const builtins = this.getToken(to)?.standard === "ERC721"
+      ? [ERC721, ERC20, ERC1155, LEVEL, MULTI_LEVEL_ACCOUNT]
+      : [ERC20, ERC721, ERC1155, LEVEL, MULTI_LEVEL_ACCOUNT];
+
+    const candidates = [
+      ...(this.addressAbis.get(to.toLowerCase()) ?? []),
+      ...(isSelfCall ? [MULTI_LEVEL_ACCOUNT] : []),
+      ...this.globalAbis,
+      ...builtins,
+      this.signatures
+    ];
+
+    for (const abi of candidates) {
+      for (const item of abi.functions.get(selector) ?? []) {
+        try {
+          const { args } = decodeFunctionData({ abi: [item], data: data as Hex });
+          return {
+            functionName: item.name,
+            signature: toFunctionSignature(item),
+            selector: selector as Hex,
+            args: item.inputs.map((input, i) => ({
+              name: input.name || undefined,
+              type: input.type,
+              value: (args ?? [])[i]
+            })),
+            abiName: abi.name
+          };
+        } catch {
+          // Same selector, different parameters
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Decode a call and describe it in plain English
+   * Batches (executeBatchCalls) are described call by call.
+   */
+  describe(
+    to: Address | string,
+    value: bigint,
+    data: Hex | string,
+    accountAddress?: Address | string
+  ): CallDescription {
+    const decoded = this.decode(to, data, accountAddress);
+    if (decoded?.abiName === "MultiLevelAccount" && decoded.functionName === "executeBatchCalls") {
+      const [targets, values, calldatas] = decoded.args.map((arg) => arg.value) as [Address[], bigint[], Hex[]];
+      const calls = targets.map((target, i) =>
+        `${i + 1}. ${this.describe(target, values[i], calldatas[i], accountAddress).summary}`);
+      return { decoded, summary: `Execute a batch of ${targets.length} call(s): ${calls.join("; ")}` };
+    }
+    return {
+      decoded,
+      summary: summarizeCall(to as Address, value, data as Hex, decoded, this.getToken(to))
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import type { Address, Hex } from "viem";
+import { formatEther, formatUnits, getAddress, maxUint256 } from "viem";
+import type { DecodedCall, TokenLabel } from "../types";
+import { formatDuration } from "../policy/amountPolicy";
+
+/**
+ * Plain-English description of a call
+ * Well-known token and MultiLevelAccount functions get specific wording; anything
+ * else is described by its function name and arguments.
+ */
+export function summarizeCall(
+  to: Address,
+  value: bigint,
+  data: Hex,
+  decoded: DecodedCall | null,
+  token?: TokenLabel
+): string {
+  const target = getAddress(to);
+  const sending = value > 0n ? `, sending ${formatEther(value)} ETH` : "";
+
+  if (data.length < 10) {
+    return value > 0n ? `Send ${formatEther(value)} ETH to ${target}` : `Call ${target} without data`;
+  }
+  if (!decoded) {
+    return `Call unknown function ${data.slice(0, 10)} on ${target}${sending}`;
+  }
+
+  const specific = describeKnown(decoded, decoded.args.map((arg) => arg.value), target, token);
+  if (specific) {
+    return specific + sending;
+  }
+
+  const formatted = decoded.args.map((arg) => formatValue(arg.value)).join(", ");
+  return `Call ${decoded.functionName}(${formatted}) on ${target}${sending}`;
+}
+
+function describeKnown(decoded: DecodedCall, args: any[], target: Address, token?: TokenLabel): string | undefined {
+  const collection = token?.symbol ?? target;
+  const tokenAmount = (amount: bigint) => {
+    if (!token) return `${amount} units of token ${target}`;
+    return token.decimals !== undefined
+      ? `${formatUnits(amount, token.decimals)} ${token.symbol}`
+      : `${amount} ${token.symbol}`;
+  };
+  const isNft = decoded.abiName === "ERC721";
+
+  switch (decoded.signature) {
+    case "transfer(address,uint256)":
+      return `Transfer ${tokenAmount(args[1])} to ${args[0]}`;
+    case "transferFrom(address,address,uint256)":
+      return isNft
+        ? `Transfer NFT #${args[2]} of ${collection} from ${args[0]} to ${args[1]}`
+        : `Transfer ${tokenAmount(args[2])} from ${args[0]} to ${args[1]}`;
+    case "approve(address,uint256)":
+      if (isNft) return `Approve ${args[0]} to transfer NFT #${args[1]} of ${collection}`;
+      if (args[1] === 0n) return `Revoke ${args[0]}'s allowance for ${token?.symbol ?? `token ${target}`}`;
+      if (args[1] === maxUint256) return `Approve ${args[0]} to spend unlimited ${token?.symbol ?? `amounts of token ${target}`}`;
+      return `Approve ${args[0]} to spend ${tokenAmount(args[1])}`;
+    case "safeTransferFrom(address,address,uint256)":
+    case "safeTransferFrom(address,address,uint256,bytes)":
+      return `Transfer NFT #${args[2]} of ${collection} from ${args[0]} to ${args[1]}`;
+    case "safeTransferFrom(address,address,uint256,uint256,bytes)":
+      return `Transfer ${args[3]} of token #${args[2]} of ${collection} from ${args[0]} to ${args[1]}`;
+    case "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)":
+      return `Transfer ${args[2].length} token type(s) of ${collection} from ${args[0]} to ${args[1]}`;
+    case "setApprovalForAll(address,bool)":
+      return args[1]
+        ? `Allow ${args[0]} to transfer all tokens of ${collection}`
+        : `Revoke ${args[0]}'s approval for all tokens of ${collection}`;
+  }
+
+  // The account ABI decodes calls to any contract, so name the target
+  if (decoded.abiName === "MultiLevelAccount") {
+    switch (decoded.functionName) {
+      case "configureAmountRange": {
+        const [min, max, levelIds, quorums, timelocks] = args as [bigint, bigint, bigint[], bigint[], bigint[]];
+        const levels = levelIds.map((id, i) =>
+          `level ${id} (${quorums[i]} signature(s), ${timelocks[i] === 0n ? "no" : formatDuration(timelocks[i])} timelock)`).join(", ");
+        const upper = max === maxUint256 ? "unlimited" : `${formatEther(max)} ETH`;
+        return `Configure amounts ${formatEther(min)} ETH to ${upper} on account ${target} to require ${levels}`;
+      }
+      case "removeAmountRange":
+        return `Remove amount range #${args[0]} from account ${target}`;
+      case "addLevel":
+        return `Add level contract ${args[0]} to account ${target}`;
+      case "updateLevel":
+        return `Replace level ${args[0]} of account ${target} with contract ${args[1]}`;
+    }
+  }
+
+  if (decoded.abiName === "Level") {
+    switch (decoded.functionName) {
+      case "addSigner":
+        return `Add signer ${args[0]} to level contract ${target}`;
+      case "removeSigner":
+        return `Remove signer ${args[0]} from level contract ${target}`;
+    }
+  }
+
+  return undefined;
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{ ${Object.entries(value).map(([key, v]) => `${key}: ${formatValue(v)}`).join(", ")} }`;
+  }
+  return String(value);
+}
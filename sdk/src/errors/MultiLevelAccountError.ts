@@ -0,0 +1,101 @@
+import type { Hex } from "viem";
+
+interface ErrorDetails {
+  args?: readonly unknown[];
+  data?: Hex;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors surfaced by the SDK
+ * `errorName` is the Solidity error name (e.g. "NoConfigForAmount") or a generic label
+ */
+export class MultiLevelAccountError extends Error {
+  readonly errorName: string;
+  readonly args: readonly unknown[];
+  readonly data?: Hex;
+  readonly cause?: unknown;
+
+  constructor(message: string, errorName: string, details: ErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.errorName = errorName;
+    this.args = details.args ?? [];
+    this.data = details.data;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Custom error raised by MultiLevelAccount
+ */
+export class AccountContractError extends MultiLevelAccountError {}
+
+/**
+ * Custom error raised by a Level contract
+ */
+export class LevelContractError extends MultiLevelAccountError {}
+
+/**
+ * MultiLevelAccount.TransactionFailed(bytes) with the target's revert decoded
+ */
+export class TransactionFailedError extends AccountContractError {
+  readonly returnData: Hex;
+  readonly innerError: MultiLevelAccountError | null;
+
+  constructor(
+    message: string,
+    returnData: Hex,
+    innerError: MultiLevelAccountError | null,
+    details: ErrorDetails = {}
+  ) {
+    super(message, "TransactionFailed", details);
+    this.returnData = returnData;
+    this.innerError = innerError;
+  }
+}
+
+/**
+ * EntryPoint failure (FailedOp, FailedOpWithRevert or an AAxx reason from a bundler)
+ */
+export class EntryPointError extends MultiLevelAccountError {
+  readonly aaCode?: string;
+  readonly opIndex?: bigint;
+  readonly innerError?: MultiLevelAccountError;
+
+  constructor(
+    message: string,
+    errorName: string,
+    extra: { aaCode?: string; opIndex?: bigint; innerError?: MultiLevelAccountError } = {},
+    details: ErrorDetails = {}
+  ) {
+    super(message, errorName, details);
+    this.aaCode = extra.aaCode;
+    this.opIndex = extra.opIndex;
+    this.innerError = extra.innerError;
+  }
+}
+
+/**
+ * UserOperation was included but did not succeed, or was rejected by the bundler
+ */
+export class UserOperationFailedError extends MultiLevelAccountError {
+  readonly userOpHash?: Hex;
+  readonly transactionHash?: Hex;
+  readonly reason: MultiLevelAccountError | null;
+
+  constructor(
+    message: string,
+    reason: MultiLevelAccountError | null,
+    extra: { userOpHash?: Hex; transactionHash?: Hex } = {}
+  ) {
+    super(message, reason?.errorName ?? "UserOperationFailed", {
+      args: reason?.args,
+      data: reason?.data,
+      cause: reason ?? undefined
+    });
+    this.reason = reason;
+    this.userOpHash = extra.userOpHash;
+    this.transactionHash = extra.transactionHash;
+  }
+}
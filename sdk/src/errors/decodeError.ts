@@ -0,0 +1,228 @@
+import type { Abi, Hex } from "viem";
+import { decodeErrorResult } from "viem";
+import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI, ENTRY_POINT_ABI } from "../contracts/abis";
+import {
+  MultiLevelAccountError,
+  AccountContractError,
+  LevelContractError,
+  TransactionFailedError,
+  EntryPointError
+} from "./MultiLevelAccountError";
+
+const ACCOUNT_ERROR_MESSAGES: Record<string, string> = {
+  OnlyEntryPoint: "Only the EntryPoint can call this function",
+  InvalidSignature: "Invalid signature",
+  InvalidAmount: "Invalid amount",
+  NoConfigForAmount: "No amount range configured for this transaction amount. " +
+    "Configure one with configureAmountRange() before proposing",
+  LevelMismatch: "Level approval does not match the transaction's current level",
+  NotFullyApproved: "Transaction has not been approved by all required levels",
+  TransactionFailed: "Target call reverted during execution",
+  InvalidConfiguration: "Invalid configuration (array length mismatch, minAmount > maxAmount, " +
+    "unknown level or level id mismatch)",
+  Unauthorized: "Caller is not authorized",
+  InvalidBatch: "Batch is empty or its arrays have different lengths",
+  BatchCallFailed: "Batch call reverted",
+  OwnableUnauthorizedAccount: "Caller is not the account owner",
+  OwnableInvalidOwner: "Invalid owner",
+  ECDSAInvalidSignature: "Invalid ECDSA signature",
+  ECDSAInvalidSignatureLength: "Invalid ECDSA signature length",
+  ECDSAInvalidSignatureS: "Invalid ECDSA signature 's' value"
+};
+
+const LEVEL_ERROR_MESSAGES: Record<string, string> = {
+  NotAuthorized: "Caller is not the MultiLevelAccount, or the required quorum is invalid",
+  NotSigner: "Caller or approval signer is not a signer at this level",
+  NotSubmitted: "Transaction has not been submitted to this level",
+  AlreadySigned: "Signer has already signed this transaction",
+  AlreadyDenied: "Transaction has already been denied at this level",
+  TransactionDenied: "Transaction was denied at this level",
+  QuorumNotReached: "Quorum has not been reached at this level",
+  TimelockActive: "Timelock has not started or has not expired yet",
+  AlreadyApproved: "Transaction is already approved at this level",
+  InvalidSigner: "Invalid signer (zero address, duplicate, not a signer, or the last remaining signer)",
+  InvalidApprovalsLength: "Approvals must be one or more 65-byte signatures"
+};
+
+/**
+ * EntryPoint v0.7 AAxx reason codes
+ */
+export const ENTRY_POINT_AA_CODES: Record<string, string> = {
+  AA10: "Sender already constructed (remove initCode)",
+  AA13: "initCode failed or ran out of gas",
+  AA14: "initCode must return the sender address",
+  AA15: "initCode must create the sender",
+  AA20: "Account not deployed (and no initCode)",
+  AA21: "Account didn't pay prefund (insufficient balance or deposit)",
+  AA22: "Validation expired or not yet due",
+  AA23: "Account validateUserOp reverted",
+  AA24: "Signature error (must be signed by the account owner)",
+  AA25: "Invalid account nonce",
+  AA26: "Over verificationGasLimit",
+  AA30: "Paymaster not deployed",
+  AA31: "Paymaster deposit too low",
+  AA32: "Paymaster validation expired or not yet due",
+  AA33: "Paymaster validatePaymasterUserOp reverted",
+  AA34: "Paymaster signature error",
+  AA36: "Over paymasterVerificationGasLimit",
+  AA40: "Over verificationGasLimit",
+  AA41: "Too little verificationGas",
+  AA50: "Paymaster postOp reverted",
+  AA51: "Prefund below actualGasCost",
+  AA90: "Invalid beneficiary",
+  AA91: "Failed to send to beneficiary",
+  AA92: "Internal call only",
+  AA93: "Invalid paymasterAndData",
+  AA94: "Gas values overflow",
+  AA95: "Out of gas",
+  AA96: "Invalid aggregator"
+};
+
+const AA_CODE_PATTERN = /\bAA\d\d\b/;
+
+function describeAaReason(reason: string): { aaCode?: string; message: string } {
+  const match = reason.match(AA_CODE_PATTERN);
+  if (!match) {
+    return { message: reason };
+  }
+  const description = ENTRY_POINT_AA_CODES[match[0]];
+  return {
+    aaCode: match[0],
+    message: description ? `${reason}: ${description}` : reason
+  };
+}
+
+/**
+ * Decode raw revert data from MultiLevelAccount, Level or the EntryPoint into a typed error
+ * Nested TransactionFailed / FailedOpWithRevert data is decoded recursively.
+ */
+export function decodeRevertData(data: Hex): MultiLevelAccountError {
+  if (!data || data === "0x") {
+    return new MultiLevelAccountError("Execution reverted without a reason", "EmptyRevert", { data });
+  }
+
+  const sources: Abi[] = [MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI, ENTRY_POINT_ABI];
+
+  for (const abi of sources) {
+    let decoded: { errorName: string; args?: readonly unknown[] };
+    try {
+      decoded = decodeErrorResult({ abi, data }) as { errorName: string; args?: readonly unknown[] };
+    } catch {
+      continue;
+    }
+
+    const { errorName } = decoded;
+    const args = decoded.args ?? [];
+    const details = { args, data };
+
+    // Error(string) and Panic(uint256) decode against any ABI
+    if (errorName === "Error") {
+      const reason = String(args[0] ?? "");
+      const aa = describeAaReason(reason);
+      if (aa.aaCode) {
+        return new EntryPointError(aa.message, "FailedOp", { aaCode: aa.aaCode }, details);
+      }
+      return new MultiLevelAccountError(`Reverted: ${reason}`, "Error", details);
+    }
+    if (errorName === "Panic") {
+      return new MultiLevelAccountError(`Panic: code ${String(args[0])}`, "Panic", details);
+    }
+
+    if (abi === MULTI_LEVEL_ACCOUNT_ABI) {
+      if (errorName === "TransactionFailed") {
+        const returnData = (args[0] ?? "0x") as Hex;
+        const innerError = returnData !== "0x" ? decodeRevertData(returnData) : null;
+        const message = innerError
+          ? `${ACCOUNT_ERROR_MESSAGES.TransactionFailed}: ${innerError.message}`
+          : `${ACCOUNT_ERROR_MESSAGES.TransactionFailed} without a reason`;
+        return new TransactionFailedError(message, returnData, innerError, details);
+      }
+      if (errorName === "BatchCallFailed") {
+        const returnData = (args[1] ?? "0x") as Hex;
+        const reason = returnData !== "0x" ? decodeRevertData(returnData).message : "no reason";
+        return new AccountContractError(
+          `${ACCOUNT_ERROR_MESSAGES.BatchCallFailed} at index ${String(args[0])}: ${reason}`,
+          errorName,
+          details
+        );
+      }
+      return new AccountContractError(
+        `${errorName}: ${ACCOUNT_ERROR_MESSAGES[errorName] ?? "MultiLevelAccount reverted"}`,
+        errorName,
+        details
+      );
+    }
+
+    if (abi === LEVEL_ABI) {
+      return new LevelContractError(
+        `${errorName}: ${LEVEL_ERROR_MESSAGES[errorName] ?? "Level reverted"}`,
+        errorName,
+        details
+      );
+    }
+
+    if (errorName === "FailedOp" || errorName === "FailedOpWithRevert") {
+      const aa = describeAaReason(String(args[1] ?? ""));
+      const inner = errorName === "FailedOpWithRevert" ? args[2] as Hex : undefined;
+      const innerError = inner && inner !== "0x" ? decodeRevertData(inner) : undefined;
+      return new EntryPointError(
+        innerError ? `${aa.message} (${innerError.message})` : aa.message,
+        errorName,
+        { aaCode: aa.aaCode, opIndex: BigInt(args[0] as bigint), innerError },
+        details
+      );
+    }
+    return new EntryPointError(`${errorName}: EntryPoint reverted`, errorName, {}, details);
+  }
+
+  return new MultiLevelAccountError(
+    `Unknown revert data (selector ${data.slice(0, 10)})`,
+    "Unknown",
+    { data }
+  );
+}
+
+/**
+ * Find raw revert data in a (viem) error and its cause chain
+ */
+export function extractRevertData(error: unknown): Hex | undefined {
+  const isHex = (value: unknown): value is Hex =>
+    typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value) && value.length >= 10;
+
+  let current: any = error;
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (isHex(current.raw)) return current.raw;
+    if (isHex(current.data)) return current.data;
+    if (current.data && isHex(current.data.data)) return current.data.data;
+    current = current.cause;
+  }
+  return undefined;
+}
+
+/**
+ * Convert any error thrown while talking to the contracts or a bundler into a MultiLevelAccountError
+ */
+export function decodeError(error: unknown): MultiLevelAccountError {
+  if (error instanceof MultiLevelAccountError) {
+    return error;
+  }
+
+  const data = extractRevertData(error);
+  if (data) {
+    const decoded = decodeRevertData(data);
+    if (decoded.errorName !== "Unknown") {
+      (decoded as { cause?: unknown }).cause = error;
+      return decoded;
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  // Bundlers report validation failures as "AAxx ..." strings in JSON-RPC errors
+  const aa = describeAaReason(message);
+  if (aa.aaCode) {
+    return new EntryPointError(aa.message, "FailedOp", { aaCode: aa.aaCode }, { data, cause: error });
+  }
+
+  return new MultiLevelAccountError(message, "Unknown", { data, cause: error });
+}
@@ -0,0 +1,2 @@
+export * from "./MultiLevelAccountError";
+export * from "./decodeError";
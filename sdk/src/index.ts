@@ -1,9 +1,46 @@
 // SDK Barrel Export
 export { MultiLevelAccountSDK } from "./MultiLevelAccountSDK";
+export { MultiLevelAccountFactoryClient } from "./MultiLevelAccountFactoryClient";
+export { PortfolioClient } from "./PortfolioClient";
 export { SignerInterface } from "./SignerInterface";
-export { EventMonitor } from "./EventMonitor";
+export { SignerInbox } from "./SignerInbox";
+export { EventMonitor, type TransactionStatusCallback } from "./EventMonitor";
+export { TransactionHistory, type TransactionHistoryOptions } from "./TransactionHistory";
+export { Keeper } from "./Keeper";
+export { EventIndexer, type EventIndexerOptions } from "./indexer/EventIndexer";
+export { MemoryEventStore } from "./indexer/MemoryEventStore";
+export { FileEventStore } from "./indexer/FileEventStore";
+export { SqliteEventStore, type SqliteDatabase } from "./indexer/SqliteEventStore";
 export { UserOpBuilder } from "./UserOpBuilder";
-export { MultiLevelAccountPlugin } from "./plugins/MultiLevelAccountPlugin";
+export {
+  MultiLevelAccountPlugin,
+  type MultiLevelAccountExecuteParams,
+  type MultiLevelAccountBatchParams
+} from "./plugins/MultiLevelAccountPlugin";
+export { RpcPaymaster } from "./paymasters/RpcPaymaster";
+export { VerifyingPaymasterSigner, type VerifyingPaymasterOptions } from "./paymasters/VerifyingPaymasterSigner";
+export { StaticPriceSource } from "./amounts/StaticPriceSource";
+export { CalldataDecoder } from "./decoding/CalldataDecoder";
+
+// Utilities
+export { diffTransactionStatus } from "./utils/statusDiff";
+export { deriveTransactionState } from "./utils/transactionState";
+export { validateSignerChange } from "./utils/signerChanges";
+export { parsePolicy, parseDuration, formatDuration, diffPolicy } from "./policy/amountPolicy";
+export { validateAmountRanges } from "./policy/validatePolicy";
+export { decodeAssetMovements, computeRoutingAmount, checkDeclaredAmount } from "./amounts/routingAmount";
+export { simulateCall } from "./utils/simulation";
+export { summarizeCall } from "./decoding/summarizeCall";
+export {
+  LEVEL_APPROVAL_TYPES,
+  getLevelApprovalTypedData,
+  hashLevelApproval,
+  verifyLevelApproval,
+  encodeLevelApprovals
+} from "./utils/levelApprovals";
+
+// Errors
+export * from "./errors";
 
 // Types
 export * from "./types";
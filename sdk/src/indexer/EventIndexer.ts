@@ -0,0 +1,149 @@
+import type { AbiEvent, Address, PublicClient } from "viem";
+import { EventStore, IndexCheckpoint, IndexedLog, IndexedLogFilter } from "../types";
+import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI } from "../contracts/abis";
+import { MemoryEventStore } from "./MemoryEventStore";
+import { getLevelContracts } from "../utils/accountReads";
+
+const DEFAULT_CHUNK_SIZE = 5_000n;
+
+const INDEXED_EVENTS = [
+  ...MULTI_LEVEL_ACCOUNT_ABI.filter((e) => e.type === "event"),
+  ...LEVEL_ABI.filter((e) => e.type === "event")
+] as AbiEvent[];
+
+export interface EventIndexerOptions {
+  /** Block to start indexing from, ideally the account's deployment block (default 0) */
+  fromBlock?: bigint;
+  /** Maximum block range per eth_getLogs request (default 5,000) */
+  chunkSize?: bigint;
+}
+
+/**
+ * Incrementally indexes MultiLevelAccount and Level events into an EventStore
+ * Each sync() only scans blocks after the stored checkpoint.
+ */
+export class EventIndexer {
+  private accountAddress: Address;
+  private publicClient: PublicClient;
+  private store: EventStore;
+  private fromBlock: bigint;
+  private chunkSize: bigint;
+  private syncing: Promise<bigint> | null = null;
+
+  constructor(
+    accountAddress: Address | string,
+    publicClient: PublicClient,
+    store: EventStore = new MemoryEventStore(),
+    options: EventIndexerOptions = {}
+  ) {
+    this.accountAddress = accountAddress as Address;
+    this.publicClient = publicClient;
+    this.store = store;
+    this.fromBlock = options.fromBlock ?? 0n;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (this.chunkSize <= 0n) {
+      throw new Error("chunkSize must be positive");
+    }
+  }
+
+  /**
+   * Index new blocks up to latest; concurrent calls share one sync
+   * Returns the last indexed block.
+   */
+  async sync(): Promise<bigint> {
+    if (!this.syncing) {
+      this.syncing = this._sync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Sync, then read matching logs from the store
+   */
+  async getLogs(filter: IndexedLogFilter = {}): Promise<IndexedLog[]> {
+    await this.sync();
+    return this.store.getLogs(filter);
+  }
+
+  async getCheckpoint(): Promise<IndexCheckpoint | null> {
+    return this.store.getCheckpoint();
+  }
+
+  private async _sync(): Promise<bigint> {
+    const latest = await this.publicClient.getBlockNumber({ cacheTime: 0 });
+    let checkpoint = await this.store.getCheckpoint();
+
+    if (checkpoint) {
+      checkpoint = await this._handleReorg(checkpoint);
+    }
+
+    const start = checkpoint ? checkpoint.blockNumber + 1n : this.fromBlock;
+    if (start > latest) {
+      return checkpoint?.blockNumber ?? latest;
+    }
+
+    const levels = await getLevelContracts(this.publicClient, this.accountAddress);
+    const addresses = [this.accountAddress, ...levels.keys()] as Address[];
+
+    for (let chunkStart = start; chunkStart <= latest; chunkStart += this.chunkSize) {
+      const chunkEnd = chunkStart + this.chunkSize - 1n < latest ? chunkStart + this.chunkSize - 1n : latest;
+      const [logs, endBlock] = await Promise.all([
+        this.publicClient.getLogs({
+          address: addresses,
+          events: INDEXED_EVENTS,
+          fromBlock: chunkStart,
+          toBlock: chunkEnd
+        }),
+        this.publicClient.getBlock({ blockNumber: chunkEnd })
+      ]);
+
+      const indexed: IndexedLog[] = [];
+      for (const log of logs as any[]) {
+        if (!log.eventName) {
+          continue;
+        }
+        indexed.push({
+          address: (log.address as string).toLowerCase(),
+          eventName: log.eventName,
+          args: log.args ?? {},
+          blockNumber: BigInt(log.blockNumber ?? 0n),
+          blockHash: log.blockHash,
+          logIndex: Number(log.logIndex ?? 0),
+          transactionHash: log.transactionHash
+        });
+      }
+
+      await this.store.saveLogs(indexed, { blockNumber: chunkEnd, blockHash: endBlock.hash as string });
+    }
+
+    return latest;
+  }
+
+  /**
+   * If the checkpoint block was replaced, walk the stored checkpoints back to
+   * the newest one still on the chain (the fork point) and drop everything after it
+   * A reorg deeper than every stored checkpoint re-indexes from fromBlock.
+   */
+  private async _handleReorg(checkpoint: IndexCheckpoint): Promise<IndexCheckpoint | null> {
+    if (await this._isCanonical(checkpoint)) {
+      return checkpoint;
+    }
+
+    for (const candidate of await this.store.getCheckpoints()) {
+      if (candidate.blockNumber < checkpoint.blockNumber && await this._isCanonical(candidate)) {
+        await this.store.rollback(candidate);
+        return candidate;
+      }
+    }
+
+    await this.store.rollback(null);
+    return null;
+  }
+
+  private async _isCanonical(checkpoint: IndexCheckpoint): Promise<boolean> {
+    const block = await this.publicClient.getBlock({ blockNumber: checkpoint.blockNumber }).catch(() => null);
+    return block?.hash === checkpoint.blockHash;
+  }
+}
@@ -0,0 +1,74 @@
+import { IndexCheckpoint, IndexedLog, IndexedLogFilter } from "../types";
+import { MemoryEventStore } from "./MemoryEventStore";
+import { parseJson, stringifyJson } from "./bigintJson";
+
+interface FileContents {
+  checkpoints: IndexCheckpoint[];
+  logs: IndexedLog[];
+}
+
+/**
+ * JSON file-backed EventStore for Node.js
+ * Loaded on first access and rewritten (via a temp file + rename) on every change.
+ */
+export class FileEventStore extends MemoryEventStore {
+  private filePath: string;
+  private loaded = false;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  async getCheckpoint(): Promise<IndexCheckpoint | null> {
+    await this._load();
+    return super.getCheckpoint();
+  }
+
+  async getCheckpoints(): Promise<IndexCheckpoint[]> {
+    await this._load();
+    return super.getCheckpoints();
+  }
+
+  async saveLogs(logs: IndexedLog[], checkpoint: IndexCheckpoint): Promise<void> {
+    await this._load();
+    await super.saveLogs(logs, checkpoint);
+    await this._persist();
+  }
+
+  async getLogs(filter: IndexedLogFilter = {}): Promise<IndexedLog[]> {
+    await this._load();
+    return super.getLogs(filter);
+  }
+
+  async rollback(checkpoint: IndexCheckpoint | null): Promise<void> {
+    await this._load();
+    await super.rollback(checkpoint);
+    await this._persist();
+  }
+
+  private async _load(): Promise<void> {
+    if (this.loaded) return;
+    const fs = await import("fs/promises");
+
+    try {
+      const contents = parseJson<FileContents>(await fs.readFile(this.filePath, "utf-8"));
+      this.logs = contents.logs ?? [];
+      this.checkpoints = contents.checkpoints ?? [];
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw new Error(`Failed to load event store ${this.filePath}: ${error?.message ?? error}`);
+      }
+    }
+    this.loaded = true;
+  }
+
+  private async _persist(): Promise<void> {
+    const fs = await import("fs/promises");
+    const contents: FileContents = { checkpoints: this.checkpoints, logs: this.logs };
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await fs.writeFile(tmpPath, stringifyJson(contents));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,59 @@
+import { EventStore, IndexCheckpoint, IndexedLog, IndexedLogFilter } from "../types";
+
+/** Checkpoints kept for reorg recovery; a reorg past all of them re-indexes from the start */
+export const MAX_CHECKPOINTS = 128;
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value : [value]).map((v) => v.toLowerCase());
+}
+
+/**
+ * In-memory EventStore; contents are lost when the process exits
+ */
+export class MemoryEventStore implements EventStore {
+  protected logs: IndexedLog[] = [];
+  /** Oldest first */
+  protected checkpoints: IndexCheckpoint[] = [];
+
+  async getCheckpoint(): Promise<IndexCheckpoint | null> {
+    return this.checkpoints[this.checkpoints.length - 1] ?? null;
+  }
+
+  async getCheckpoints(): Promise<IndexCheckpoint[]> {
+    return [...this.checkpoints].reverse();
+  }
+
+  async saveLogs(logs: IndexedLog[], checkpoint: IndexCheckpoint): Promise<void> {
+    this.logs.push(...logs);
+    this.logs.sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber ? -1 : 1
+    );
+    this.checkpoints.push(checkpoint);
+    this.checkpoints = this.checkpoints.slice(-MAX_CHECKPOINTS);
+  }
+
+  async getLogs(filter: IndexedLogFilter = {}): Promise<IndexedLog[]> {
+    const addresses = toList(filter.address);
+    const eventNames = filter.eventName === undefined
+      ? undefined
+      : Array.isArray(filter.eventName) ? filter.eventName : [filter.eventName];
+    const txHash = filter.txHash?.toLowerCase();
+
+    return this.logs.filter((log) =>
+      (!addresses || addresses.includes(log.address)) &&
+      (!eventNames || eventNames.includes(log.eventName)) &&
+      (!txHash || String(log.args.txHash ?? "").toLowerCase() === txHash) &&
+      (filter.fromBlock === undefined || log.blockNumber >= filter.fromBlock) &&
+      (filter.toBlock === undefined || log.blockNumber <= filter.toBlock)
+    );
+  }
+
+  async rollback(checkpoint: IndexCheckpoint | null): Promise<void> {
+    const lastBlock = checkpoint?.blockNumber ?? -1n;
+    this.logs = this.logs.filter((log) => log.blockNumber <= lastBlock);
+    this.checkpoints = this.checkpoints.filter((c) => c.blockNumber <= lastBlock);
+  }
+}
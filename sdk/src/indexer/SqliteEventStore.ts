@@ -0,0 +1,191 @@
+import { EventStore, IndexCheckpoint, IndexedLog, IndexedLogFilter } from "../types";
+import { MAX_CHECKPOINTS } from "./MemoryEventStore";
+import { parseJson, stringifyJson } from "./bigintJson";
+
+/**
+ * Synchronous SQLite handle, as provided by better-sqlite3 or node:sqlite's DatabaseSync
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: any[]): unknown;
+    all(...params: any[]): unknown[];
+  };
+}
+
+interface LogRow {
+  address: string;
+  event_name: string;
+  args: string;
+  block_number: number | bigint;
+  block_hash: string;
+  log_index: number | bigint;
+  transaction_hash: string;
+}
+
+interface CheckpointRow {
+  block_number: number | bigint;
+  block_hash: string;
+}
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * SQLite-backed EventStore for Node.js
+ * Tables are created on first access; use a different tablePrefix per account
+ * to keep several accounts in one database.
+ */
+export class SqliteEventStore implements EventStore {
+  private db: SqliteDatabase;
+  private logsTable: string;
+  private checkpointsTable: string;
+  private initialized = false;
+
+  constructor(db: SqliteDatabase, tablePrefix: string = "mla") {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix: ${tablePrefix}`);
+    }
+    this.db = db;
+    this.logsTable = `${tablePrefix}_logs`;
+    this.checkpointsTable = `${tablePrefix}_checkpoints`;
+  }
+
+  async getCheckpoint(): Promise<IndexCheckpoint | null> {
+    return (await this.getCheckpoints())[0] ?? null;
+  }
+
+  async getCheckpoints(): Promise<IndexCheckpoint[]> {
+    this._init();
+    const rows = this.db
+      .prepare(`SELECT block_number, block_hash FROM ${this.checkpointsTable} ORDER BY block_number DESC`)
+      .all() as CheckpointRow[];
+    return rows.map((row) => ({ blockNumber: BigInt(row.block_number), blockHash: row.block_hash }));
+  }
+
+  async saveLogs(logs: IndexedLog[], checkpoint: IndexCheckpoint): Promise<void> {
+    this._init();
+    const insertLog = this.db.prepare(
+      `INSERT OR REPLACE INTO ${this.logsTable}
+        (block_number, log_index, address, event_name, tx_hash, args, block_hash, transaction_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    this._transaction(() => {
+      for (const log of logs) {
+        const txHash = log.args.txHash === undefined ? null : String(log.args.txHash).toLowerCase();
+        insertLog.run(
+          log.blockNumber,
+          log.logIndex,
+          log.address.toLowerCase(),
+          log.eventName,
+          txHash,
+          stringifyJson(log.args),
+          log.blockHash,
+          log.transactionHash
+        );
+      }
+      this.db
+        .prepare(`INSERT OR REPLACE INTO ${this.checkpointsTable} (block_number, block_hash) VALUES (?, ?)`)
+        .run(checkpoint.blockNumber, checkpoint.blockHash);
+      this.db
+        .prepare(
+          `DELETE FROM ${this.checkpointsTable} WHERE block_number NOT IN
+            (SELECT block_number FROM ${this.checkpointsTable} ORDER BY block_number DESC LIMIT ?)`
+        )
+        .run(MAX_CHECKPOINTS);
+    });
+  }
+
+  async getLogs(filter: IndexedLogFilter = {}): Promise<IndexedLog[]> {
+    this._init();
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const addresses = toList(filter.address)?.map((a) => a.toLowerCase());
+    if (addresses) {
+      conditions.push(`address IN (${addresses.map(() => "?").join(", ") || "NULL"})`);
+      params.push(...addresses);
+    }
+    const eventNames = toList(filter.eventName);
+    if (eventNames) {
+      conditions.push(`event_name IN (${eventNames.map(() => "?").join(", ") || "NULL"})`);
+      params.push(...eventNames);
+    }
+    if (filter.txHash) {
+      conditions.push("tx_hash = ?");
+      params.push(filter.txHash.toLowerCase());
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push("block_number >= ?");
+      params.push(filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      conditions.push("block_number <= ?");
+      params.push(filter.toBlock);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(
+        `SELECT address, event_name, args, block_number, block_hash, log_index, transaction_hash
+          FROM ${this.logsTable} ${where} ORDER BY block_number, log_index`
+      )
+      .all(...params) as LogRow[];
+
+    return rows.map((row) => ({
+      address: row.address,
+      eventName: row.event_name,
+      args: parseJson<Record<string, unknown>>(row.args),
+      blockNumber: BigInt(row.block_number),
+      blockHash: row.block_hash,
+      logIndex: Number(row.log_index),
+      transactionHash: row.transaction_hash
+    }));
+  }
+
+  async rollback(checkpoint: IndexCheckpoint | null): Promise<void> {
+    this._init();
+    const lastBlock = checkpoint?.blockNumber ?? -1n;
+    this._transaction(() => {
+      this.db.prepare(`DELETE FROM ${this.logsTable} WHERE block_number > ?`).run(lastBlock);
+      this.db.prepare(`DELETE FROM ${this.checkpointsTable} WHERE block_number > ?`).run(lastBlock);
+    });
+  }
+
+  private _init(): void {
+    if (this.initialized) return;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.logsTable} (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        address TEXT NOT NULL,
+        event_name TEXT NOT NULL,
+        tx_hash TEXT,
+        args TEXT NOT NULL,
+        block_hash TEXT NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+      );
+      CREATE INDEX IF NOT EXISTS ${this.logsTable}_tx_hash ON ${this.logsTable} (tx_hash);
+      CREATE TABLE IF NOT EXISTS ${this.checkpointsTable} (
+        block_number INTEGER PRIMARY KEY,
+        block_hash TEXT NOT NULL
+      );
+    `);
+    this.initialized = true;
+  }
+
+  private _transaction(fn: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
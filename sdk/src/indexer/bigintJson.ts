@@ -0,0 +1,20 @@
+const BIGINT_TAG = "__bigint";
+
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? { [BIGINT_TAG]: value.toString() } : value;
+}
+
+function reviver(_key: string, value: any): unknown {
+  return value && typeof value === "object" && typeof value[BIGINT_TAG] === "string"
+    ? BigInt(value[BIGINT_TAG])
+    : value;
+}
+
+/** JSON.stringify that round-trips bigints through parseJson */
+export function stringifyJson(value: unknown): string {
+  return JSON.stringify(value, replacer);
+}
+
+export function parseJson<T>(text: string): T {
+  return JSON.parse(text, reviver) as T;
+}
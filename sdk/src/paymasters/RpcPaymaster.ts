@@ -0,0 +1,81 @@
+import type { Hex } from "viem";
+import type { PackedUserOperation, PaymasterProvider, PaymasterSponsorship } from "../types";
+import { toRpcUserOp } from "../utils/userOpPacking";
+
+/**
+ * Paymaster backed by a sponsorship service
+ * Calls `pm_sponsorUserOperation` (EntryPoint v0.7 schema) on the given URL
+ */
+export class RpcPaymaster implements PaymasterProvider {
+  private url: string;
+  private context?: Record<string, unknown>;
+  private method: string;
+
+  constructor(
+    url: string,
+    context?: Record<string, unknown>,
+    method: string = "pm_sponsorUserOperation"
+  ) {
+    this.url = url;
+    this.context = context;
+    this.method = method;
+  }
+
+  async sponsorUserOperation(
+    userOp: PackedUserOperation,
+    entryPointAddress: string
+  ): Promise<PaymasterSponsorship> {
+    const params: unknown[] = [toRpcUserOp(userOp), entryPointAddress];
+    if (this.context) {
+      params.push(this.context);
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: this.method,
+        params
+      })
+    });
+
+    const result = (await response.json()) as {
+      error?: { message?: string; code?: number };
+      result?: {
+        paymaster: Hex;
+        paymasterVerificationGasLimit: Hex;
+        paymasterPostOpGasLimit: Hex;
+        paymasterData: Hex;
+        preVerificationGas?: Hex;
+        verificationGasLimit?: Hex;
+        callGasLimit?: Hex;
+      };
+    };
+
+    if (result.error) {
+      const codeStr = typeof result.error.code === "number" ? ` code=${result.error.code}` : "";
+      throw new Error(`[${this.method}] ${result.error.message || "Paymaster error"}${codeStr}`);
+    }
+
+    if (!result.result || !result.result.paymaster) {
+      throw new Error(`[${this.method}] No sponsorship returned by paymaster`);
+    }
+
+    const sponsored = result.result;
+    const optional = (value?: Hex) => (value !== undefined ? BigInt(value) : undefined);
+
+    return {
+      paymaster: sponsored.paymaster,
+      paymasterVerificationGasLimit: BigInt(sponsored.paymasterVerificationGasLimit),
+      paymasterPostOpGasLimit: BigInt(sponsored.paymasterPostOpGasLimit),
+      paymasterData: sponsored.paymasterData ?? "0x",
+      gasLimits: {
+        preVerificationGas: optional(sponsored.preVerificationGas),
+        verificationGasLimit: optional(sponsored.verificationGasLimit),
+        callGasLimit: optional(sponsored.callGasLimit)
+      }
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import type { Address, Hex, PublicClient, WalletClient } from "viem";
+import { concat, encodeAbiParameters } from "viem";
+import type { PackedUserOperation, PaymasterProvider, PaymasterSponsorship } from "../types";
+import { DUMMY_SIGNATURE, packPaymasterAndData } from "../utils/userOpPacking";
+
+const VERIFYING_PAYMASTER_ABI = [
+  {
+    type: "function",
+    name: "getHash",
+    stateMutability: "view",
+    inputs: [
+      {
+        name: "userOp",
+        type: "tuple",
+        components: [
+          { name: "sender", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "initCode", type: "bytes" },
+          { name: "callData", type: "bytes" },
+          { name: "accountGasLimits", type: "bytes32" },
+          { name: "preVerificationGas", type: "uint256" },
+          { name: "gasFees", type: "bytes32" },
+          { name: "paymasterAndData", type: "bytes" },
+          { name: "signature", type: "bytes" },
+        ],
+      },
+      { name: "validUntil", type: "uint48" },
+      { name: "validAfter", type: "uint48" },
+    ],
+    outputs: [{ name: "", type: "bytes32" }],
+  },
+] as const;
+
+export interface VerifyingPaymasterOptions {
+  /** Sponsorship validity window in seconds (default 1 hour) */
+  validForSeconds?: number;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+}
+
+/**
+ * Signs sponsorships for a VerifyingPaymaster (eth-infinitism v0.7 layout)
+ * paymasterData = abi.encode(validUntil, validAfter) || signature over getHash(...)
+ * The wallet client must hold the paymaster's verifying signer key.
+ */
+export class VerifyingPaymasterSigner implements PaymasterProvider {
+  private paymasterAddress: Address;
+  private publicClient: PublicClient;
+  private signerClient: WalletClient;
+  private options: Required<VerifyingPaymasterOptions>;
+
+  constructor(
+    paymasterAddress: Address | string,
+    publicClient: PublicClient,
+    signerClient: WalletClient,
+    options: VerifyingPaymasterOptions = {}
+  ) {
+    this.paymasterAddress = paymasterAddress as Address;
+    this.publicClient = publicClient;
+    this.signerClient = signerClient;
+    this.options = {
+      validForSeconds: options.validForSeconds ?? 3600,
+      paymasterVerificationGasLimit: options.paymasterVerificationGasLimit ?? 100000n,
+      paymasterPostOpGasLimit: options.paymasterPostOpGasLimit ?? 0n
+    };
+  }
+
+  /**
+   * Same-length paymasterData with a dummy signature, for gas estimation
+   */
+  async getPaymasterStubData(
+    _userOp: PackedUserOperation,
+    _entryPointAddress: string
+  ): Promise<PaymasterSponsorship> {
+    const validUntil = Math.floor(Date.now() / 1000) + this.options.validForSeconds;
+    const timeRange = encodeAbiParameters(
+      [{ type: "uint48" }, { type: "uint48" }],
+      [validUntil, 0]
+    );
+
+    return {
+      paymaster: this.paymasterAddress,
+      paymasterVerificationGasLimit: this.options.paymasterVerificationGasLimit,
+      paymasterPostOpGasLimit: this.options.paymasterPostOpGasLimit,
+      paymasterData: concat([timeRange, DUMMY_SIGNATURE]),
+    };
+  }
+
+  async sponsorUserOperation(
+    userOp: PackedUserOperation,
+    _entryPointAddress: string
+  ): Promise<PaymasterSponsorship> {
+    const [account] = await this.signerClient.getAddresses();
+    if (!account) {
+      throw new Error("No account found in paymaster signer client");
+    }
+
+    const validUntil = Math.floor(Date.now() / 1000) + this.options.validForSeconds;
+    const validAfter = 0;
+    const timeRange = encodeAbiParameters(
+      [{ type: "uint48" }, { type: "uint48" }],
+      [validUntil, validAfter]
+    );
+
+    // getHash covers the paymaster gas limits, so hash the op with them in place
+    const fields = {
+      paymaster: this.paymasterAddress,
+      paymasterVerificationGasLimit: this.options.paymasterVerificationGasLimit,
+      paymasterPostOpGasLimit: this.options.paymasterPostOpGasLimit,
+    };
+
+    const hash = await this.publicClient.readContract({
+      address: this.paymasterAddress,
+      abi: VERIFYING_PAYMASTER_ABI,
+      functionName: "getHash",
+      args: [
+        {
+          sender: userOp.sender as Address,
+          nonce: userOp.nonce,
+          initCode: userOp.initCode as Hex,
+          callData: userOp.callData as Hex,
+          accountGasLimits: userOp.accountGasLimits as Hex,
+          preVerificationGas: userOp.preVerificationGas,
+          gasFees: userOp.gasFees as Hex,
+          paymasterAndData: packPaymasterAndData({ ...fields, paymasterData: timeRange }),
+          signature: userOp.signature as Hex,
+        },
+        validUntil,
+        validAfter,
+      ],
+    });
+
+    const signature = await this.signerClient.signMessage({
+      account,
+      message: { raw: hash },
+    });
+
+    return {
+      ...fields,
+      paymasterData: concat([timeRange, signature]),
+    };
+  }
+}
@@ -1,6 +1,11 @@
-import { encodeFunctionData, type Address, type Hex } from "viem";
+import { concat, encodeFunctionData, type Address, type Hex } from "viem";
 import type { PublicClient } from "viem";
-import { MULTI_LEVEL_ACCOUNT_ABI } from "../contracts/abis";
+import {
+  CONFIGURED_ACCOUNT_FACTORY_ABI,
+  MULTI_LEVEL_ACCOUNT_ABI,
+  MULTI_LEVEL_ACCOUNT_FACTORY_ABI
+} from "../contracts/abis";
+import type { AccountInitConfig, UserOpGasLimits } from "../types";
 
 /**
  * Parameters for executing a transaction on MultiLevelAccount
@@ -10,6 +15,25 @@ export interface MultiLevelAccountExecuteParams {
   value: bigint;
   data: Hex;
   amount: bigint;
+  /** Fixed gas values; estimation is skipped for the fields given */
+  gasOverrides?: Partial<UserOpGasLimits>;
+  /** Multiplier applied to estimated gas limits (default 1.2) */
+  gasMultiplier?: number;
+  /** EntryPoint nonce key (default 0); UserOps with distinct keys can be included in any order */
+  nonceKey?: bigint;
+}
+
+/**
+ * Parameters for proposing a batch of calls via executeBatch
+ */
+export interface MultiLevelAccountBatchParams {
+  calls: { to: Address; value: bigint; data: Hex; amount: bigint }[];
+  /** Fixed gas values; estimation is skipped for the fields given */
+  gasOverrides?: Partial<UserOpGasLimits>;
+  /** Multiplier applied to estimated gas limits (default 1.2) */
+  gasMultiplier?: number;
+  /** EntryPoint nonce key (default 0); UserOps with distinct keys can be included in any order */
+  nonceKey?: bigint;
 }
 
 /**
@@ -44,6 +68,65 @@ export class MultiLevelAccountPlugin {
     });
   }
 
+  /**
+   * Encode executeBatch function call for MultiLevelAccount
+   */
+  encodeExecuteBatch(params: MultiLevelAccountBatchParams): Hex {
+    return encodeFunctionData({
+      abi: MULTI_LEVEL_ACCOUNT_ABI,
+      functionName: "executeBatch",
+      args: [
+        params.calls.map((call) => call.to),
+        params.calls.map((call) => call.value),
+        params.calls.map((call) => call.data),
+        params.calls.map((call) => call.amount)
+      ]
+    });
+  }
+
+  /**
+   * Check whether the account contract has been deployed
+   */
+  async isDeployed(): Promise<boolean> {
+    const code = await this.publicClient.getCode({ address: this.accountAddress });
+    return code !== undefined && code !== "0x";
+  }
+
+  /**
+   * Compute the counterfactual account address via the config's factory
+   */
+  async computeAccountAddress(config: AccountInitConfig): Promise<Address> {
+    return await this.publicClient.readContract({
+      address: config.factoryAddress as Address,
+      ...this._factoryCall(config),
+      functionName: "computeAccountAddress"
+    }) as Address;
+  }
+
+  /**
+   * Encode ERC-4337 initCode (factory address + createAccount calldata)
+   */
+  encodeInitCode(config: AccountInitConfig): Hex {
+    const factoryData = encodeFunctionData({
+      ...this._factoryCall(config),
+      functionName: "createAccount"
+    });
+    return concat([config.factoryAddress as Address, factoryData]);
+  }
+
+  /**
+   * ABI and arguments shared by the factory's createAccount and computeAccountAddress
+   * ConfiguredAccountFactory takes the initial ranges before the salt.
+   */
+  private _factoryCall(config: AccountInitConfig): { abi: typeof MULTI_LEVEL_ACCOUNT_FACTORY_ABI; args: unknown[] } {
+    const owner = config.owner as Address;
+    const levelSigners = config.levelSigners.map(signers => signers.map(s => s as Address));
+    if (!config.ranges) {
+      return { abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI, args: [owner, levelSigners, config.salt] };
+    }
+    return { abi: CONFIGURED_ACCOUNT_FACTORY_ABI, args: [owner, levelSigners, config.ranges, config.salt] };
+  }
+
   /**
    * Get the current nonce for the account from EntryPoint
    * ERC-4337 requires using EntryPoint's nonce manager, not the account's internal nonce
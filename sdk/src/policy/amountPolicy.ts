@@ -0,0 +1,157 @@
+import { maxUint256, parseUnits } from "viem";
+import { load } from "js-yaml";
+import type { AmountPolicyInput, AmountRange, PolicyPlan, PolicyStep } from "../types";
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parse a duration such as "90s", "30m", "2h", "1d" or "1h30m" into seconds
+ * Numbers are taken as seconds.
+ */
+export function parseDuration(duration: string | number): bigint {
+  if (typeof duration === "number") {
+    if (!Number.isInteger(duration) || duration < 0) {
+      throw new Error(`Invalid duration: ${duration}`);
+    }
+    return BigInt(duration);
+  }
+
+  const value = duration.trim().toLowerCase();
+  if (/^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  if (value === "" || !/^(\d+[smhdw])+$/.test(value)) {
+    throw new Error(`Invalid duration: "${duration}"`);
+  }
+
+  let seconds = 0n;
+  for (const [, amount, unit] of value.matchAll(/(\d+)([smhdw])/g)) {
+    seconds += BigInt(amount) * BigInt(DURATION_UNITS[unit]);
+  }
+  return seconds;
+}
+
+/**
+ * Format seconds as a duration such as "1h30m", the inverse of parseDuration
+ */
+export function formatDuration(seconds: bigint | number): string {
+  let rest = BigInt(seconds);
+  if (rest === 0n) return "0s";
+  const units: [bigint, string][] = [[86400n, "d"], [3600n, "h"], [60n, "m"], [1n, "s"]];
+  let formatted = "";
+  for (const [size, unit] of units) {
+    if (rest >= size) {
+      formatted += `${rest / size}${unit}`;
+      rest %= size;
+    }
+  }
+  return formatted;
+}
+
+/**
+ * Parse a YAML or JSON amount policy (or an already-parsed object) into amount ranges
+ */
+export function parsePolicy(source: string | AmountPolicyInput): AmountRange[] {
+  const policy = (typeof source === "string" ? load(source) : source) as AmountPolicyInput;
+  if (!policy || !Array.isArray(policy.ranges)) {
+    throw new Error("Policy must have a ranges list");
+  }
+
+  const decimals = { ether: 18, gwei: 9, wei: 0 }[policy.unit ?? "ether"];
+  if (decimals === undefined) {
+    throw new Error(`Unknown policy unit: ${policy.unit}`);
+  }
+  const toAmount = (value: string | number): bigint => {
+    if (typeof value === "string" && ["max", "unlimited"].includes(value.trim().toLowerCase())) {
+      return maxUint256;
+    }
+    return parseUnits(String(value).replace(/_/g, ""), decimals);
+  };
+
+  return policy.ranges.map((range, i) => {
+    if (!Array.isArray(range.levels) || range.levels.length === 0) {
+      throw new Error(`Policy range ${i} must list at least one level`);
+    }
+    const minAmount = toAmount(range.min);
+    const maxAmount = toAmount(range.max);
+    if (minAmount > maxAmount) {
+      throw new Error(`Policy range ${i}: min is greater than max`);
+    }
+    for (const level of range.levels) {
+      if (!Number.isInteger(level.id) || level.id < 1 || !Number.isInteger(level.quorum) || level.quorum < 1) {
+        throw new Error(`Policy range ${i}: levels need a positive integer id and quorum`);
+      }
+    }
+
+    return {
+      minAmount,
+      maxAmount,
+      levelIds: range.levels.map((level) => BigInt(level.id)),
+      quorums: range.levels.map((level) => BigInt(level.quorum)),
+      timelocks: range.levels.map((level) => parseDuration(level.timelock ?? 0))
+    };
+  });
+}
+
+/**
+ * Minimal steps converging the on-chain ranges to the desired ones
+ * New ranges are configured before stale ones are removed, so amounts stay covered.
+ * Removal indices follow the contract's swap-and-sort, assuming steps execute in order.
+ */
+export function diffPolicy(current: readonly AmountRange[], desired: readonly AmountRange[]): PolicyPlan {
+  const remaining = [...desired];
+  const stale: AmountRange[] = [];
+  const unchanged: AmountRange[] = [];
+
+  for (const range of current) {
+    const match = remaining.findIndex((candidate) => rangesEqual(candidate, range));
+    if (match >= 0) {
+      unchanged.push(range);
+      remaining.splice(match, 1);
+    } else {
+      stale.push(range);
+    }
+  }
+
+  const steps: PolicyStep[] = [];
+  const model = [...current];
+
+  for (const range of remaining) {
+    steps.push({ type: "configureAmountRange", range });
+    model.push(range);
+    sortRanges(model);
+  }
+
+  for (const range of stale) {
+    const index = model.indexOf(range);
+    steps.push({ type: "removeAmountRange", index, range });
+    model[index] = model[model.length - 1];
+    model.pop();
+    sortRanges(model);
+  }
+
+  return { steps, unchanged };
+}
+
+function rangesEqual(a: AmountRange, b: AmountRange): boolean {
+  const same = (x: readonly bigint[], y: readonly bigint[]) =>
+    x.length === y.length && x.every((v, i) => BigInt(v) === BigInt(y[i]));
+  return BigInt(a.minAmount) === BigInt(b.minAmount) &&
+    BigInt(a.maxAmount) === BigInt(b.maxAmount) &&
+    same(a.levelIds, b.levelIds) &&
+    same(a.quorums, b.quorums) &&
+    same(a.timelocks, b.timelocks);
+}
+
+/**
+ * Mirror of MultiLevelAccount._sortAmountRanges
+ */
+function sortRanges(ranges: AmountRange[]): void {
+  for (let i = 0; i < ranges.length; i++) {
+    for (let j = i + 1; j < ranges.length; j++) {
+      if (ranges[i].minAmount > ranges[j].minAmount) {
+        [ranges[i], ranges[j]] = [ranges[j], ranges[i]];
+      }
+    }
+  }
+}
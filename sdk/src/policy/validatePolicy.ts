@@ -0,0 +1,197 @@
+import { maxUint256 } from "viem";
+import type {
+  AmountInterval,
+  AmountRange,
+  PolicyIssue,
+  PolicyReport,
+  PolicyValidationOptions
+} from "../types";
+
+/**
+ * Validate amount ranges offline: coverage gaps and overlaps, unknown levels,
+ * quorums above a level's signer count, zero timelocks on high tiers and
+ * approval that weakens as amounts grow
+ */
+export function validateAmountRanges(
+  ranges: readonly AmountRange[],
+  options: PolicyValidationOptions = {}
+): PolicyReport {
+  const issues: PolicyIssue[] = [];
+  const signerCounts = options.signerCounts instanceof Map
+    ? options.signerCounts
+    : options.signerCounts
+      ? new Map(Object.entries(options.signerCounts).map(([id, count]) => [Number(id), count]))
+      : undefined;
+
+  const wellFormed: number[] = [];
+  ranges.forEach((range, rangeIndex) => {
+    const structural = checkStructure(range);
+    if (structural) {
+      issues.push({ code: "invalidRange", severity: "error", message: `Range ${rangeIndex}: ${structural}`, rangeIndex });
+      return;
+    }
+    wellFormed.push(rangeIndex);
+
+    range.levelIds.forEach((id, i) => {
+      const levelId = Number(id);
+      const quorum = Number(range.quorums[i]);
+      if (!signerCounts) return;
+      const signerCount = signerCounts.get(levelId);
+      if (signerCount === undefined) {
+        issues.push({
+          code: "unknownLevel",
+          severity: "error",
+          message: `Range ${rangeIndex} requires level ${levelId}, which does not exist`,
+          rangeIndex,
+          levelId
+        });
+      } else if (quorum > signerCount) {
+        issues.push({
+          code: "quorumExceedsSigners",
+          severity: "error",
+          message: `Range ${rangeIndex} requires ${quorum} signatures at level ${levelId}, which has ${signerCount} signer(s)`,
+          rangeIndex,
+          levelId
+        });
+      }
+    });
+  });
+
+  // Sorted the way the contract keeps them
+  const sorted = wellFormed.sort((a, b) =>
+    ranges[a].minAmount < ranges[b].minAmount ? -1 : ranges[a].minAmount > ranges[b].minAmount ? 1 : a - b
+  );
+
+  const covered: AmountInterval[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const range = ranges[sorted[i]];
+    const last = covered[covered.length - 1];
+
+    for (let j = 0; j < i; j++) {
+      const earlier = ranges[sorted[j]];
+      if (range.minAmount <= earlier.maxAmount) {
+        const toAmount = range.maxAmount < earlier.maxAmount ? range.maxAmount : earlier.maxAmount;
+        issues.push({
+          code: "overlap",
+          severity: "warning",
+          message: `Ranges ${sorted[j]} and ${sorted[i]} overlap from ${range.minAmount} to ${toAmount}; ` +
+            `range ${sorted[j]} is used for those amounts`,
+          rangeIndex: sorted[i],
+          otherRangeIndex: sorted[j],
+          fromAmount: range.minAmount,
+          toAmount
+        });
+      }
+    }
+
+    if (last && range.minAmount <= last.maxAmount + 1n) {
+      if (range.maxAmount > last.maxAmount) last.maxAmount = range.maxAmount;
+    } else {
+      covered.push({ minAmount: range.minAmount, maxAmount: range.maxAmount });
+    }
+  }
+
+  const gaps = findGaps(covered);
+  for (const gap of gaps) {
+    issues.push({
+      code: "gap",
+      severity: "error",
+      message: `No range covers ${gap.minAmount} to ${gap.maxAmount}; proposals fail with NoConfigForAmount`,
+      fromAmount: gap.minAmount,
+      toAmount: gap.maxAmount
+    });
+  }
+
+  if (sorted.length > 0) {
+    const highTierMinAmount = options.highTierMinAmount ?? ranges[sorted[sorted.length - 1]].minAmount;
+    for (const rangeIndex of sorted) {
+      const range = ranges[rangeIndex];
+      if (range.minAmount < highTierMinAmount) continue;
+      range.timelocks.forEach((timelock, i) => {
+        if (BigInt(timelock) === 0n) {
+          issues.push({
+            code: "zeroTimelock",
+            severity: "warning",
+            message: `High-tier range ${rangeIndex} has no timelock at level ${Number(range.levelIds[i])}`,
+            rangeIndex,
+            levelId: Number(range.levelIds[i])
+          });
+        }
+      });
+    }
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    const lower = ranges[sorted[i - 1]];
+    const higher = ranges[sorted[i]];
+    const weaker = weakerLevels(lower, higher);
+    if (weaker.length > 0) {
+      issues.push({
+        code: "nonMonotonicApproval",
+        severity: "warning",
+        message: `Range ${sorted[i]} covers larger amounts than range ${sorted[i - 1]} but ${weaker.join("; ")}`,
+        rangeIndex: sorted[i],
+        otherRangeIndex: sorted[i - 1]
+      });
+    }
+  }
+
+  return {
+    valid: !issues.some((issue) => issue.severity === "error"),
+    issues,
+    covered,
+    gaps
+  };
+}
+
+function checkStructure(range: AmountRange): string | undefined {
+  if (range.levelIds.length !== range.quorums.length || range.levelIds.length !== range.timelocks.length) {
+    return "levelIds, quorums and timelocks have different lengths";
+  }
+  if (range.minAmount > range.maxAmount) {
+    return "minAmount is greater than maxAmount";
+  }
+  if (range.levelIds.length === 0) {
+    return "no levels";
+  }
+  if (range.quorums.some((q) => BigInt(q) === 0n)) {
+    return "a quorum is zero";
+  }
+  return undefined;
+}
+
+function findGaps(covered: readonly AmountInterval[]): AmountInterval[] {
+  const gaps: AmountInterval[] = [];
+  let next = 0n;
+  for (const interval of covered) {
+    if (interval.minAmount > next) {
+      gaps.push({ minAmount: next, maxAmount: interval.minAmount - 1n });
+    }
+    next = interval.maxAmount + 1n;
+  }
+  if (next <= maxUint256) {
+    gaps.push({ minAmount: next, maxAmount: maxUint256 });
+  }
+  return gaps;
+}
+
+/**
+ * Ways the higher range requires less than the lower one at a level
+ */
+function weakerLevels(lower: AmountRange, higher: AmountRange): string[] {
+  const reasons: string[] = [];
+  lower.levelIds.forEach((id, i) => {
+    const j = higher.levelIds.findIndex((other) => BigInt(other) === BigInt(id));
+    if (j < 0) {
+      reasons.push(`does not require level ${Number(id)}`);
+      return;
+    }
+    if (BigInt(higher.quorums[j]) < BigInt(lower.quorums[i])) {
+      reasons.push(`needs fewer signatures at level ${Number(id)}`);
+    }
+    if (BigInt(higher.timelocks[j]) < BigInt(lower.timelocks[i])) {
+      reasons.push(`has a shorter timelock at level ${Number(id)}`);
+    }
+  });
+  return reasons;
+}
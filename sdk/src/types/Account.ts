@@ -0,0 +1,34 @@
+import type { AmountRange } from "./Transaction";
+
+export interface CreatedLevel {
+  levelId: bigint;
+  levelAddress: string;
+  signers: string[];
+}
+
+export interface AccountCreationResult {
+  accountAddress: string;
+  owner: string;
+  levelIds: bigint[];
+  levels: CreatedLevel[];
+  transactionHash: string;
+  blockNumber: bigint;
+}
+
+/**
+ * Amount ranges installed when a counterfactual account is deployed
+ */
+export interface InitialRanges {
+  /** ConfiguredAccountFactory deployed for this client's factory */
+  configuredFactoryAddress: string;
+  ranges: AmountRange[];
+}
+
+/**
+ * Routes configuration changes through proposeTransaction as self-calls
+ */
+export interface ConfigGovernanceOptions {
+  /** Amount used to route configuration proposals; defaults to the highest range's minAmount */
+  routingAmount?: bigint;
+  bundlerUrl?: string;
+}
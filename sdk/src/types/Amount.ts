@@ -0,0 +1,75 @@
+import type { Address } from "viem";
+
+export type AssetMovementKind =
+  | "native"
+  | "erc20Transfer"
+  | "erc20TransferFrom"
+  | "erc20Approve"
+  | "wethDeposit"
+  | "wethWithdraw";
+
+/**
+ * Value moved by a call, decoded from its value and calldata
+ * `amount` is in the asset's smallest unit; token is undefined for native value.
+ */
+export interface AssetMovement {
+  kind: AssetMovementKind;
+  token?: Address;
+  /** Source for transferFrom */
+  from?: Address;
+  /** Recipient, or spender for approve */
+  to?: Address;
+  amount: bigint;
+}
+
+/**
+ * Price and decimals of a token
+ * `price` is the wei value of one whole token (10^decimals units).
+ */
+export interface TokenQuote {
+  decimals: number;
+  price: bigint;
+}
+
+/**
+ * Source of token quotes used to normalize transfers into wei
+ */
+export interface TokenPriceSource {
+  /** undefined when the token is unknown */
+  getQuote(token: Address): Promise<TokenQuote | undefined>;
+}
+
+export interface PricedMovement extends AssetMovement {
+  /** Wei value, rounded up; undefined when no quote is available */
+  value?: bigint;
+}
+
+export interface RoutingAmount {
+  /** Sum of priced movements in wei */
+  amount: bigint;
+  movements: PricedMovement[];
+  /** Movements without a quote; `amount` understates the call when non-empty */
+  unpriced: PricedMovement[];
+}
+
+export interface RoutingAmountOptions {
+  /** Contracts whose deposit() and withdraw(uint256) are treated as WETH wrap/unwrap */
+  wethAddresses?: readonly (Address | string)[];
+}
+
+/**
+ * How proposeTransaction treats a declared amount below the computed one
+ * "refuse" also rejects calls moving tokens the price source cannot quote.
+ */
+export type AmountCheckMode = "warn" | "refuse";
+
+export interface AmountCheckOptions extends RoutingAmountOptions {
+  priceSource: TokenPriceSource;
+  mode?: AmountCheckMode;
+}
+
+export interface AmountCheckResult extends RoutingAmount {
+  declared: bigint;
+  /** declared is below the computed amount, or some movements could not be priced */
+  understated: boolean;
+}
@@ -0,0 +1,21 @@
+/**
+ * What a signer approves off-chain: EIP-712 type
+ * Approval(address account,uint256 levelId,bytes32 txHash,uint256 chainId),
+ * domain { name: "MultiLevelAccount Level", version: "1", chainId, verifyingContract: level }
+ */
+export interface LevelApproval {
+  account: string;
+  levelId: bigint;
+  txHash: string;
+  chainId: bigint;
+}
+
+/**
+ * An off-chain approval, ready to hand to a relayer
+ */
+export interface SignedLevelApproval extends LevelApproval {
+  levelAddress: string;
+  signer: string;
+  /** 65-byte signature over the typed data */
+  signature: string;
+}
@@ -0,0 +1,53 @@
+import type { Address, Hex } from "viem";
+
+export interface DecodedArgument {
+  /** Undefined for ABIs from signature tables, which carry no parameter names */
+  name?: string;
+  type: string;
+  value: unknown;
+}
+
+/**
+ * Function call decoded from calldata
+ */
+export interface DecodedCall {
+  functionName: string;
+  /** Canonical signature, e.g. "transfer(address,uint256)" */
+  signature: string;
+  selector: Hex;
+  args: DecodedArgument[];
+  /** Name of the matching ABI: a built-in ("ERC20", "ERC721", "ERC1155", "MultiLevelAccount", "Level"), the name given to registerAbi, or "signatures" */
+  abiName: string;
+}
+
+export interface CallDescription {
+  /** null for plain value transfers and unknown selectors */
+  decoded: DecodedCall | null;
+  /** Plain-English description of the call */
+  summary: string;
+}
+
+export type TokenStandard = "ERC20" | "ERC721" | "ERC1155";
+
+/**
+ * Display metadata for a token or collection used in summaries
+ */
+export interface TokenLabel {
+  symbol: string;
+  /** ERC-20 decimals; amounts are shown in raw units without them */
+  decimals?: number;
+  /** Resolves selectors shared by ERC-20 and ERC-721 (default "ERC20") */
+  standard?: TokenStandard;
+}
+
+export interface RegisterAbiOptions {
+  /** Shown as DecodedCall.abiName (default "custom") */
+  name?: string;
+  /** Only use the ABI for calls to this address */
+  address?: Address | string;
+}
+
+/**
+ * 4byte-style signature table: text signatures, or a map of selector to signatures
+ */
+export type SignatureTable = readonly string[] | Record<string, string | readonly string[]>;
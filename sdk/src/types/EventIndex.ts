@@ -0,0 +1,46 @@
+/**
+ * Decoded MultiLevelAccount or Level log held by an EventStore
+ */
+export interface IndexedLog {
+  /** Lowercase emitting contract address */
+  address: string;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+}
+
+/**
+ * Last block processed by the indexer; the hash is used to detect reorgs
+ */
+export interface IndexCheckpoint {
+  blockNumber: bigint;
+  blockHash: string;
+}
+
+export interface IndexedLogFilter {
+  address?: string | string[];
+  eventName?: string | string[];
+  /** Matches the indexed `txHash` argument */
+  txHash?: string;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+}
+
+/**
+ * Storage backend for EventIndexer (one store per account)
+ */
+export interface EventStore {
+  /** Latest checkpoint */
+  getCheckpoint(): Promise<IndexCheckpoint | null>;
+  /** Recent checkpoints, newest first; walked back to find a reorg's fork point */
+  getCheckpoints(): Promise<IndexCheckpoint[]>;
+  /** Append logs and advance the checkpoint together */
+  saveLogs(logs: IndexedLog[], checkpoint: IndexCheckpoint): Promise<void>;
+  /** Logs matching the filter, ordered by block and log index */
+  getLogs(filter?: IndexedLogFilter): Promise<IndexedLog[]>;
+  /** Delete logs and checkpoints after the checkpoint, or everything if null (reorg recovery) */
+  rollback(checkpoint: IndexCheckpoint | null): Promise<void>;
+}
@@ -0,0 +1,48 @@
+interface AccountEventBase {
+  txHash: string;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: string;
+}
+
+/**
+ * Typed MultiLevelAccount / Level event emitted by EventMonitor.watchEvents
+ */
+export type AccountEvent =
+  | AccountEventBase & {
+    type: "proposed";
+    to: string;
+    value: bigint;
+    amount: bigint;
+    levelIds: number[];
+    quorums: number[];
+  }
+  | AccountEventBase & { type: "submitted"; levelId: number; requiredQuorum: number; timelockDuration: bigint }
+  | AccountEventBase & {
+    type: "signed";
+    levelId: number;
+    signer: string;
+    signatureCount: number;
+    requiredQuorum: number;
+  }
+  /** Emitted with the signature that reaches the level's quorum */
+  | AccountEventBase & { type: "quorumReached"; levelId: number }
+  | AccountEventBase & { type: "timelockStarted"; levelId: number; timelockEnd: bigint }
+  | AccountEventBase & { type: "levelCompleted"; levelId: number; currentIndex: number }
+  | AccountEventBase & { type: "readyForExecution" }
+  | AccountEventBase & { type: "executed"; to: string; value: bigint }
+  | AccountEventBase & { type: "denied"; levelId: number; denier: string };
+
+export type AccountEventType = AccountEvent["type"];
+
+export interface WatchEventsOptions {
+  /** Only emit events for this transaction */
+  txHash?: string;
+  /** Only emit these event types */
+  types?: AccountEventType[];
+  /** Force block polling even when the transport supports subscriptions */
+  poll?: boolean;
+  /** Polling interval in ms when subscriptions are unavailable (default 2000) */
+  pollingInterval?: number;
+  onError?: (error: Error) => void;
+}
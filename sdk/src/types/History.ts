@@ -0,0 +1,73 @@
+export type TransactionOutcome = "pending" | "readyForExecution" | "executed" | "denied";
+
+export type HistoryEventType =
+  | "proposed"
+  | "signed"
+  | "quorumReached"
+  | "levelDenied"
+  | "levelCompleted"
+  | "readyForExecution"
+  | "executed"
+  | "denied";
+
+/**
+ * A single on-chain event in a transaction's lifecycle
+ */
+export interface HistoryEvent {
+  type: HistoryEventType;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: string;
+  levelId?: number;
+  /** Signer for "signed", denier for "levelDenied" / "denied" */
+  actor?: string;
+  signatureCount?: number;
+  requiredQuorum?: number;
+  timelockEnd?: bigint;
+}
+
+export interface LevelHistory {
+  levelId: number;
+  requiredQuorum: number;
+  signers: string[];
+  quorumReached: boolean;
+  timelockEnd?: bigint;
+  completed: boolean;
+  deniedBy?: string;
+}
+
+/**
+ * Full lifecycle of a proposed transaction, rebuilt from logs
+ * Available after execution or denial, when contract storage has been deleted
+ */
+export interface TransactionHistoryEntry {
+  txHash: string;
+  to: string;
+  value: bigint;
+  amount: bigint;
+  outcome: TransactionOutcome;
+  proposedAtBlock: bigint;
+  finalizedAtBlock?: bigint;
+  levels: LevelHistory[];
+  events: HistoryEvent[];
+}
+
+export interface TransactionHistoryQuery {
+  /** First block to scan (defaults to the service's fromBlock) */
+  fromBlock?: bigint;
+  /** Last block to scan (defaults to latest) */
+  toBlock?: bigint;
+  outcome?: TransactionOutcome | TransactionOutcome[];
+  /** "desc" returns the newest proposals first (default) */
+  order?: "asc" | "desc";
+  offset?: number;
+  limit?: number;
+}
+
+export interface TransactionHistoryPage {
+  entries: TransactionHistoryEntry[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
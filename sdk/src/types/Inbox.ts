@@ -0,0 +1,22 @@
+import type { PendingTransaction } from "./Level";
+
+export interface SignerInboxOptions {
+  /** Only include levels of these accounts */
+  accounts?: string[];
+  /** First block to scan for SignerAdded/SignerRemoved logs (default 0) */
+  fromBlock?: bigint;
+}
+
+/**
+ * A level where the inbox's address is currently a signer
+ */
+export interface SignerLevel {
+  accountAddress: string;
+  levelId: number;
+  levelAddress: string;
+}
+
+/**
+ * A transaction awaiting the inbox signer, with the level it waits at
+ */
+export interface InboxTransaction extends PendingTransaction, SignerLevel {}
@@ -0,0 +1,60 @@
+import type { EventIndexer } from "../indexer/EventIndexer";
+
+/**
+ * A permissionless call the keeper makes on behalf of an account
+ */
+export type KeeperAction =
+  | { type: "completeTimelock"; account: string; txHash: string; levelId: number; levelAddress: string }
+  | { type: "executeApprovedTransaction"; account: string; txHash: string };
+
+/**
+ * - sent: transaction mined without reverting
+ * - simulated: dry run; gas estimation succeeded and nothing was sent
+ * - skipped: no longer needed (already completed, denied or executed) or over the gas cap
+ * - failed: every attempt failed
+ */
+export type KeeperActionStatus = "sent" | "simulated" | "skipped" | "failed";
+
+export interface KeeperActionResult {
+  action: KeeperAction;
+  status: KeeperActionStatus;
+  /** Number of attempts made, including the last one */
+  attempts: number;
+  gasEstimate?: bigint;
+  transactionHash?: string;
+  reason?: string;
+  error?: Error;
+}
+
+/**
+ * A scheduled keeper action
+ */
+export interface KeeperTask {
+  action: KeeperAction;
+  /** Chain timestamp (seconds) at which the action becomes callable */
+  dueAt: bigint;
+  attempts: number;
+}
+
+export interface KeeperOptions {
+  /** Also call executeApprovedTransaction once a transaction is ready (default false) */
+  autoExecute?: boolean;
+  /** Estimate gas and report actions without sending them (default false) */
+  dryRun?: boolean;
+  /** Skip actions whose gas estimate exceeds this */
+  maxGas?: bigint;
+  /** Defer actions while the gas price is above this (wei) */
+  maxGasPrice?: bigint;
+  /** Retries after a failed or deferred attempt (default 3) */
+  retries?: number;
+  /** Delay before a retry in ms (default 15000) */
+  retryDelay?: number;
+  /** Block to scan for pending transactions on start (default: each account's deployment block) */
+  fromBlock?: bigint;
+  /** Event indexes by account address; pending transactions are read from them instead of eth_getLogs */
+  indexers?: Record<string, EventIndexer>;
+  /** Event polling interval in ms when subscriptions are unavailable (default 2000) */
+  pollingInterval?: number;
+  onAction?: (result: KeeperActionResult) => void;
+  onError?: (error: Error) => void;
+}
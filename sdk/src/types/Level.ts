@@ -1,3 +1,6 @@
+import type { ProposalSimulation } from "./Simulation";
+import type { DecodedCall } from "./Decoding";
+
 export interface ApprovalState {
   submitted: boolean;
   requiredQuorum: bigint;
@@ -22,5 +25,95 @@ export interface PendingTransaction {
   signaturesCollected: number;
   signaturesRequired: number;
   timelockRemaining: number;
+  /** Block of the TransactionSubmitted event, when the transaction reached this level */
+  submittedAtBlock: bigint;
+  /** Signers who signed at this level, in signing order */
+  signedBy: string[];
+  /** The signer is on this level, has not signed and the quorum is not yet met */
+  needsMyAction: boolean;
+  /** Quorum is met; the level waits for its timelock and completeTimelock */
+  awaitingTimelock: boolean;
+  /** Function name and arguments; null for plain transfers and unknown selectors */
+  decoded: DecodedCall | null;
+  /** Plain-English description of the call */
+  summary: string;
+  /** Set when requested with { simulate: true } */
+  simulation?: ProposalSimulation;
+}
+
+export interface PendingTransactionOptions {
+  /** Simulate each transaction's call from the account */
+  simulate?: boolean;
+  /** Address needsMyAction is computed for; defaults to the wallet client's account */
+  signer?: string;
+  /** Only transactions where needsMyAction is true */
+  onlyActionable?: boolean;
+  /** Include transactions awaiting their timelock (default true) */
+  includeTimelocked?: boolean;
+}
+
+
+export interface SignerChange {
+  type: "add" | "remove";
+  signer: string;
+}
+
+/**
+ * An amount range whose quorum at a level exceeds that level's signer count
+ */
+export interface UnsatisfiableQuorum {
+  rangeIndex: number;
+  minAmount: bigint;
+  maxAmount: bigint;
+  levelId: number;
+  quorum: number;
+  signerCount: number;
+}
+
+export interface SignerChangeValidation {
+  valid: boolean;
+  /** Why the Level contract would reject the change (duplicate, unknown or last signer) */
+  error?: string;
+  currentSigners: string[];
+  resultingSigners: string[];
+  unsatisfiableQuorums: UnsatisfiableQuorum[];
 }
 
+export interface SignerChangeOptions {
+  /** Amount used to route the proposal; defaults to the highest configured range's minAmount */
+  amount?: bigint;
+  bundlerUrl?: string;
+  /** Propose even if a quorum would become unsatisfiable */
+  force?: boolean;
+}
+
+/**
+ * A proposed Level.addSigner / removeSigner self-call
+ */
+export interface SignerChangeProposal {
+  txHash: string;
+  levelId: number;
+  levelAddress: string;
+  change: SignerChange;
+  /** Encoded addSigner / removeSigner call executed by the account */
+  data: string;
+  amount: bigint;
+  /** Signer set once this proposal is executed */
+  resultingSigners: string[];
+}
+
+/**
+ * A proposed signer rotation: addSigner then removeSigner, executed atomically as one batch
+ */
+export interface SignerRotationProposal {
+  txHash: string;
+  levelId: number;
+  levelAddress: string;
+  /** The add, then the remove */
+  changes: [SignerChange, SignerChange];
+  /** Encoded addSigner and removeSigner calls, in execution order */
+  data: [string, string];
+  amount: bigint;
+  /** Signer set once the batch is executed */
+  resultingSigners: string[];
+}
@@ -0,0 +1,100 @@
+import type { AmountRange } from "./Transaction";
+
+/**
+ * Level requirement in a policy file
+ * timelock is seconds or a duration string such as "90s", "30m", "2h", "1d"
+ */
+export interface PolicyLevelInput {
+  id: number;
+  quorum: number;
+  timelock?: string | number;
+}
+
+/**
+ * Amount range in a policy file
+ * Amounts are decimal strings or numbers in the policy's unit; max also accepts "unlimited"
+ */
+export interface PolicyRangeInput {
+  min: string | number;
+  max: string | number;
+  levels: PolicyLevelInput[];
+}
+
+/**
+ * Declarative amount-range policy, written as YAML or JSON
+ */
+export interface AmountPolicyInput {
+  /** Unit for min/max (default "ether") */
+  unit?: "ether" | "gwei" | "wei";
+  ranges: PolicyRangeInput[];
+}
+
+export type PolicyStep =
+  | { type: "configureAmountRange"; range: AmountRange }
+  /** index is the range's position after all previous steps have executed */
+  | { type: "removeAmountRange"; index: number; range: AmountRange };
+
+export interface PolicyPlan {
+  steps: PolicyStep[];
+  /** On-chain ranges already matching the policy */
+  unchanged: AmountRange[];
+}
+
+export interface ApplyPolicyOptions {
+  /** Compute the plan without sending anything */
+  dryRun?: boolean;
+}
+
+export interface ApplyPolicyResult {
+  plan: PolicyPlan;
+  /** One owner call hash per step, or the batch proposal's txHash under config governance */
+  transactionHashes: string[];
+}
+
+export type PolicyIssueCode =
+  | "invalidRange"
+  | "gap"
+  | "overlap"
+  | "unknownLevel"
+  | "quorumExceedsSigners"
+  | "zeroTimelock"
+  | "nonMonotonicApproval";
+
+/**
+ * A problem found in a set of amount ranges
+ * Errors make proposals fail (NoConfigForAmount, unreachable quorum); warnings are weak or surprising policy.
+ */
+export interface PolicyIssue {
+  code: PolicyIssueCode;
+  severity: "error" | "warning";
+  message: string;
+  /** Index into the validated ranges array */
+  rangeIndex?: number;
+  otherRangeIndex?: number;
+  levelId?: number;
+  /** Affected amounts, inclusive */
+  fromAmount?: bigint;
+  toAmount?: bigint;
+}
+
+export interface AmountInterval {
+  minAmount: bigint;
+  maxAmount: bigint;
+}
+
+export interface PolicyReport {
+  /** No error-severity issues */
+  valid: boolean;
+  issues: PolicyIssue[];
+  /** Covered amounts, merged and sorted */
+  covered: AmountInterval[];
+  /** Amounts in [0, 2^256 - 1] that no range covers */
+  gaps: AmountInterval[];
+}
+
+export interface PolicyValidationOptions {
+  /** Signer count per level id; enables unknown-level and quorum checks */
+  signerCounts?: Map<number, number> | Record<number, number>;
+  /** Ranges starting at or above this amount must have non-zero timelocks (default: the highest range) */
+  highTierMinAmount?: bigint;
+}
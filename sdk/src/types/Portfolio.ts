@@ -0,0 +1,58 @@
+import type { PendingTransaction } from "./Level";
+import type { AmountRange } from "./Transaction";
+
+/**
+ * Narrows the accounts a PortfolioClient discovers
+ * Owner and signer are matched against current on-chain state, so ownership
+ * transfers and signer changes after deployment are taken into account.
+ */
+export interface PortfolioFilter {
+  owner?: string;
+  /** Only accounts where this address is a signer at any level */
+  signer?: string;
+  /** First block to scan for AccountCreated logs (default 0) */
+  fromBlock?: bigint;
+  toBlock?: bigint;
+}
+
+/**
+ * An account deployed by the factory, from its AccountCreated log
+ */
+export interface PortfolioAccount {
+  accountAddress: string;
+  /** Current owner, which may differ from the owner at creation */
+  owner: string;
+  levelIds: bigint[];
+  transactionHash: string;
+  blockNumber: bigint;
+}
+
+export interface PortfolioLevel {
+  levelId: number;
+  levelAddress: string;
+  signers: string[];
+  pending: PendingTransaction[];
+}
+
+export interface PortfolioAccountSummary {
+  accountAddress: string;
+  owner: string;
+  balance: bigint;
+  amountRanges: AmountRange[];
+  levels: PortfolioLevel[];
+}
+
+export interface PortfolioSummary {
+  accounts: PortfolioAccountSummary[];
+  totalBalance: bigint;
+  /** Pending transactions across all accounts, counted once per level they wait at */
+  pendingCount: number;
+}
+
+/**
+ * A transaction waiting on a signer, with the account and level it waits at
+ */
+export interface PortfolioPendingTransaction extends PendingTransaction {
+  accountAddress: string;
+  levelId: number;
+}
@@ -0,0 +1,55 @@
+import type { Address, Hex, StateOverride } from "viem";
+import type { MultiLevelAccountError } from "../errors";
+import type { RoutingAmountOptions } from "./Amount";
+
+export interface SimulationOptions extends RoutingAmountOptions {
+  /** Balances, code or storage to override for the simulated call */
+  stateOverride?: StateOverride;
+  /** Block to simulate against (default: latest) */
+  blockNumber?: bigint;
+}
+
+/**
+ * Options for simulating every proposal before it is submitted
+ */
+export interface ProposalSimulationOptions extends SimulationOptions {
+  /** Propose even when the simulated call reverts (default false) */
+  allowRevert?: boolean;
+}
+
+export interface SimulatedLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  /** Set for ERC-20 Transfer/Approval and WETH Deposit/Withdrawal */
+  eventName?: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Net balance change of an address; token is undefined for native value
+ */
+export interface BalanceDelta {
+  address: Address;
+  token?: Address;
+  delta: bigint;
+}
+
+/**
+ * Result of running a proposal's call from the account
+ * With eth_simulateV1, logs and balance deltas are what the call actually does.
+ * Nodes without it fall back to eth_call: logs are unavailable and deltas are
+ * decoded from the calldata.
+ */
+export interface ProposalSimulation {
+  success: boolean;
+  /** Return data, or revert data when the call fails */
+  returnData: Hex;
+  /** Decoded revert; null on success */
+  error: MultiLevelAccountError | null;
+  method: "eth_simulateV1" | "eth_call";
+  gasUsed?: bigint;
+  logs?: SimulatedLog[];
+  balanceDeltas: BalanceDelta[];
+  balanceDeltaSource: "logs" | "calldata";
+}
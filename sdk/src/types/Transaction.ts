@@ -7,6 +7,38 @@ export interface Transaction {
   config: AmountRange;
 }
 
+/**
+ * One proposal for proposeTransactions
+ */
+export interface ProposalRequest {
+  to: string;
+  value: bigint;
+  data: string;
+  amount: bigint;
+}
+
+/**
+ * One call in a batch proposal
+ */
+export interface BatchCall {
+  to: string;
+  value: bigint;
+  data: string;
+  /** Routing amount of this call; the batch is routed by the sum */
+  amount: bigint;
+}
+
+/**
+ * Batch proposed via executeBatch, read from its BatchProposed event
+ * The batch is approved and executed as one transaction; if any call reverts, none take effect.
+ */
+export interface BatchProposal {
+  txHash: string;
+  calls: BatchCall[];
+  totalAmount: bigint;
+  proposedAtBlock: bigint;
+}
+
 export interface AmountRange {
   minAmount: bigint;
   maxAmount: bigint;
@@ -24,8 +56,32 @@ export interface TransactionStatus {
   currentLevelIndex: number;
   fullyApproved: boolean;
   levelStatuses: LevelStatus[];
+  state: TransactionState;
+  nextAction: TransactionNextAction;
 }
 
+/**
+ * Lifecycle state of a proposed transaction
+ * executed and denied are terminal; the account deletes the transaction from storage in both.
+ */
+export type TransactionState =
+  | "awaitingSignatures"
+  | "inTimelock"
+  | "awaitingTimelockCompletion"
+  | "readyForExecution"
+  | "executed"
+  | "denied";
+
+/**
+ * What has to happen next for the transaction to progress
+ */
+export type TransactionNextAction =
+  | { type: "sign"; levelId: number; signaturesNeeded: number; description: string }
+  /** completeTimelock can be called once timelockRemaining reaches 0 */
+  | { type: "completeTimelock"; levelId: number; timelockRemaining: number; description: string }
+  | { type: "executeApprovedTransaction"; description: string }
+  | { type: "none"; description: string };
+
 export interface LevelStatus {
   levelId: number;
   submitted: boolean;
@@ -36,3 +92,31 @@ export interface LevelStatus {
   timelockRemaining: number;
 }
 
+
+/**
+ * A single transition between two TransactionStatus snapshots
+ */
+export type TransactionStatusChange =
+  | { type: "levelSubmitted"; levelId: number }
+  | {
+    type: "signatureAdded";
+    levelId: number;
+    previousCount: number;
+    signaturesCollected: number;
+    signaturesRequired: number;
+  }
+  | { type: "timelockStarted"; levelId: number; timelockRemaining: number }
+  /** Timelock elapsed; completeTimelock can now be called */
+  | { type: "timelockExpired"; levelId: number }
+  | { type: "levelApproved"; levelId: number }
+  | { type: "levelDenied"; levelId: number }
+  | { type: "levelAdvanced"; fromIndex: number; toIndex: number }
+  | { type: "fullyApproved" }
+  | { type: "stateChanged"; from: TransactionState; to: TransactionState };
+
+export interface TransactionStatusChangeSet {
+  txHash: string;
+  /** null for the initial snapshot */
+  previous: TransactionStatus | null;
+  changes: TransactionStatusChange[];
+}
@@ -1,3 +1,5 @@
+import type { AmountRange } from "./Transaction";
+
 export interface PackedUserOperation {
   sender: string;
   nonce: bigint;
@@ -10,3 +12,55 @@ export interface PackedUserOperation {
   signature: string;
 }
 
+
+/**
+ * Factory parameters for a counterfactual (not yet deployed) account.
+ * Must match the arguments later passed to the factory's `createAccount`.
+ */
+export interface AccountInitConfig {
+  /** ConfiguredAccountFactory when ranges is set, otherwise MultiLevelAccountFactory */
+  factoryAddress: string;
+  owner: string;
+  levelSigners: string[][];
+  salt: bigint;
+  /** Amount ranges installed at deployment; required to propose in the deploying UserOp */
+  ranges?: AmountRange[];
+}
+
+export interface UserOpGasLimits {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+}
+
+/**
+ * EntryPoint v0.7 paymaster fields (packed into paymasterAndData)
+ */
+export interface PaymasterFields {
+  paymaster: string;
+  paymasterVerificationGasLimit: bigint;
+  paymasterPostOpGasLimit: bigint;
+  paymasterData: string;
+}
+
+export interface PaymasterSponsorship extends PaymasterFields {
+  /** Gas limits re-estimated by the paymaster service, if any */
+  gasLimits?: Partial<UserOpGasLimits>;
+}
+
+/**
+ * Source of paymaster data for a UserOperation
+ * Stub data is filled before gas estimation so the estimate covers the paymaster;
+ * the final sponsorship is requested after estimation and before signing
+ */
+export interface PaymasterProvider {
+  sponsorUserOperation(
+    userOp: PackedUserOperation,
+    entryPointAddress: string
+  ): Promise<PaymasterSponsorship>;
+  /** Placeholder data of the final length for estimation (falls back to sponsorUserOperation) */
+  getPaymasterStubData?(
+    userOp: PackedUserOperation,
+    entryPointAddress: string
+  ): Promise<PaymasterSponsorship>;
+}
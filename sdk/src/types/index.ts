@@ -2,3 +2,15 @@ export * from "./UserOperation";
 export * from "./Transaction";
 export * from "./Level";
 
+export * from "./Account";
+export * from "./History";
+export * from "./EventIndex";
+export * from "./Events";
+export * from "./Keeper";
+export * from "./Policy";
+export * from "./Amount";
+export * from "./Simulation";
+export * from "./Decoding";
+export * from "./Portfolio";
+export * from "./Inbox";
+export * from "./Approval";
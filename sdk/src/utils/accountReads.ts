@@ -0,0 +1,70 @@
+import type { Address, PublicClient } from "viem";
+import { MULTI_LEVEL_ACCOUNT_ABI } from "../contracts/abis";
+
+/**
+ * Map of lowercase Level contract address to level ID for an account
+ */
+export async function getLevelContracts(
+  publicClient: PublicClient,
+  accountAddress: Address
+): Promise<Map<string, number>> {
+  const nextLevelId = await publicClient.readContract({
+    address: accountAddress,
+    abi: MULTI_LEVEL_ACCOUNT_ABI,
+    functionName: "nextLevelId"
+  }) as bigint;
+
+  const levels = new Map<string, number>();
+  for (let i = 1n; i < nextLevelId; i++) {
+    const levelAddress = await publicClient.readContract({
+      address: accountAddress,
+      abi: MULTI_LEVEL_ACCOUNT_ABI,
+      functionName: "levelContracts",
+      args: [i]
+    }) as Address;
+    levels.set(levelAddress.toLowerCase(), Number(i));
+  }
+  return levels;
+}
+
+/**
+ * Whether the client's transport supports eth_subscribe (WebSocket or IPC)
+ */
+export function supportsSubscriptions(publicClient: PublicClient): boolean {
+  const transport = publicClient.transport as any;
+  if (transport.type === "webSocket" || transport.type === "ipc") {
+    return true;
+  }
+  return transport.type === "fallback" &&
+    (transport.transports ?? []).some((t: any) => t.config?.type === "webSocket" || t.config?.type === "ipc");
+}
+
+/**
+ * Block in which the account was deployed, found by bisecting eth_getCode
+ * Needs historical state; returns the latest block if the account has no code yet.
+ */
+export async function getDeploymentBlock(
+  publicClient: PublicClient,
+  accountAddress: Address
+): Promise<bigint> {
+  const latest = await publicClient.getBlockNumber({ cacheTime: 0 });
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await publicClient.getCode({ address: accountAddress, blockNumber });
+    return code !== undefined && code !== "0x";
+  };
+  if (!(await hasCode(latest))) {
+    return latest;
+  }
+
+  let low = 0n;
+  let high = latest;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if (await hasCode(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1n;
+    }
+  }
+  return low;
+}
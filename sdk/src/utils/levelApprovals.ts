@@ -0,0 +1,70 @@
+import type { Address, Hex, TypedDataDefinition } from "viem";
+import { concat, hashTypedData, recoverTypedDataAddress, size } from "viem";
+import type { LevelApproval, SignedLevelApproval } from "../types";
+
+export const LEVEL_APPROVAL_TYPES = {
+  Approval: [
+    { name: "account", type: "address" },
+    { name: "levelId", type: "uint256" },
+    { name: "txHash", type: "bytes32" },
+    { name: "chainId", type: "uint256" }
+  ]
+} as const;
+
+type LevelApprovalTypedData = TypedDataDefinition<typeof LEVEL_APPROVAL_TYPES, "Approval">;
+
+/**
+ * EIP-712 typed data a signer signs to approve a transaction at a level
+ * Matches Level.getApprovalDigest.
+ */
+export function getLevelApprovalTypedData(levelAddress: Address | string, approval: LevelApproval): LevelApprovalTypedData {
+  return {
+    domain: {
+      name: "MultiLevelAccount Level",
+      version: "1",
+      chainId: approval.chainId,
+      verifyingContract: levelAddress as Address
+    },
+    types: LEVEL_APPROVAL_TYPES,
+    primaryType: "Approval",
+    message: {
+      account: approval.account as Address,
+      levelId: approval.levelId,
+      txHash: approval.txHash as Hex,
+      chainId: approval.chainId
+    }
+  };
+}
+
+/**
+ * Digest of a level approval, equal to Level.getApprovalDigest on its chain
+ */
+export function hashLevelApproval(levelAddress: Address | string, approval: LevelApproval): Hex {
+  return hashTypedData(getLevelApprovalTypedData(levelAddress, approval));
+}
+
+/**
+ * Whether the approval's signature was made by its signer
+ * Does not check that the signer is still on the level or has not signed yet.
+ */
+export async function verifyLevelApproval(approval: SignedLevelApproval): Promise<boolean> {
+  if (size(approval.signature as Hex) !== 65) {
+    return false;
+  }
+  try {
+    const recovered = await recoverTypedDataAddress({
+      ...getLevelApprovalTypedData(approval.levelAddress, approval),
+      signature: approval.signature as Hex
+    });
+    return recovered.toLowerCase() === approval.signer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Concatenate approvals into the signatures argument of Level.signWithApprovals
+ */
+export function encodeLevelApprovals(approvals: readonly SignedLevelApproval[]): Hex {
+  return concat(approvals.map((approval) => approval.signature as Hex));
+}
@@ -0,0 +1,60 @@
+import type { AmountRange, SignerChange, SignerChangeValidation, UnsatisfiableQuorum } from "../types";
+
+/**
+ * Check a signer change against the Level contract's rules and, for removals,
+ * every amount range that routes through the level
+ */
+export function validateSignerChange(
+  levelId: number,
+  currentSigners: readonly string[],
+  change: SignerChange,
+  ranges: readonly AmountRange[]
+): SignerChangeValidation {
+  const signer = change.signer.toLowerCase();
+  const exists = currentSigners.some((s) => s.toLowerCase() === signer);
+  let error: string | undefined;
+  let resultingSigners = [...currentSigners];
+
+  if (change.type === "add") {
+    if (/^0x0{40}$/i.test(change.signer)) {
+      error = "Signer cannot be the zero address";
+    } else if (exists) {
+      error = `${change.signer} is already a signer at level ${levelId}`;
+    } else {
+      resultingSigners.push(change.signer);
+    }
+  } else if (!exists) {
+    error = `${change.signer} is not a signer at level ${levelId}`;
+  } else if (currentSigners.length <= 1) {
+    error = `Cannot remove the last signer at level ${levelId}`;
+  } else {
+    resultingSigners = resultingSigners.filter((s) => s.toLowerCase() !== signer);
+  }
+
+  // Adding a signer never lowers the signer count, so only removals can break a quorum
+  const unsatisfiableQuorums: UnsatisfiableQuorum[] = [];
+  const checkedRanges = change.type === "remove" && !error ? ranges : [];
+  checkedRanges.forEach((range, rangeIndex) => {
+    range.levelIds.forEach((id, i) => {
+      const quorum = Number(range.quorums[i] ?? 0n);
+      if (Number(id) === levelId && quorum > resultingSigners.length) {
+        unsatisfiableQuorums.push({
+          rangeIndex,
+          minAmount: range.minAmount,
+          maxAmount: range.maxAmount,
+          levelId,
+          quorum,
+          signerCount: resultingSigners.length
+        });
+      }
+    });
+  });
+
+  return {
+    valid: !error && unsatisfiableQuorums.length === 0,
+    error,
+    currentSigners: [...currentSigners],
+    resultingSigners,
+    unsatisfiableQuorums
+  };
+}
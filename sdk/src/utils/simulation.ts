@@ -0,0 +1,253 @@
+import type { Address, Hex, PublicClient, StateOverride } from "viem";
+import { decodeEventLog, decodeFunctionData, getAddress, hexToBigInt, numberToHex, parseAbi } from "viem";
+import type { BalanceDelta, ProposalSimulation, SimulatedLog, SimulationOptions } from "../types";
+import { MultiLevelAccountError, decodeError, decodeRevertData } from "../errors";
+import { decodeAssetMovements } from "../amounts/routingAmount";
+import { MULTI_LEVEL_ACCOUNT_ABI } from "../contracts/abis";
+
+/** ERC-7528 pseudo-address eth_simulateV1 uses for native transfer logs (traceTransfers) */
+const NATIVE_TRANSFER_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+const TOKEN_EVENTS_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event Deposit(address indexed dst, uint256 wad)",
+  "event Withdrawal(address indexed src, uint256 wad)"
+]);
+
+interface SimulateV1Call {
+  status: Hex;
+  returnData: Hex;
+  gasUsed: Hex;
+  logs: { address: Address; topics: Hex[]; data: Hex }[];
+  error?: { code: number; message: string; data?: Hex };
+}
+
+/**
+ * Run a call as `from` without sending it
+ * Uses eth_simulateV1 when the node supports it and falls back to eth_call.
+ */
+export async function simulateCall(
+  publicClient: PublicClient,
+  from: Address,
+  to: Address,
+  value: bigint,
+  data: Hex,
+  options: SimulationOptions = {}
+): Promise<ProposalSimulation> {
+  let calls: SimulateV1Call[] | undefined;
+  try {
+    const blocks = await publicClient.request({
+      method: "eth_simulateV1",
+      params: [
+        {
+          blockStateCalls: [{
+            stateOverrides: options.stateOverride ? serializeStateOverride(options.stateOverride) : undefined,
+            calls: [{ from, to, value: numberToHex(value), data }]
+          }],
+          traceTransfers: true,
+          validation: false
+        },
+        options.blockNumber !== undefined ? numberToHex(options.blockNumber) : "latest"
+      ]
+    } as never) as unknown as { calls: SimulateV1Call[] }[];
+    calls = blocks?.[0]?.calls;
+  } catch {
+    // Not supported by this node
+  }
+
+  if (calls?.[0]) {
+    return fromSimulateV1(calls[0]);
+  }
+
+  try {
+    const result = await publicClient.call({
+      account: from,
+      to,
+      value,
+      data,
+      stateOverride: options.stateOverride,
+      blockNumber: options.blockNumber
+    });
+    return {
+      success: true,
+      returnData: result.data ?? "0x",
+      error: null,
+      method: "eth_call",
+      balanceDeltas: deltasFromCalldata(from, to, value, data, options),
+      balanceDeltaSource: "calldata"
+    };
+  } catch (err) {
+    const error = decodeError(err);
+    return {
+      success: false,
+      returnData: error.data ?? "0x",
+      error,
+      method: "eth_call",
+      balanceDeltas: [],
+      balanceDeltaSource: "calldata"
+    };
+  }
+}
+
+/**
+ * Simulate a pending proposal's call from the account against current state
+ */
+export async function simulateStoredTransaction(
+  publicClient: PublicClient,
+  accountAddress: Address,
+  txHash: Hex,
+  options: SimulationOptions = {}
+): Promise<ProposalSimulation> {
+  const tx = await publicClient.readContract({
+    address: accountAddress,
+    abi: MULTI_LEVEL_ACCOUNT_ABI,
+    functionName: "getTransaction",
+    args: [txHash]
+  }) as { to: Address; value: bigint; data: Hex };
+
+  if (BigInt(tx.to) === 0n) {
+    throw new MultiLevelAccountError(
+      `Transaction ${txHash} is not pending (never proposed, executed or denied)`,
+      "TransactionNotFound"
+    );
+  }
+  return await simulateCall(publicClient, accountAddress, tx.to, tx.value, tx.data, options);
+}
+
+function fromSimulateV1(call: SimulateV1Call): ProposalSimulation {
+  const success = call.status === "0x1";
+  const returnData = (success ? call.returnData : call.error?.data ?? call.returnData) ?? "0x";
+  const logs = (call.logs ?? []).map(decodeLog);
+
+  return {
+    success,
+    returnData,
+    error: success ? null : decodeRevertData(returnData),
+    method: "eth_simulateV1",
+    gasUsed: hexToBigInt(call.gasUsed),
+    logs: logs.filter((log) => log.address.toLowerCase() !== NATIVE_TRANSFER_ADDRESS),
+    balanceDeltas: success ? deltasFromLogs(logs) : [],
+    balanceDeltaSource: "logs"
+  };
+}
+
+function decodeLog(log: { address: Address; topics: Hex[]; data: Hex }): SimulatedLog {
+  const simulated: SimulatedLog = { address: getAddress(log.address), topics: log.topics, data: log.data };
+  try {
+    const decoded = decodeEventLog({ abi: TOKEN_EVENTS_ABI, topics: log.topics as [Hex, ...Hex[]], data: log.data });
+    simulated.eventName = decoded.eventName;
+    simulated.args = decoded.args as Record<string, unknown>;
+  } catch {
+    // Not a token event
+  }
+  return simulated;
+}
+
+function deltasFromLogs(logs: readonly SimulatedLog[]): BalanceDelta[] {
+  const deltas = new DeltaSet();
+  for (const log of logs) {
+    const token = log.address.toLowerCase() === NATIVE_TRANSFER_ADDRESS ? undefined : log.address;
+    const args = log.args as { from: Address; to: Address; value: bigint; dst: Address; src: Address; wad: bigint };
+    if (log.eventName === "Transfer") {
+      deltas.add(args.from, token, -args.value);
+      deltas.add(args.to, token, args.value);
+    } else if (log.eventName === "Deposit") {
+      deltas.add(args.dst, token, args.wad);
+    } else if (log.eventName === "Withdrawal") {
+      deltas.add(args.src, token, -args.wad);
+    }
+  }
+  return deltas.toList();
+}
+
+/**
+ * Expected deltas when the node cannot report logs
+ * A batch (the account calling its own executeBatchCalls) is expanded into its calls.
+ */
+function deltasFromCalldata(
+  from: Address,
+  to: Address,
+  value: bigint,
+  data: Hex,
+  options: SimulationOptions
+): BalanceDelta[] {
+  const deltas = new DeltaSet();
+  const movements = expandBatch(from, to, value, data).flatMap((call) =>
+    decodeAssetMovements(call.to, call.value, call.data, options).map((movement) => ({ ...movement, target: call.to })));
+  for (const movement of movements) {
+    switch (movement.kind) {
+      case "native":
+        deltas.add(from, undefined, -movement.amount);
+        deltas.add(movement.target, undefined, movement.amount);
+        break;
+      case "erc20Transfer":
+        deltas.add(from, movement.token, -movement.amount);
+        deltas.add(movement.to!, movement.token, movement.amount);
+        break;
+      case "erc20TransferFrom":
+        deltas.add(movement.from!, movement.token, -movement.amount);
+        deltas.add(movement.to!, movement.token, movement.amount);
+        break;
+      case "wethDeposit":
+        deltas.add(from, undefined, -movement.amount);
+        deltas.add(from, movement.token, movement.amount);
+        break;
+      case "wethWithdraw":
+        deltas.add(from, movement.token, -movement.amount);
+        deltas.add(from, undefined, movement.amount);
+        break;
+      // Approvals do not move balances
+    }
+  }
+  return deltas.toList();
+}
+
+function expandBatch(from: Address, to: Address, value: bigint, data: Hex): { to: Address; value: bigint; data: Hex }[] {
+  if (from.toLowerCase() === to.toLowerCase()) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: MULTI_LEVEL_ACCOUNT_ABI, data });
+      if (functionName === "executeBatchCalls") {
+        const [targets, values, calldatas] = args as [Address[], bigint[], Hex[]];
+        return targets.map((target, i) => ({ to: target, value: values[i], data: calldatas[i] }));
+      }
+    } catch {
+      // Not an account function
+    }
+  }
+  return [{ to, value, data }];
+}
+
+class DeltaSet {
+  private deltas = new Map<string, BalanceDelta>();
+
+  add(address: Address, token: Address | undefined, delta: bigint): void {
+    const key = `${address.toLowerCase()}:${token?.toLowerCase() ?? ""}`;
+    const entry = this.deltas.get(key);
+    if (entry) {
+      entry.delta += delta;
+    } else {
+      this.deltas.set(key, { address: getAddress(address), token: token && getAddress(token), delta });
+    }
+  }
+
+  toList(): BalanceDelta[] {
+    return [...this.deltas.values()].filter((entry) => entry.delta !== 0n);
+  }
+}
+
+function serializeStateOverride(stateOverride: StateOverride): Record<string, Record<string, unknown>> {
+  const serialized: Record<string, Record<string, unknown>> = {};
+  for (const { address, balance, nonce, code, state, stateDiff } of stateOverride) {
+    const toMapping = (mapping: typeof state) =>
+      mapping && Object.fromEntries(mapping.map(({ slot, value }) => [slot, value]));
+    serialized[address] = {
+      balance: balance !== undefined ? numberToHex(balance) : undefined,
+      nonce: nonce !== undefined ? numberToHex(nonce) : undefined,
+      code,
+      state: toMapping(state),
+      stateDiff: toMapping(stateDiff)
+    };
+  }
+  return serialized;
+}
@@ -0,0 +1,65 @@
+import type { TransactionStatus, TransactionStatusChange } from "../types";
+
+/**
+ * List what changed between two status snapshots
+ * Timelock countdown ticks are not changes; only its start and expiry are.
+ */
+export function diffTransactionStatus(
+  previous: TransactionStatus | null,
+  current: TransactionStatus
+): TransactionStatusChange[] {
+  if (!previous) {
+    return [];
+  }
+
+  const changes: TransactionStatusChange[] = [];
+
+  for (const level of current.levelStatuses) {
+    const before = previous.levelStatuses.find((l) => l.levelId === level.levelId);
+    if (!before) continue;
+    const levelId = level.levelId;
+
+    if (!before.submitted && level.submitted) {
+      changes.push({ type: "levelSubmitted", levelId });
+    }
+    if (level.signaturesCollected > before.signaturesCollected) {
+      changes.push({
+        type: "signatureAdded",
+        levelId,
+        previousCount: before.signaturesCollected,
+        signaturesCollected: level.signaturesCollected,
+        signaturesRequired: level.signaturesRequired
+      });
+    }
+    if (before.timelockRemaining === 0 && level.timelockRemaining > 0) {
+      changes.push({ type: "timelockStarted", levelId, timelockRemaining: level.timelockRemaining });
+    }
+    if (before.timelockRemaining > 0 && level.timelockRemaining === 0 && !level.approved && !level.denied) {
+      changes.push({ type: "timelockExpired", levelId });
+    }
+    if (!before.approved && level.approved) {
+      changes.push({ type: "levelApproved", levelId });
+    }
+    if (!before.denied && level.denied) {
+      changes.push({ type: "levelDenied", levelId });
+    }
+  }
+
+  // The account resets the level index when it deletes an executed or denied transaction
+  const finalized = current.state === "executed" || current.state === "denied";
+  if (current.currentLevelIndex !== previous.currentLevelIndex && !finalized) {
+    changes.push({
+      type: "levelAdvanced",
+      fromIndex: previous.currentLevelIndex,
+      toIndex: current.currentLevelIndex
+    });
+  }
+  if (!previous.fullyApproved && current.fullyApproved) {
+    changes.push({ type: "fullyApproved" });
+  }
+  if (current.state !== previous.state) {
+    changes.push({ type: "stateChanged", from: previous.state, to: current.state });
+  }
+
+  return changes;
+}
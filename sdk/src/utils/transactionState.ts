@@ -0,0 +1,78 @@
+import type { LevelStatus, TransactionNextAction, TransactionState } from "../types";
+
+/**
+ * Derive the lifecycle state and next action from on-chain progress
+ * @param stored Whether the account still holds the transaction in storage; it is
+ * deleted on execution and denial, so an unstored, undenied transaction was executed
+ */
+export function deriveTransactionState(
+  levelStatuses: LevelStatus[],
+  currentLevelIndex: number,
+  fullyApproved: boolean,
+  stored: boolean
+): { state: TransactionState; nextAction: TransactionNextAction } {
+  const denied = levelStatuses.find((level) => level.denied);
+  if (denied) {
+    return {
+      state: "denied",
+      nextAction: { type: "none", description: `Denied at level ${denied.levelId}` }
+    };
+  }
+
+  if (!stored) {
+    return {
+      state: "executed",
+      nextAction: { type: "none", description: "Executed" }
+    };
+  }
+
+  if (fullyApproved) {
+    return {
+      state: "readyForExecution",
+      nextAction: { type: "executeApprovedTransaction", description: "Call executeApprovedTransaction" }
+    };
+  }
+
+  const level = levelStatuses[currentLevelIndex];
+  if (!level) {
+    return {
+      state: "awaitingSignatures",
+      nextAction: { type: "none", description: "Waiting for the next level" }
+    };
+  }
+
+  const signaturesNeeded = level.signaturesRequired - level.signaturesCollected;
+  if (signaturesNeeded > 0) {
+    return {
+      state: "awaitingSignatures",
+      nextAction: {
+        type: "sign",
+        levelId: level.levelId,
+        signaturesNeeded,
+        description: `Needs ${signaturesNeeded} more signature${signaturesNeeded === 1 ? "" : "s"} at level ${level.levelId}`
+      }
+    };
+  }
+
+  if (level.timelockRemaining > 0) {
+    return {
+      state: "inTimelock",
+      nextAction: {
+        type: "completeTimelock",
+        levelId: level.levelId,
+        timelockRemaining: level.timelockRemaining,
+        description: `Call completeTimelock at level ${level.levelId} after ${level.timelockRemaining}s`
+      }
+    };
+  }
+
+  return {
+    state: "awaitingTimelockCompletion",
+    nextAction: {
+      type: "completeTimelock",
+      levelId: level.levelId,
+      timelockRemaining: 0,
+      description: `Call completeTimelock at level ${level.levelId}`
+    }
+  };
+}
@@ -0,0 +1,142 @@
+import { concat, encodePacked, type Hex } from "viem";
+import type { PackedUserOperation, PaymasterFields } from "../types";
+
+/**
+ * Well-formed ECDSA signature (low s, v = 28) used in place of the owner
+ * signature for gas estimation and paymaster sponsorship requests
+ */
+export const DUMMY_SIGNATURE =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c" as Hex;
+
+/**
+ * Pack two uint128 values into bytes32 (accountGasLimits)
+ */
+export function packAccountGasLimits(verificationGasLimit: bigint, callGasLimit: bigint): Hex {
+  return encodePacked(
+    ["uint128", "uint128"],
+    [verificationGasLimit, callGasLimit]
+  ) as Hex;
+}
+
+/**
+ * Pack two uint128 values into bytes32 (gasFees)
+ */
+export function packGasFees(maxPriorityFeePerGas: bigint, maxFeePerGas: bigint): Hex {
+  return encodePacked(
+    ["uint128", "uint128"],
+    [maxPriorityFeePerGas, maxFeePerGas]
+  ) as Hex;
+}
+
+/**
+ * Unpack bytes32 to two uint128 values (accountGasLimits)
+ */
+export function unpackAccountGasLimits(packed: Hex): { verificationGasLimit: bigint; callGasLimit: bigint } {
+  // Packed format: first 16 bytes = verificationGasLimit, last 16 bytes = callGasLimit
+  const hex = packed.replace("0x", "");
+  const verificationGasLimitHex = hex.slice(0, 32); // First 16 bytes (32 hex chars)
+  const callGasLimitHex = hex.slice(32, 64); // Last 16 bytes (32 hex chars)
+
+  return {
+    verificationGasLimit: BigInt(`0x${verificationGasLimitHex}` as `0x${string}`),
+    callGasLimit: BigInt(`0x${callGasLimitHex}` as `0x${string}`)
+  };
+}
+
+/**
+ * Unpack bytes32 to two uint128 values (gasFees)
+ */
+export function unpackGasFees(packed: Hex): { maxPriorityFeePerGas: bigint; maxFeePerGas: bigint } {
+  // Packed format: first 16 bytes = maxPriorityFeePerGas, last 16 bytes = maxFeePerGas
+  const hex = packed.replace("0x", "");
+  const maxPriorityFeePerGasHex = hex.slice(0, 32); // First 16 bytes (32 hex chars)
+  const maxFeePerGasHex = hex.slice(32, 64); // Last 16 bytes (32 hex chars)
+
+  return {
+    maxPriorityFeePerGas: BigInt(`0x${maxPriorityFeePerGasHex}` as `0x${string}`),
+    maxFeePerGas: BigInt(`0x${maxFeePerGasHex}` as `0x${string}`)
+  };
+}
+
+/**
+ * Unpack initCode to factory address and factoryData (EntryPoint v0.7 JSON-RPC fields)
+ */
+export function unpackInitCode(initCode: Hex): { factory: Hex | null; factoryData: Hex | null } {
+  if (!initCode || initCode === "0x") {
+    return { factory: null, factoryData: null };
+  }
+
+  return {
+    factory: initCode.slice(0, 42) as Hex,
+    factoryData: `0x${initCode.slice(42)}` as Hex
+  };
+}
+
+/**
+ * Pack paymaster fields into paymasterAndData
+ * Layout: paymaster (20) | verificationGasLimit (16) | postOpGasLimit (16) | paymasterData
+ */
+export function packPaymasterAndData(fields: PaymasterFields): Hex {
+  return concat([
+    fields.paymaster as Hex,
+    encodePacked(
+      ["uint128", "uint128"],
+      [fields.paymasterVerificationGasLimit, fields.paymasterPostOpGasLimit]
+    ),
+    fields.paymasterData as Hex
+  ]);
+}
+
+/**
+ * Unpack paymasterAndData into paymaster fields (null when no paymaster is used)
+ */
+export function unpackPaymasterAndData(paymasterAndData: Hex): PaymasterFields | null {
+  if (!paymasterAndData || paymasterAndData === "0x") {
+    return null;
+  }
+
+  const hex = paymasterAndData.replace("0x", "");
+  return {
+    paymaster: `0x${hex.slice(0, 40)}`,
+    paymasterVerificationGasLimit: BigInt(`0x${hex.slice(40, 72)}`),
+    paymasterPostOpGasLimit: BigInt(`0x${hex.slice(72, 104)}`),
+    paymasterData: `0x${hex.slice(104)}`
+  };
+}
+
+/**
+ * Convert a packed UserOperation to the EntryPoint v0.7 JSON-RPC schema
+ */
+export function toRpcUserOp(userOp: PackedUserOperation): Record<string, string | null> {
+  // Unpack accountGasLimits (bytes32) to verificationGasLimit and callGasLimit (uint128 each)
+  const { verificationGasLimit, callGasLimit } = unpackAccountGasLimits(userOp.accountGasLimits as Hex);
+
+  // Unpack gasFees (bytes32) to maxPriorityFeePerGas and maxFeePerGas (uint128 each)
+  const { maxPriorityFeePerGas, maxFeePerGas } = unpackGasFees(userOp.gasFees as Hex);
+
+  // Split initCode into factory (first 20 bytes) and factoryData
+  const { factory, factoryData } = unpackInitCode(userOp.initCode as Hex);
+
+  const paymaster = unpackPaymasterAndData(userOp.paymasterAndData as Hex);
+
+  // Convert to hex strings for JSON-RPC
+  const toHex = (value: bigint) => `0x${value.toString(16)}`;
+
+  return {
+    sender: userOp.sender,
+    nonce: toHex(userOp.nonce),
+    factory,
+    factoryData,
+    callData: userOp.callData,
+    callGasLimit: toHex(callGasLimit),
+    verificationGasLimit: toHex(verificationGasLimit),
+    preVerificationGas: toHex(userOp.preVerificationGas),
+    maxFeePerGas: toHex(maxFeePerGas),
+    maxPriorityFeePerGas: toHex(maxPriorityFeePerGas),
+    paymaster: paymaster ? paymaster.paymaster : null,
+    paymasterVerificationGasLimit: paymaster ? toHex(paymaster.paymasterVerificationGasLimit) : null,
+    paymasterPostOpGasLimit: paymaster ? toHex(paymaster.paymasterPostOpGasLimit) : null,
+    paymasterData: paymaster ? paymaster.paymasterData : null,
+    signature: userOp.signature,
+  };
+}
@@ -0,0 +1,83 @@
+import type { Address, Hex, Log } from "viem";
+import { decodeEventLog } from "viem";
+import { ENTRY_POINT_ABI, MULTI_LEVEL_ACCOUNT_ABI } from "../contracts/abis";
+import { MultiLevelAccountError, decodeRevertData } from "../errors";
+
+/**
+ * Outcome of one of the account's UserOps in a handleOps transaction
+ */
+export interface UserOpProposal {
+  /** Undefined when the EntryPoint emits no UserOperationEvent (e.g. test mocks) */
+  userOpHash?: Hex;
+  /** Internal txHash from TransactionProposed; null if the UserOp failed */
+  txHash: Hex | null;
+  revertReason: MultiLevelAccountError | null;
+}
+
+/**
+ * Split a handleOps receipt into the account's UserOps, in execution order
+ * The EntryPoint emits UserOperationEvent after each op's execution logs, so
+ * TransactionProposed logs are attributed to the next UserOperationEvent.
+ */
+export function getUserOpProposals(
+  logs: readonly Log[],
+  accountAddress: Address,
+  entryPointAddress: Address
+): UserOpProposal[] {
+  const account = accountAddress.toLowerCase();
+  const proposals: UserOpProposal[] = [];
+  let proposed: Hex[] = [];
+  let revertReason: MultiLevelAccountError | null = null;
+  let sawUserOpEvent = false;
+
+  for (const log of logs) {
+    const address = log.address.toLowerCase();
+    if (address === account) {
+      try {
+        const decoded = decodeEventLog({
+          abi: MULTI_LEVEL_ACCOUNT_ABI,
+          data: log.data,
+          topics: log.topics
+        });
+        // A deploying UserOp also emits ownership and amount range events
+        if (decoded.eventName === "TransactionProposed") {
+          proposed.push((decoded.args as any).txHash as Hex);
+        }
+      } catch {
+        // Not an account event
+      }
+      continue;
+    }
+    if (address !== entryPointAddress.toLowerCase()) {
+      continue;
+    }
+
+    let decoded: { eventName: string; args: any };
+    try {
+      decoded = decodeEventLog({ abi: ENTRY_POINT_ABI, data: log.data, topics: log.topics }) as any;
+    } catch {
+      continue;
+    }
+    if (decoded.args.sender?.toLowerCase() !== account) {
+      continue;
+    }
+
+    if (decoded.eventName === "UserOperationRevertReason") {
+      revertReason = decodeRevertData(decoded.args.revertReason ?? "0x");
+    } else if (decoded.eventName === "UserOperationEvent") {
+      sawUserOpEvent = true;
+      proposals.push({
+        userOpHash: decoded.args.userOpHash as Hex,
+        txHash: decoded.args.success ? proposed[0] ?? null : null,
+        revertReason
+      });
+      proposed = [];
+      revertReason = null;
+    }
+  }
+
+  if (!sawUserOpEvent) {
+    return proposed.map((txHash) => ({ txHash, revertReason: null }));
+  }
+  return proposals;
+}
@@ -34,11 +34,16 @@ export function hardhatTransport(): Transport {
           const callParams = params[0] as any;
           
           try {
-            const callResult = await provider.call({
-              to: callParams.to,
-              data: callParams.data,
-              blockTag: callParams.blockTag || "latest"
-            } as any);
+            // State overrides are only available through the raw RPC method
+            const callResult = params[2]
+              ? await provider.send("eth_call", [callParams, params[1] ?? "latest", params[2]])
+              : await provider.call({
+                from: callParams.from,
+                to: callParams.to,
+                value: callParams.value,
+                data: callParams.data,
+                blockTag: params[1] || callParams.blockTag || "latest"
+              } as any);
             
             // ethers returns BytesLike which could be string, Uint8Array, or ArrayLike<number>
             // Convert to hex string for viem - ensure it's always a proper hex string
@@ -62,10 +67,10 @@ export function hardhatTransport(): Transport {
             
             return hexResult;
           } catch (error: any) {
-            // If the call reverts, return "0x" (viem will handle the error)
-            // Or return error data if available
+            // Surface reverts like a JSON-RPC node (code 3 with the revert data)
             if (error.data) {
-              return typeof error.data === "string" ? error.data : ethers.hexlify(error.data);
+              const data = typeof error.data === "string" ? error.data : ethers.hexlify(error.data);
+              throw Object.assign(new Error(error.shortMessage ?? "execution reverted"), { code: 3, data });
             }
             throw error;
           }
@@ -118,7 +123,7 @@ export function hardhatTransport(): Transport {
           const network = await provider.getNetwork();
           return network.chainId.toString();
         case "eth_getCode":
-          return await provider.getCode(params[0] as string);
+          return await provider.getCode(params[0] as string, params[1] as string);
         case "eth_estimateGas":
           return await provider.estimateGas(params[0] as any);
         case "eth_getTransactionCount":
@@ -182,6 +187,13 @@ export function hardhatTransport(): Transport {
           const ethSigner = await ethers.getSigner(ethSignAddress);
           const ethSignature = await ethSigner.signMessage(ethers.getBytes(ethSignMessage));
           return ethSignature;
+        case "eth_signTypedData_v4": {
+          // eth_signTypedData_v4(address, typedDataJson) - EIP-712 signing
+          const typedData = JSON.parse(params[1] as string);
+          const { EIP712Domain: _domainType, ...types } = typedData.types;
+          const typedDataSigner = await ethers.getSigner(params[0] as string);
+          return await typedDataSigner.signTypedData(typedData.domain, types, typedData.message);
+        }
         case "eth_sendTransaction":
           // eth_sendTransaction(transaction) - send transaction
           const txParams = params[0] as any;
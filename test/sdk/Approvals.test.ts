@@ -0,0 +1,117 @@
+/**
+ * Off-chain Approval Tests
+ *
+ * Tests for signing level approvals off-chain and relaying them in one transaction
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { Address } from "viem";
+import { SignerInterface } from "../../sdk/src/SignerInterface";
+import { hashLevelApproval, verifyLevelApproval } from "../../sdk/src/utils/levelApprovals";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+describe("Off-chain Approvals", () => {
+  let fixture: SDKFixture;
+  let accountAddress: Address;
+
+  async function signerInterfaceFor(signer: typeof fixture.owner, levelId = 1): Promise<SignerInterface> {
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(signer);
+    return new SignerInterface(accountAddress, levelId, publicClient, walletClient);
+  }
+
+  async function expectRejection(promise: Promise<unknown>, message: string): Promise<void> {
+    try {
+      await promise;
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).message).to.include(message);
+    }
+  }
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    accountAddress = await fixture.account.getAddress() as Address;
+
+    await fixture.owner.sendTransaction({
+      to: accountAddress,
+      value: ethers.parseEther("100")
+    });
+  });
+
+  it("Should apply co-signers' approvals in one relayed transaction", async () => {
+    const txHash = await fixture.sdk.proposeTransaction(
+      fixture.others[1].address,
+      ethers.parseEther("1"),
+      "0x",
+      ethers.parseEther("5000")
+    );
+
+    const approvals = [
+      await (await signerInterfaceFor(fixture.ops1)).signApproval(txHash),
+      await (await signerInterfaceFor(fixture.ops2)).signApproval(txHash)
+    ];
+    expect(approvals[0].signer).to.equal(fixture.ops1.address);
+    expect(approvals[0].levelAddress).to.equal(await fixture.level1.getAddress());
+    expect(await verifyLevelApproval(approvals[0])).to.be.true;
+    expect(hashLevelApproval(approvals[0].levelAddress, approvals[0]))
+      .to.equal(await fixture.level1.getApprovalDigest(txHash));
+
+    // The relayer is not a signer and only pays gas
+    const relayer = await signerInterfaceFor(fixture.others[0]);
+    await relayer.submitApprovals(txHash, approvals);
+
+    expect(await fixture.level1.hasSigned(txHash, fixture.ops1.address)).to.be.true;
+    expect(await fixture.level1.hasSigned(txHash, fixture.ops2.address)).to.be.true;
+    const [signatureCount, requiredQuorum] = await fixture.level1.getSignatureProgress(txHash);
+    expect(signatureCount).to.equal(requiredQuorum);
+  });
+
+  it("Should drop approvals from signers who already signed", async () => {
+    const txHash = await fixture.sdk.proposeTransaction(
+      fixture.others[1].address,
+      ethers.parseEther("1"),
+      "0x",
+      ethers.parseEther("5000")
+    );
+
+    const ops1 = await signerInterfaceFor(fixture.ops1);
+    const ops1Approval = await ops1.signApproval(txHash);
+    const ops2Approval = await (await signerInterfaceFor(fixture.ops2)).signApproval(txHash);
+    await ops1.sign(txHash);
+
+    const relayer = await signerInterfaceFor(fixture.others[0]);
+    await relayer.submitApprovals(txHash, [ops1Approval, ops2Approval, ops2Approval]);
+    expect(await fixture.level1.hasSigned(txHash, fixture.ops2.address)).to.be.true;
+
+    await expectRejection(relayer.submitApprovals(txHash, [ops1Approval, ops2Approval]), "every approver has already signed");
+  });
+
+  it("Should reject mismatched, forged and non-signer approvals", async () => {
+    const txHash = await fixture.sdk.proposeTransaction(
+      fixture.others[1].address,
+      ethers.parseEther("1"),
+      "0x",
+      ethers.parseEther("5000")
+    );
+    const otherTxHash = await fixture.sdk.proposeTransaction(
+      fixture.others[1].address,
+      ethers.parseEther("2"),
+      "0x",
+      ethers.parseEther("5000")
+    );
+
+    const relayer = await signerInterfaceFor(fixture.others[0]);
+    const approval = await (await signerInterfaceFor(fixture.ops1)).signApproval(otherTxHash);
+    await expectRejection(relayer.submitApprovals(txHash, [approval]), "for a different transaction, level or chain");
+
+    // Signed by ops1 but claimed for ops2
+    const forged = { ...approval, signer: fixture.ops2.address };
+    expect(await verifyLevelApproval(forged)).to.be.false;
+    await expectRejection(relayer.submitApprovals(otherTxHash, [forged]), "does not match signer");
+
+    // comp1 signs a level 1 approval but is only a level 2 signer
+    const outsider = await (await signerInterfaceFor(fixture.comp1)).signApproval(otherTxHash);
+    await expectRejection(relayer.submitApprovals(otherTxHash, [outsider]), "is not a signer at level 1");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Batch Proposal Tests
+ *
+ * Tests for proposing several calls as one transaction via executeBatch
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { getAddress, type Address } from "viem";
+import { MultiLevelAccountError, TransactionFailedError } from "../../sdk/src/errors";
+import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+
+describe("Batch Proposals", () => {
+  let fixture: SDKFixture;
+  let accountAddress: Address;
+  let reverting: Address;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    accountAddress = await fixture.account.getAddress() as Address;
+
+    await fixture.owner.sendTransaction({
+      to: accountAddress,
+      value: ethers.parseEther("100")
+    });
+
+    const RevertingContract = await ethers.getContractFactory("RevertingContract");
+    reverting = await (await RevertingContract.deploy()).getAddress() as Address;
+  });
+
+  async function approveLevel1(txHash: string) {
+    await fixture.level1.connect(fixture.ops1).sign(txHash);
+    await fixture.level1.connect(fixture.ops2).sign(txHash);
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    await fixture.level1.completeTimelock(txHash);
+  }
+
+  it("Should propose, approve and execute a batch as one transaction", async () => {
+    const payees = fixture.others.slice(0, 3).map((signer) => signer.address as Address);
+    const calls = payees.map((to, i) => ({
+      to,
+      value: ethers.parseEther(String(i + 1)),
+      data: "0x",
+      amount: ethers.parseEther("4000")
+    }));
+
+    const txHash = await fixture.sdk.proposeBatch(calls);
+
+    // 12000 ETH in total needs levels 1 and 2, although each payment alone needs level 1 only
+    const status = await fixture.sdk.getTransactionStatus(txHash);
+    expect(status.to).to.equal(getAddress(accountAddress));
+    expect(status.amount).to.equal(ethers.parseEther("12000"));
+    expect(status.levelStatuses.map((level) => level.levelId)).to.deep.equal([1, 2]);
+
+    const batch = (await fixture.sdk.getBatch(txHash))!;
+    expect(batch.totalAmount).to.equal(ethers.parseEther("12000"));
+    expect(batch.calls).to.deep.equal(calls);
+
+    const [pending] = await fixture.sdk.getSignerInterface(1).getPendingTransactions();
+    expect(pending.summary).to.equal(
+      `Execute a batch of 3 call(s): 1. Send 1 ETH to ${payees[0]}; ` +
+      `2. Send 2 ETH to ${payees[1]}; 3. Send 3 ETH to ${payees[2]}`
+    );
+
+    await approveLevel1(txHash);
+    await fixture.level2.connect(fixture.comp1).sign(txHash);
+    await fixture.level2.connect(fixture.comp2).sign(txHash);
+    await ethers.provider.send("evm_increaseTime", [7201]);
+    await ethers.provider.send("evm_mine", []);
+    await fixture.level2.completeTimelock(txHash);
+    expect((await fixture.sdk.getTransactionStatus(txHash)).state).to.equal("readyForExecution");
+
+    const before = await Promise.all(payees.map((payee) => ethers.provider.getBalance(payee)));
+    await fixture.sdk.executeApprovedTransaction(txHash);
+    const after = await Promise.all(payees.map((payee) => ethers.provider.getBalance(payee)));
+
+    expect(after.map((balance, i) => balance - before[i])).to.deep.equal(calls.map((call) => call.value));
+    // The account deletes executed transactions; the batch stays readable from its event
+    expect((await fixture.sdk.getBatch(txHash))?.calls).to.have.length(3);
+  });
+
+  it("Should revert the whole batch when one call fails", async () => {
+    const payee = fixture.others[0].address as Address;
+    const txHash = await fixture.sdk.proposeBatch([
+      { to: payee, value: ethers.parseEther("1"), data: "0x", amount: ethers.parseEther("1") },
+      { to: reverting, value: ethers.parseEther("1"), data: "0x", amount: ethers.parseEther("1") }
+    ]);
+    await approveLevel1(txHash);
+
+    const balanceBefore = await ethers.provider.getBalance(payee);
+    try {
+      await fixture.sdk.executeApprovedTransaction(txHash);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect(error).to.be.instanceOf(TransactionFailedError);
+      const inner = (error as TransactionFailedError).innerError!;
+      expect(inner.errorName).to.equal("BatchCallFailed");
+      expect(inner.message).to.include("at index 1");
+    }
+
+    expect(await ethers.provider.getBalance(payee)).to.equal(balanceBefore);
+    expect((await fixture.sdk.getTransactionStatus(txHash)).fullyApproved).to.be.true;
+  });
+
+  it("Should simulate batches before proposing them", async () => {
+    const payee = fixture.others[0].address as Address;
+    fixture.sdk.setProposalSimulation({});
+
+    try {
+      await fixture.sdk.proposeBatch([
+        { to: payee, value: ethers.parseEther("1"), data: "0x", amount: ethers.parseEther("1") },
+        { to: reverting, value: 0n, data: "0x", amount: ethers.parseEther("1") }
+      ]);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as MultiLevelAccountError).errorName).to.equal("SimulationReverted");
+      expect((error as MultiLevelAccountError).message).to.include("at index 1");
+    }
+
+    const txHash = await fixture.sdk.proposeBatch([
+      { to: payee, value: ethers.parseEther("1"), data: "0x", amount: ethers.parseEther("1") },
+      { to: payee, value: ethers.parseEther("2"), data: "0x", amount: ethers.parseEther("2") }
+    ]);
+    expect(fixture.sdk.getProposalSimulation(txHash)?.balanceDeltas).to.deep.equal([
+      { address: getAddress(accountAddress), token: undefined, delta: -ethers.parseEther("3") },
+      { address: getAddress(payee), token: undefined, delta: ethers.parseEther("3") }
+    ]);
+
+    try {
+      await fixture.sdk.proposeBatch([]);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as MultiLevelAccountError).errorName).to.equal("InvalidBatch");
+    }
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Calldata Decoder Tests
+ *
+ * Tests for ABI-registry decoding and plain-English summaries of pending transactions
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  encodeFunctionData,
+  erc1155Abi,
+  erc20Abi,
+  erc721Abi,
+  getAddress,
+  maxUint256,
+  parseAbi
+} from "viem";
+import { CalldataDecoder } from "../../sdk/src/decoding/CalldataDecoder";
+import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI } from "../../sdk/src/contracts/abis";
+import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+
+const TOKEN = getAddress("0x00000000000000000000000000000000000000C0");
+const NFT = getAddress("0x00000000000000000000000000000000000000D0");
+const VAULT = getAddress("0x00000000000000000000000000000000000000E0");
+const ALICE = getAddress("0x0000000000000000000000000000000000000A11");
+const BOB = getAddress("0x0000000000000000000000000000000000000B0B");
+
+describe("Calldata Decoder", () => {
+  describe("Built-in ABIs", () => {
+    it("Should describe token transfers and approvals", () => {
+      const decoder = new CalldataDecoder();
+      const transfer = encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [BOB, 1000_500000n] });
+      const approve = encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [BOB, maxUint256] });
+
+      const unlabelled = decoder.describe(TOKEN, 0n, transfer);
+      expect(unlabelled.decoded?.functionName).to.equal("transfer");
+      expect(unlabelled.decoded?.abiName).to.equal("ERC20");
+      expect(unlabelled.decoded?.args).to.deep.equal([
+        { name: "recipient", type: "address", value: BOB },
+        { name: "amount", type: "uint256", value: 1000_500000n }
+      ]);
+      expect(unlabelled.summary).to.equal(`Transfer 1000500000 units of token ${TOKEN} to ${BOB}`);
+
+      decoder.registerToken(TOKEN, { symbol: "USDC", decimals: 6 });
+      expect(decoder.describe(TOKEN, 0n, transfer).summary).to.equal(`Transfer 1000.5 USDC to ${BOB}`);
+      expect(decoder.describe(TOKEN, 0n, approve).summary).to.equal(`Approve ${BOB} to spend unlimited USDC`);
+    });
+
+    it("Should describe NFTs, plain transfers and unknown selectors", () => {
+      const decoder = new CalldataDecoder();
+      decoder.registerToken(NFT, { symbol: "PUNK", standard: "ERC721" });
+      const nftTransfer = encodeFunctionData({ abi: erc721Abi, functionName: "transferFrom", args: [ALICE, BOB, 42n] });
+      const multiToken = encodeFunctionData({
+        abi: erc1155Abi,
+        functionName: "safeTransferFrom",
+        args: [ALICE, BOB, 7n, 3n, "0x"]
+      });
+
+      const nft = decoder.describe(NFT, 0n, nftTransfer);
+      expect(nft.decoded?.abiName).to.equal("ERC721");
+      expect(nft.summary).to.equal(`Transfer NFT #42 of PUNK from ${ALICE} to ${BOB}`);
+      expect(decoder.describe(VAULT, 0n, multiToken).summary)
+        .to.equal(`Transfer 3 of token #7 of ${VAULT} from ${ALICE} to ${BOB}`);
+
+      const send = decoder.describe(BOB, ethers.parseEther("1.5"), "0x");
+      expect(send.decoded).to.be.null;
+      expect(send.summary).to.equal(`Send 1.5 ETH to ${BOB}`);
+      expect(decoder.describe(VAULT, 1n, "0xdeadbeef").summary)
+        .to.equal(`Call unknown function 0xdeadbeef on ${VAULT}, sending 0.000000000000000001 ETH`);
+    });
+
+    it("Should describe account configuration and signer changes", () => {
+      const decoder = new CalldataDecoder();
+      const configure = encodeFunctionData({
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        functionName: "configureAmountRange",
+        args: [0n, maxUint256, [1n, 2n], [2n, 1n], [3600n, 5400n]]
+      });
+      const addSigner = encodeFunctionData({ abi: LEVEL_ABI, functionName: "addSigner", args: [BOB] });
+
+      const config = decoder.describe(VAULT, 0n, configure, VAULT);
+      expect(config.decoded?.abiName).to.equal("MultiLevelAccount");
+      expect(config.summary).to.equal(
+        `Configure amounts 0 ETH to unlimited on account ${VAULT} to require level 1 (2 signature(s), 1h timelock), ` +
+        "level 2 (1 signature(s), 1h30m timelock)"
+      );
+
+      // The account ABI decodes the same calldata sent to any contract
+      const remove = encodeFunctionData({ abi: MULTI_LEVEL_ACCOUNT_ABI, functionName: "removeAmountRange", args: [0n] });
+      expect(decoder.describe(ALICE, 0n, remove).summary).to.equal(`Remove amount range #0 from account ${ALICE}`);
+      expect(decoder.describe(ALICE, 0n, addSigner).summary).to.equal(`Add signer ${BOB} to level contract ${ALICE}`);
+    });
+  });
+
+  describe("Registry", () => {
+    it("Should prefer registered ABIs and fall back to signature tables", () => {
+      const decoder = new CalldataDecoder();
+      const vaultAbi = parseAbi(["function deposit(uint256 assets, address receiver)"]);
+      const data = encodeFunctionData({ abi: vaultAbi, functionName: "deposit", args: [5n, ALICE] });
+
+      expect(decoder.decode(VAULT, data)).to.be.null;
+
+      decoder.registerSignatures({ [data.slice(0, 10)]: "deposit(uint256,address)" });
+      const fromTable = decoder.decode(VAULT, data)!;
+      expect(fromTable.abiName).to.equal("signatures");
+      expect(fromTable.args.map((a) => a.name)).to.deep.equal([undefined, undefined]);
+
+      decoder.registerAbi(vaultAbi, { name: "Vault", address: VAULT });
+      const registered = decoder.describe(VAULT, 0n, data);
+      expect(registered.decoded?.abiName).to.equal("Vault");
+      expect(registered.decoded?.args.map((a) => a.name)).to.deep.equal(["assets", "receiver"]);
+      expect(registered.summary).to.equal(`Call deposit(5, ${ALICE}) on ${VAULT}`);
+
+      // Address-scoped ABIs do not apply to other targets
+      expect(decoder.decode(TOKEN, data)?.abiName).to.equal("signatures");
+      expect(() => decoder.registerSignatures({ "0x12345678": "deposit(uint256,address)" }))
+        .to.throw("has selector");
+    });
+  });
+
+  describe("Pending Transactions", () => {
+    let fixture: SDKFixture;
+
+    beforeEach(async () => {
+      fixture = await deploySDKFixture();
+
+      await fixture.owner.sendTransaction({
+        to: await fixture.account.getAddress(),
+        value: ethers.parseEther("100")
+      });
+    });
+
+    it("Should attach decoded calls and summaries for approvers", async () => {
+      fixture.sdk.getCalldataDecoder().registerToken(TOKEN, { symbol: "USDC", decimals: 6 });
+      const transfer = encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [BOB, 250_000000n] });
+      const tokenTx = await fixture.sdk.proposeTransaction(TOKEN, 0n, transfer, ethers.parseEther("1"));
+
+      fixture.sdk.setConfigGovernance({ routingAmount: ethers.parseEther("1") });
+      const removeTx = await fixture.sdk.removeAmountRange(2);
+
+      const pending = await fixture.sdk.getSignerInterface(1).getPendingTransactions();
+      const byHash = new Map(pending.map((tx) => [tx.txHash, tx]));
+
+      expect(byHash.get(tokenTx)?.decoded?.functionName).to.equal("transfer");
+      expect(byHash.get(tokenTx)?.summary).to.equal(`Transfer 250 USDC to ${BOB}`);
+      expect(byHash.get(removeTx)?.summary)
+        .to.equal(`Remove amount range #2 from account ${await fixture.account.getAddress()}`);
+      expect(fixture.sdk.describeCall(BOB, ethers.parseEther("1"), "0x").summary)
+        .to.equal(`Send 1 ETH to ${BOB}`);
+    });
+  });
+});
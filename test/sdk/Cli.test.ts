@@ -0,0 +1,153 @@
+/**
+ * CLI Tests
+ *
+ * Tests for the mla command line, run in-process against the hardhat network
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { custom, getAddress, recoverMessageAddress, type Hex, type WalletClient, createWalletClient } from "viem";
+import { runCli } from "../../sdk/src/cli/runCli";
+import { loadLocalSigner, localSignerTransport } from "../../sdk/src/cli/localSigner";
+import { createHardhatPublicClient } from "../helpers/hardhat-transport";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+const TEST_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+describe("CLI", () => {
+  let fixture: SDKFixture;
+  let baseArgs: string[];
+  let stdout: string[];
+  let stderr: string[];
+
+  async function mla(args: string[], walletClient?: WalletClient): Promise<number> {
+    stdout = [];
+    stderr = [];
+    return await runCli([...args, ...baseArgs], {
+      env: {},
+      publicClient: createHardhatPublicClient(),
+      walletClient,
+      io: { stdout: (text) => stdout.push(text), stderr: (text) => stderr.push(text) }
+    });
+  }
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    baseArgs = [
+      "--account", await fixture.account.getAddress(),
+      "--entry-point", await fixture.entryPoint.getAddress()
+    ];
+
+    await fixture.owner.sendTransaction({
+      to: await fixture.account.getAddress(),
+      value: ethers.parseEther("100")
+    });
+  });
+
+  it("Should propose, inspect and sign a transaction", async () => {
+    const { walletClient: ownerWallet } = await createViemClientsFromEthersSigner(fixture.owner);
+    const { walletClient: ops1Wallet } = await createViemClientsFromEthersSigner(fixture.ops1);
+    const to = fixture.others[0].address;
+
+    expect(await mla(["propose", "--to", to, "--value", "1.5", "--amount", "5000", "--json"], ownerWallet)).to.equal(0);
+    const { txHash } = JSON.parse(stdout[0]);
+
+    expect(await mla(["pending", "--level", "1"])).to.equal(0);
+    expect(stdout[0].split("\n")).to.deep.equal([
+      txHash,
+      `  Send 1.5 ETH to ${to}`,
+      "  Amount 5000 ETH, 0/2 signatures"
+    ]);
+
+    expect(await mla(["sign", txHash, "--level", "1"], ops1Wallet)).to.equal(0);
+    expect(stdout[0]).to.match(new RegExp(`^Signed ${txHash} at level 1 \\(transaction 0x[0-9a-f]{64}\\)$`));
+
+    expect(await mla(["status", txHash, "--json"])).to.equal(0);
+    const status = JSON.parse(stdout[0]);
+    expect(status.state).to.equal("awaitingSignatures");
+    expect(status.amount).to.equal(ethers.parseEther("5000").toString());
+    expect(status.levelStatuses[0].signaturesCollected).to.equal(1);
+
+    expect(await mla(["status", txHash])).to.equal(0);
+    expect(stdout[0]).to.include("State:    awaitingSignatures");
+    expect(stdout[0]).to.include("Level 1:  1/2 signatures, collecting signatures");
+  });
+
+  it("Should list and apply amount ranges and show diagnostics", async () => {
+    expect(await mla(["ranges", "list"])).to.equal(0);
+    expect(stdout[0].split("\n")[0]).to.equal("#0  0 ETH to 10000 ETH: level 1 (quorum 2, timelock 1h)");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mla-"));
+    const policyFile = path.join(dir, "policy.yaml");
+    fs.writeFileSync(policyFile, [
+      "ranges:",
+      "  - { min: 0, max: unlimited, levels: [{ id: 1, quorum: 1, timelock: 30m }] }"
+    ].join("\n"));
+
+    expect(await mla(["ranges", "apply", policyFile, "--dry-run", "--json"])).to.equal(0);
+    const { plan, transactionHashes } = JSON.parse(stdout[0]);
+    expect(plan.steps.map((step: { type: string }) => step.type))
+      .to.deep.equal(["configureAmountRange", "removeAmountRange", "removeAmountRange", "removeAmountRange"]);
+    expect(transactionHashes).to.have.length(0);
+
+    expect(await mla(["diagnostics"])).to.equal(0);
+    expect(stdout[0]).to.include(`Owner:         ${fixture.owner.address}`);
+    expect(stdout[0]).to.include("Amount ranges: 3");
+  });
+
+  it("Should report usage and command errors", async () => {
+    expect(await mla(["frobnicate"])).to.equal(2);
+    expect(stderr[0]).to.include('Unknown command "frobnicate"');
+
+    expect(await mla(["sign", ethers.ZeroHash])).to.equal(2);
+    expect(stderr[0]).to.include("--level is required");
+
+    expect(await mla(["execute", ethers.ZeroHash, "--json"], (await createViemClientsFromEthersSigner(fixture.owner)).walletClient)).to.equal(1);
+    expect(JSON.parse(stderr[0]).error.errorName).to.equal("NotFullyApproved");
+  });
+
+  it("Should sign with a private key or keystore", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mla-"));
+    const keystore = path.join(dir, "key.json");
+    const wallet = new ethers.Wallet(TEST_KEY);
+    fs.writeFileSync(keystore, ethers.encryptKeystoreJsonSync(
+      { address: wallet.address, privateKey: wallet.privateKey },
+      "hunter2",
+      { scrypt: { N: 1024 } }
+    ));
+    fs.writeFileSync(path.join(dir, "password"), "hunter2\n");
+
+    const fromKey = await loadLocalSigner({ privateKey: TEST_KEY.slice(2) });
+    const fromKeystore = await loadLocalSigner({ keystore, passwordFile: path.join(dir, "password") });
+    expect(fromKey?.address).to.equal(wallet.address);
+    expect(fromKeystore?.address).to.equal(wallet.address);
+    expect(await loadLocalSigner({})).to.be.undefined;
+    try {
+      await loadLocalSigner({ keystore, password: "wrong" });
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect((error as Error).message).to.include("incorrect password");
+    }
+
+    const forwarded: string[] = [];
+    const client = createWalletClient({
+      transport: localSignerTransport(fromKey!, custom({
+        request: async ({ method }) => {
+          forwarded.push(method);
+          return "0x1";
+        }
+      }))
+    });
+    const [address] = await client.getAddresses();
+    expect(address).to.equal(getAddress(wallet.address));
+
+    const signature = await client.signMessage({ account: address, message: { raw: ethers.ZeroHash as Hex } });
+    expect(await recoverMessageAddress({ message: { raw: ethers.ZeroHash as Hex }, signature }))
+      .to.equal(getAddress(wallet.address));
+    expect(await client.request({ method: "eth_chainId" } as any)).to.equal("0x1");
+    expect(forwarded).to.deep.equal(["eth_chainId"]);
+  });
+});
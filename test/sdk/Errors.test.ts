@@ -0,0 +1,181 @@
+/**
+ * Error Decoding Tests
+ *
+ * Tests for typed revert decoding of MultiLevelAccount, Level and EntryPoint errors
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { encodeErrorResult, type Hex } from "viem";
+import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
+import {
+  AccountContractError,
+  EntryPointError,
+  LevelContractError,
+  MultiLevelAccountError,
+  TransactionFailedError,
+  decodeError,
+  decodeRevertData
+} from "../../sdk/src/errors";
+import { MULTI_LEVEL_ACCOUNT_ABI, LEVEL_ABI, ENTRY_POINT_ABI } from "../../sdk/src/contracts/abis";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+const ERROR_STRING_ABI = [
+  { type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] }
+] as const;
+
+describe("Error Decoding", () => {
+  describe("decodeRevertData", () => {
+    it("Should decode MultiLevelAccount custom errors", () => {
+      const data = encodeErrorResult({ abi: MULTI_LEVEL_ACCOUNT_ABI, errorName: "NoConfigForAmount" });
+      const error = decodeRevertData(data);
+
+      expect(error).to.be.instanceOf(AccountContractError);
+      expect(error.errorName).to.equal("NoConfigForAmount");
+      expect(error.message).to.include("configureAmountRange");
+      expect(error.data).to.equal(data);
+    });
+
+    it("Should decode Level custom errors", () => {
+      const data = encodeErrorResult({ abi: LEVEL_ABI, errorName: "TimelockActive" });
+      const error = decodeRevertData(data);
+
+      expect(error).to.be.instanceOf(LevelContractError);
+      expect(error.errorName).to.equal("TimelockActive");
+    });
+
+    it("Should decode malformed approvals as a Level error", () => {
+      const data = encodeErrorResult({ abi: LEVEL_ABI, errorName: "InvalidApprovalsLength" });
+      const error = decodeRevertData(data);
+
+      expect(error).to.be.instanceOf(LevelContractError);
+      expect(error.errorName).to.equal("InvalidApprovalsLength");
+      expect(error.message).to.include("65-byte signatures");
+    });
+
+    it("Should decode nested TransactionFailed return data", () => {
+      const inner = encodeErrorResult({ abi: ERROR_STRING_ABI, errorName: "Error", args: ["Target paused"] });
+      const data = encodeErrorResult({
+        abi: MULTI_LEVEL_ACCOUNT_ABI,
+        errorName: "TransactionFailed",
+        args: [inner]
+      });
+      const error = decodeRevertData(data);
+
+      expect(error).to.be.instanceOf(TransactionFailedError);
+      const failed = error as TransactionFailedError;
+      expect(failed.returnData).to.equal(inner);
+      expect(failed.innerError?.errorName).to.equal("Error");
+      expect(failed.message).to.include("Target paused");
+    });
+
+    it("Should decode EntryPoint FailedOp with AA code", () => {
+      const data = encodeErrorResult({
+        abi: ENTRY_POINT_ABI,
+        errorName: "FailedOp",
+        args: [0n, "AA21 didn't pay prefund"]
+      });
+      const error = decodeRevertData(data);
+
+      expect(error).to.be.instanceOf(EntryPointError);
+      expect((error as EntryPointError).aaCode).to.equal("AA21");
+      expect((error as EntryPointError).opIndex).to.equal(0n);
+      expect(error.message).to.include("prefund");
+    });
+
+    it("Should decode FailedOpWithRevert inner account errors", () => {
+      const inner = encodeErrorResult({ abi: MULTI_LEVEL_ACCOUNT_ABI, errorName: "InvalidSignature" });
+      const data = encodeErrorResult({
+        abi: ENTRY_POINT_ABI,
+        errorName: "FailedOpWithRevert",
+        args: [0n, "AA23 reverted", inner]
+      });
+      const error = decodeRevertData(data) as EntryPointError;
+
+      expect(error.aaCode).to.equal("AA23");
+      expect(error.innerError).to.be.instanceOf(AccountContractError);
+      expect(error.innerError?.errorName).to.equal("InvalidSignature");
+    });
+
+    it("Should fall back to Unknown for unrecognized selectors", () => {
+      const error = decodeRevertData("0xdeadbeef");
+
+      expect(error).to.be.instanceOf(MultiLevelAccountError);
+      expect(error.errorName).to.equal("Unknown");
+    });
+  });
+
+  describe("decodeError", () => {
+    it("Should recognize AA codes in bundler messages", () => {
+      const error = decodeError(new Error("UserOperation reverted during simulation with reason: AA25 invalid account nonce"));
+
+      expect(error).to.be.instanceOf(EntryPointError);
+      expect((error as EntryPointError).aaCode).to.equal("AA25");
+    });
+
+    it("Should decode revert data from the cause chain", () => {
+      const data = encodeErrorResult({ abi: LEVEL_ABI, errorName: "AlreadySigned" });
+      const rpcError = Object.assign(new Error("execution reverted"), { data });
+      const error = decodeError(Object.assign(new Error("call failed"), { cause: rpcError }));
+
+      expect(error).to.be.instanceOf(LevelContractError);
+      expect(error.errorName).to.equal("AlreadySigned");
+      expect(error.cause).to.exist;
+    });
+
+    it("Should pass through existing SDK errors", () => {
+      const original = new AccountContractError("Unauthorized: Caller is not authorized", "Unauthorized");
+
+      expect(decodeError(original)).to.equal(original);
+    });
+  });
+
+  describe("SDK Integration", () => {
+    let fixture: SDKFixture;
+
+    beforeEach(async () => {
+      fixture = await deploySDKFixture();
+
+      await fixture.owner.sendTransaction({
+        to: await fixture.account.getAddress(),
+        value: ethers.parseEther("100")
+      });
+    });
+
+    it("Should throw a typed error when executing an unapproved transaction", async () => {
+      const to = fixture.others[0].address;
+      const txHash = await fixture.sdk.proposeTransaction(to, ethers.parseEther("1"), "0x", ethers.parseEther("1"));
+
+      try {
+        await fixture.sdk.executeApprovedTransaction(txHash as Hex);
+        expect.fail("Should have thrown");
+      } catch (error) {
+        expect(error).to.be.instanceOf(AccountContractError);
+        expect((error as AccountContractError).errorName).to.equal("NotFullyApproved");
+      }
+    });
+
+    it("Should throw a typed error when a signer signs twice", async () => {
+      const to = fixture.others[0].address;
+      const txHash = await fixture.sdk.proposeTransaction(to, ethers.parseEther("1"), "0x", ethers.parseEther("20000"));
+
+      const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.ops1);
+      const sdkForOps1 = new MultiLevelAccountSDK(
+        await fixture.account.getAddress(),
+        await fixture.entryPoint.getAddress(),
+        publicClient,
+        walletClient
+      );
+      const level1Interface = sdkForOps1.getSignerInterface(1);
+      await level1Interface.sign(txHash);
+
+      try {
+        await level1Interface.sign(txHash);
+        expect.fail("Should have thrown");
+      } catch (error) {
+        expect(error).to.be.instanceOf(LevelContractError);
+        expect((error as LevelContractError).errorName).to.equal("AlreadySigned");
+      }
+    });
+  });
+});
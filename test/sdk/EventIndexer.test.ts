@@ -0,0 +1,214 @@
+/**
+ * EventIndexer Tests
+ *
+ * Tests for incremental event indexing, reorg recovery and storage adapters
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import { promises as fs } from "fs";
+import Database from "better-sqlite3";
+import type { PublicClient } from "viem";
+import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
+import { EventIndexer } from "../../sdk/src/indexer/EventIndexer";
+import { MemoryEventStore } from "../../sdk/src/indexer/MemoryEventStore";
+import { FileEventStore } from "../../sdk/src/indexer/FileEventStore";
+import { SqliteEventStore } from "../../sdk/src/indexer/SqliteEventStore";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+describe("EventIndexer", () => {
+  let fixture: SDKFixture;
+  let publicClient: PublicClient;
+  let accountAddress: string;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    accountAddress = await fixture.account.getAddress();
+    ({ publicClient } = await createViemClientsFromEthersSigner(fixture.owner));
+
+    await fixture.owner.sendTransaction({
+      to: accountAddress,
+      value: ethers.parseEther("100")
+    });
+  });
+
+  async function propose(amountEth: string): Promise<string> {
+    return fixture.sdk.proposeTransaction(
+      fixture.others[0].address,
+      ethers.parseEther("1"),
+      "0x",
+      ethers.parseEther(amountEth)
+    );
+  }
+
+  describe("Incremental Sync", () => {
+    it("Should index account and level events and advance the checkpoint", async () => {
+      const first = await propose("1");
+      const indexer = new EventIndexer(accountAddress, publicClient);
+
+      const firstBlock = await indexer.sync();
+      const proposed = await indexer.getLogs({ eventName: "TransactionProposed" });
+      expect(proposed.map((log) => log.args.txHash)).to.deep.equal([first]);
+      expect((await indexer.getCheckpoint())!.blockNumber).to.equal(firstBlock);
+
+      // Level logs are indexed under the level address
+      const submitted = await indexer.getLogs({
+        address: await fixture.level1.getAddress(),
+        eventName: "TransactionSubmitted",
+        txHash: first
+      });
+      expect(submitted).to.have.length(1);
+
+      const second = await propose("2");
+      const secondBlock = await indexer.sync();
+
+      expect(secondBlock).to.be.greaterThan(firstBlock);
+      const all = await indexer.getLogs({ eventName: "TransactionProposed" });
+      expect(all.map((log) => log.args.txHash)).to.deep.equal([first, second]);
+    });
+
+    it("Should discard logs from reorged blocks", async () => {
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      const orphaned = await propose("1");
+
+      const indexer = new EventIndexer(accountAddress, publicClient, new MemoryEventStore());
+      await indexer.sync();
+
+      // Replace the indexed blocks with a different chain of the same height
+      await ethers.provider.send("evm_revert", [snapshot]);
+      await ethers.provider.send("evm_mine", []);
+      const replacement = await propose("2");
+
+      await indexer.sync();
+      const proposed = await indexer.getLogs({ eventName: "TransactionProposed" });
+
+      expect(proposed.map((log) => log.args.txHash)).to.deep.equal([replacement]);
+      expect(proposed.map((log) => log.args.txHash)).to.not.include(orphaned);
+    });
+
+    it("Should walk a reorg deeper than the latest checkpoint back to the fork point", async () => {
+      const kept = await propose("1");
+      const store = new MemoryEventStore();
+      const indexer = new EventIndexer(accountAddress, publicClient, store);
+      const forkBlock = await indexer.sync();
+
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      const orphaned = await propose("2");
+      await ethers.provider.send("hardhat_mine", ["0x14"]);
+      await indexer.sync();
+
+      // Replace 21 blocks, deeper than any fixed rollback window
+      await ethers.provider.send("evm_revert", [snapshot]);
+      const replacement = await propose("3");
+      await ethers.provider.send("hardhat_mine", ["0x15"]);
+
+      await indexer.sync();
+      const proposed = await indexer.getLogs({ eventName: "TransactionProposed" });
+
+      expect(proposed.map((log) => log.args.txHash)).to.deep.equal([kept, replacement]);
+      expect(proposed.map((log) => log.args.txHash)).to.not.include(orphaned);
+      // Rolled back to the shared checkpoint rather than re-indexing from scratch
+      const checkpoints = await store.getCheckpoints();
+      expect(checkpoints.map((c) => c.blockNumber)).to.include(forkBlock);
+    });
+  });
+
+  describe("FileEventStore", () => {
+    it("Should persist logs and checkpoint across instances", async () => {
+      const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "mla-index-")), "events.json");
+      const txHash = await propose("1");
+
+      const indexer = new EventIndexer(accountAddress, publicClient, new FileEventStore(filePath));
+      const indexedBlock = await indexer.sync();
+
+      const reloaded = new FileEventStore(filePath);
+      const checkpoint = await reloaded.getCheckpoint();
+      const [proposed] = await reloaded.getLogs({ eventName: "TransactionProposed" });
+
+      expect(checkpoint!.blockNumber).to.equal(indexedBlock);
+      expect(proposed.args.txHash).to.equal(txHash);
+      expect(proposed.args.amount).to.equal(ethers.parseEther("1"));
+    });
+  });
+
+  describe("SqliteEventStore", () => {
+    it("Should persist logs and checkpoints across connections", async () => {
+      const dbPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "mla-index-")), "events.db");
+      const first = await propose("1");
+      const second = await propose("2");
+
+      const db = new Database(dbPath);
+      const indexer = new EventIndexer(accountAddress, publicClient, new SqliteEventStore(db));
+      const indexedBlock = await indexer.sync();
+      db.close();
+
+      const reopened = new Database(dbPath);
+      const reloaded = new SqliteEventStore(reopened);
+      const checkpoint = await reloaded.getCheckpoint();
+      const proposed = await reloaded.getLogs({ eventName: "TransactionProposed" });
+      const [submitted] = await reloaded.getLogs({
+        address: await fixture.level1.getAddress(),
+        eventName: ["TransactionSubmitted"],
+        txHash: second
+      });
+
+      expect(checkpoint!.blockNumber).to.equal(indexedBlock);
+      expect(proposed.map((log) => log.args.txHash)).to.deep.equal([first, second]);
+      expect(proposed[0].args.amount).to.equal(ethers.parseEther("1"));
+      expect(submitted.args.txHash).to.equal(second);
+      reopened.close();
+    });
+
+    it("Should drop logs and checkpoints after the rollback checkpoint", async () => {
+      const db = new Database(":memory:");
+      const store = new SqliteEventStore(db, "account_a");
+      const log = (blockNumber: bigint) => ({
+        address: accountAddress.toLowerCase(),
+        eventName: "TransactionProposed",
+        args: { amount: blockNumber },
+        blockNumber,
+        blockHash: `0x${blockNumber.toString(16)}`,
+        logIndex: 0,
+        transactionHash: "0x01"
+      });
+
+      await store.saveLogs([log(1n)], { blockNumber: 1n, blockHash: "0x1" });
+      await store.saveLogs([log(2n)], { blockNumber: 2n, blockHash: "0x2" });
+      await store.saveLogs([log(3n)], { blockNumber: 3n, blockHash: "0x3" });
+      await store.rollback({ blockNumber: 1n, blockHash: "0x1" });
+
+      expect((await store.getLogs()).map((l) => l.blockNumber)).to.deep.equal([1n]);
+      expect(await store.getCheckpoints()).to.deep.equal([{ blockNumber: 1n, blockHash: "0x1" }]);
+      // Other prefixes in the same database are untouched
+      expect(await new SqliteEventStore(db, "account_b").getCheckpoint()).to.equal(null);
+      db.close();
+    });
+  });
+
+  describe("SDK Integration", () => {
+    it("Should serve signer pending transactions and history from the index", async () => {
+      const txHash = await propose("1");
+
+      const { publicClient: ops1PublicClient, walletClient: ops1WalletClient } =
+        await createViemClientsFromEthersSigner(fixture.ops1);
+      const sdkForOps1 = new MultiLevelAccountSDK(
+        accountAddress,
+        await fixture.entryPoint.getAddress(),
+        ops1PublicClient,
+        ops1WalletClient
+      );
+      sdkForOps1.setEventIndexer(new EventIndexer(accountAddress, ops1PublicClient));
+
+      const pending = await sdkForOps1.getSignerInterface(1).getPendingTransactions();
+      expect(pending.map((tx) => tx.txHash)).to.deep.equal([txHash]);
+
+      await fixture.level1.connect(fixture.ops1).deny(txHash);
+
+      const history = await sdkForOps1.getTransactionHistory();
+      expect(history.entries[0].outcome).to.equal("denied");
+      expect(await sdkForOps1.getSignerInterface(1).getPendingTransactions()).to.have.length(0);
+    });
+  });
+});
@@ -6,9 +6,57 @@
 
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { createPublicClient, type PublicClient, type Transport } from "viem";
+import { hardhat } from "viem/chains";
 import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
+import { EventMonitor } from "../../sdk/src/EventMonitor";
+import type { AccountEvent, TransactionStatus, TransactionStatusChangeSet } from "../../sdk/src/types";
+import { diffTransactionStatus } from "../../sdk/src/utils/statusDiff";
+import { deriveTransactionState } from "../../sdk/src/utils/transactionState";
+import { hardhatTransport, createHardhatPublicClient } from "../helpers/hardhat-transport";
 import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
 
+/**
+ * Client whose transport reports as WebSocket; logs are pushed to
+ * eth_subscribe handlers by calling relay() after mining
+ */
+function createSubscriptionClient(): { client: PublicClient; relay: (fromBlock: number) => Promise<void> } {
+  const subscriptions: { filter: any; onData: (data: { result: unknown }) => void }[] = [];
+  const transport: Transport = (config) => {
+    const base = hardhatTransport()(config);
+    return {
+      ...base,
+      config: { ...base.config, type: "webSocket" },
+      value: {
+        subscribe: async ({ params, onData }: any) => {
+          subscriptions.push({ filter: params[1], onData });
+          return { subscriptionId: "0x1", unsubscribe: async () => undefined };
+        }
+      }
+    } as any;
+  };
+
+  const relay = async (fromBlock: number) => {
+    for (const { filter, onData } of subscriptions) {
+      const logs = await ethers.provider.send("eth_getLogs", [{
+        address: filter.address,
+        fromBlock: ethers.toQuantity(fromBlock)
+      }]);
+      logs.forEach((log: unknown) => onData({ result: log }));
+    }
+  };
+
+  return { client: createPublicClient({ chain: hardhat, transport }) as PublicClient, relay };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
 describe("EventMonitor", () => {
   let fixture: SDKFixture;
   
@@ -127,5 +175,255 @@ describe("EventMonitor", () => {
       expect(status.levelStatuses[0].signaturesRequired).to.equal(3);
     });
   });
+  
+  describe("Event Subscriptions", () => {
+    it("Should emit typed events by polling when subscriptions are unavailable", async () => {
+      const monitor = new EventMonitor(await fixture.account.getAddress(), createHardhatPublicClient());
+      const events: AccountEvent[] = [];
+      const unsubscribe = monitor.watchEvents((event) => events.push(event), { pollingInterval: 100 });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1")
+      );
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      
+      await waitFor(() => events.some((e) => e.type === "timelockStarted"));
+      unsubscribe();
+      
+      expect(events.map((e) => e.type)).to.deep.equal([
+        "proposed",
+        "submitted",
+        "signed",
+        "signed",
+        "quorumReached",
+        "timelockStarted"
+      ]);
+      const signed = events.find((e) => e.type === "signed");
+      expect(signed).to.include({ levelId: 1, signatureCount: 1, requiredQuorum: 2 });
+      expect(events.every((e) => e.txHash === txHash)).to.be.true;
+    });
+    
+    it("Should receive pushed events over a subscription transport", async () => {
+      const { client, relay } = createSubscriptionClient();
+      const monitor = new EventMonitor(await fixture.account.getAddress(), client);
+      const events: AccountEvent[] = [];
+      const unsubscribe = monitor.watchEvents((event) => events.push(event), { types: ["proposed", "denied"] });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      
+      const startBlock = await ethers.provider.getBlockNumber() + 1;
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1")
+      );
+      await fixture.level1.connect(fixture.ops3).deny(txHash);
+      await relay(startBlock);
+      unsubscribe();
+      
+      expect(events.map((e) => e.type)).to.deep.equal(["proposed", "denied"]);
+      const denied = events[1] as Extract<AccountEvent, { type: "denied" }>;
+      expect(denied.levelId).to.equal(1);
+      expect(denied.denier.toLowerCase()).to.equal(fixture.ops3.address.toLowerCase());
+    });
+    
+    it("Should refresh transaction status on pushed events", async () => {
+      const { client, relay } = createSubscriptionClient();
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1")
+      );
+      
+      const monitor = new EventMonitor(await fixture.account.getAddress(), client);
+      const statuses: TransactionStatus[] = [];
+      const unsubscribe = monitor.watchTransaction(txHash, (status) => statuses.push(status));
+      await waitFor(() => statuses.length === 1);
+      
+      const startBlock = await ethers.provider.getBlockNumber() + 1;
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await relay(startBlock);
+      await waitFor(() => statuses.length === 2);
+      unsubscribe();
+      
+      expect(statuses[0].levelStatuses[0].signaturesCollected).to.equal(0);
+      expect(statuses[1].levelStatuses[0].signaturesCollected).to.equal(1);
+    });
+  });
+  
+  describe("Status Change Sets", () => {
+    function makeStatus(overrides: Partial<TransactionStatus["levelStatuses"][0]>, index = 0): TransactionStatus {
+      return {
+        txHash: "0x01",
+        to: fixture.others[0].address,
+        value: 0n,
+        amount: 0n,
+        proposedAt: new Date(0),
+        currentLevelIndex: index,
+        fullyApproved: false,
+        state: "awaitingSignatures",
+        nextAction: { type: "none", description: "" },
+        levelStatuses: [{
+          levelId: 1,
+          submitted: true,
+          approved: false,
+          denied: false,
+          signaturesCollected: 0,
+          signaturesRequired: 2,
+          timelockRemaining: 0,
+          ...overrides
+        }]
+      };
+    }
+    
+    it("Should diff signatures and timelock transitions but not countdown ticks", () => {
+      const initial = makeStatus({});
+      const quorum = makeStatus({ signaturesCollected: 2, timelockRemaining: 3600 });
+      const ticking = makeStatus({ signaturesCollected: 2, timelockRemaining: 1200 });
+      const expired = makeStatus({ signaturesCollected: 2, timelockRemaining: 0 });
+      
+      expect(diffTransactionStatus(null, initial)).to.deep.equal([]);
+      expect(diffTransactionStatus(initial, quorum)).to.deep.equal([
+        { type: "signatureAdded", levelId: 1, previousCount: 0, signaturesCollected: 2, signaturesRequired: 2 },
+        { type: "timelockStarted", levelId: 1, timelockRemaining: 3600 }
+      ]);
+      expect(diffTransactionStatus(quorum, ticking)).to.deep.equal([]);
+      expect(diffTransactionStatus(ticking, expired)).to.deep.equal([{ type: "timelockExpired", levelId: 1 }]);
+    });
+    
+    it("Should diff approvals, denials and level advances", () => {
+      const before = makeStatus({ signaturesCollected: 2 });
+      const approved = { ...makeStatus({ signaturesCollected: 2, approved: true }, 1), fullyApproved: true };
+      
+      expect(diffTransactionStatus(before, approved).map((c) => c.type)).to.deep.equal([
+        "levelApproved",
+        "levelAdvanced",
+        "fullyApproved"
+      ]);
+      expect(diffTransactionStatus(before, makeStatus({ signaturesCollected: 2, denied: true }))).to.deep.equal([
+        { type: "levelDenied", levelId: 1 }
+      ]);
+    });
+    
+    it("Should report each co-signer action to watchers", async () => {
+      const { client, relay } = createSubscriptionClient();
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1")
+      );
+      
+      const monitor = new EventMonitor(await fixture.account.getAddress(), client);
+      const changeSets: TransactionStatusChangeSet[] = [];
+      const unsubscribe = monitor.watchTransaction(txHash, (_status, changeSet) => changeSets.push(changeSet));
+      await waitFor(() => changeSets.length === 1);
+      
+      let startBlock = await ethers.provider.getBlockNumber() + 1;
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await relay(startBlock);
+      await waitFor(() => changeSets.length === 2);
+      
+      startBlock = await ethers.provider.getBlockNumber() + 1;
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      await relay(startBlock);
+      await waitFor(() => changeSets.length === 3);
+      unsubscribe();
+      
+      expect(changeSets[0].previous).to.be.null;
+      expect(changeSets[1].changes).to.deep.equal([
+        { type: "signatureAdded", levelId: 1, previousCount: 0, signaturesCollected: 1, signaturesRequired: 2 }
+      ]);
+      expect(changeSets[2].changes.map((c) => c.type)).to.deep.equal([
+        "signatureAdded",
+        "timelockStarted",
+        "stateChanged"
+      ]);
+    });
+  });
+  
+  describe("Lifecycle State", () => {
+    it("Should derive state and next action through the whole lifecycle", async () => {
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1")
+      );
+      
+      let status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.state).to.equal("awaitingSignatures");
+      expect(status.nextAction).to.include({ type: "sign", levelId: 1, signaturesNeeded: 2 });
+      expect(status.nextAction.description).to.equal("Needs 2 more signatures at level 1");
+      
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.state).to.equal("inTimelock");
+      expect(status.nextAction).to.include({ type: "completeTimelock", levelId: 1 });
+      
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.state).to.equal("awaitingTimelockCompletion");
+      expect(status.nextAction).to.include({ type: "completeTimelock", timelockRemaining: 0 });
+      
+      await fixture.level1.completeTimelock(txHash);
+      status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.state).to.equal("readyForExecution");
+      expect(status.nextAction.type).to.equal("executeApprovedTransaction");
+      
+      await fixture.account.executeApprovedTransaction(txHash);
+      status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.state).to.equal("executed");
+      expect(status.nextAction.type).to.equal("none");
+    });
+    
+    it("Should report denied transactions after storage is deleted", async () => {
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("20000")
+      );
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await fixture.level1.completeTimelock(txHash);
+      
+      const advanced = await fixture.sdk.getTransactionStatus(txHash);
+      expect(advanced.nextAction).to.include({ type: "sign", levelId: 2, signaturesNeeded: 2 });
+      
+      await fixture.level2.connect(fixture.comp1).deny(txHash);
+      const status = await fixture.sdk.getTransactionStatus(txHash);
+      
+      expect(status.state).to.equal("denied");
+      expect(status.nextAction.description).to.equal("Denied at level 2");
+    });
+    
+    it("Should report state transitions without spurious level changes on execution", () => {
+      const levelStatuses = [{
+        levelId: 1,
+        submitted: true,
+        approved: true,
+        denied: false,
+        signaturesCollected: 2,
+        signaturesRequired: 2,
+        timelockRemaining: 0
+      }];
+      const base = {
+        txHash: "0x01",
+        to: fixture.others[0].address,
+        value: 0n,
+        amount: 0n,
+        proposedAt: new Date(0),
+        levelStatuses
+      };
+      const ready: TransactionStatus = {
+        ...base,
+        currentLevelIndex: 1,
+        fullyApproved: true,
+        ...deriveTransactionState(levelStatuses, 1, true, true)
+      };
+      const executed: TransactionStatus = {
+        ...base,
+        currentLevelIndex: 0,
+        fullyApproved: false,
+        ...deriveTransactionState(levelStatuses, 0, false, false)
+      };
+      
+      expect(diffTransactionStatus(ready, executed)).to.deep.equal([
+        { type: "stateChanged", from: "readyForExecution", to: "executed" }
+      ]);
+    });
+  });
 });
-
@@ -0,0 +1,246 @@
+/**
+ * Keeper Tests
+ *
+ * Tests for automatic timelock completion and execution
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { Address } from "viem";
+import { Keeper } from "../../sdk/src/Keeper";
+import { EventIndexer } from "../../sdk/src/indexer/EventIndexer";
+import { getDeploymentBlock } from "../../sdk/src/utils/accountReads";
+import type { KeeperActionResult } from "../../sdk/src/types";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe("Keeper", () => {
+  let fixture: SDKFixture;
+  let keeper: Keeper | undefined;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+
+    await fixture.owner.sendTransaction({
+      to: await fixture.account.getAddress(),
+      value: ethers.parseEther("100")
+    });
+  });
+
+  afterEach(() => {
+    keeper?.stop();
+    keeper = undefined;
+  });
+
+  async function proposeWithQuorum(): Promise<string> {
+    const txHash = await fixture.sdk.proposeTransaction(
+      fixture.others[0].address,
+      ethers.parseEther("1"),
+      "0x",
+      ethers.parseEther("1")
+    );
+    await fixture.level1.connect(fixture.ops1).sign(txHash);
+    await fixture.level1.connect(fixture.ops2).sign(txHash);
+    return txHash;
+  }
+
+  async function expireTimelock(): Promise<void> {
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("Should complete timelocks of transactions waiting on start", async () => {
+    const txHash = await proposeWithQuorum();
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.others[1]);
+    keeper = new Keeper([await fixture.account.getAddress()], publicClient, walletClient);
+    await keeper.start();
+
+    const [scheduled] = keeper.getScheduled();
+    expect(scheduled.action).to.include({ type: "completeTimelock", txHash, levelId: 1 });
+    expect(await keeper.runDue()).to.have.length(0);
+
+    await expireTimelock();
+    const [result] = await keeper.runDue();
+
+    expect(result.status).to.equal("sent");
+    expect(result.transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(await fixture.account.fullyApproved(txHash)).to.be.true;
+    expect(keeper.getScheduled()).to.have.length(0);
+  });
+
+  it("Should send a due action once when runs overlap", async () => {
+    const txHash = await proposeWithQuorum();
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.others[1]);
+    keeper = new Keeper([await fixture.account.getAddress()], publicClient, walletClient);
+    await keeper.start();
+
+    await expireTimelock();
+    const [first, second] = await Promise.all([keeper.runDue(), keeper.runDue()]);
+    const results = [...first, ...second];
+
+    expect(results).to.have.length(1);
+    expect(results[0].status).to.equal("sent");
+    expect(await fixture.account.fullyApproved(txHash)).to.be.true;
+  });
+
+  it("Should auto-execute ready transactions when enabled", async () => {
+    const to = fixture.others[0].address;
+    const balanceBefore = await ethers.provider.getBalance(to);
+    const results: KeeperActionResult[] = [];
+
+    keeper = fixture.sdk.createKeeper({
+      autoExecute: true,
+      pollingInterval: 100,
+      onAction: (result) => results.push(result)
+    });
+    await keeper.start();
+
+    // Scheduled from the QuorumReached event
+    const txHash = await proposeWithQuorum();
+    await waitFor(() => keeper!.getScheduled().length === 1);
+    await expireTimelock();
+    await keeper.runDue();
+
+    await waitFor(() => results.length === 2);
+    expect(results.map((r) => [r.action.type, r.status])).to.deep.equal([
+      ["completeTimelock", "sent"],
+      ["executeApprovedTransaction", "sent"]
+    ]);
+    expect(results[1].action.txHash).to.equal(txHash);
+    expect(await ethers.provider.getBalance(to)).to.equal(balanceBefore + ethers.parseEther("1"));
+  });
+
+  it("Should only simulate in dry-run mode", async () => {
+    const txHash = await proposeWithQuorum();
+    const { publicClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    keeper = new Keeper([await fixture.account.getAddress()], publicClient, undefined, { dryRun: true });
+    await keeper.start();
+    await expireTimelock();
+
+    const [result] = await keeper.runDue();
+
+    expect(result.status).to.equal("simulated");
+    expect(result.gasEstimate).to.be.greaterThan(0n);
+    expect(await fixture.account.fullyApproved(txHash)).to.be.false;
+  });
+
+  it("Should skip actions over the gas cap or already taken", async () => {
+    const capped = await proposeWithQuorum();
+    const taken = await proposeWithQuorum();
+    keeper = fixture.sdk.createKeeper({ maxGas: 1000n });
+    await keeper.start();
+    await expireTimelock();
+    await fixture.level1.completeTimelock(taken);
+
+    const results = await keeper.runDue();
+    const byTx = new Map(results.map((r) => [r.action.txHash, r]));
+
+    expect(byTx.get(capped)!.status).to.equal("skipped");
+    expect(byTx.get(capped)!.reason).to.include("above cap");
+    expect(byTx.get(taken)!.status).to.equal("skipped");
+    expect(byTx.get(taken)!.reason).to.equal("AlreadyApproved");
+    expect(await fixture.account.fullyApproved(capped)).to.be.false;
+  });
+
+  it("Should look up levels added after start and report unknown ones", async () => {
+    const accountAddress = await fixture.account.getAddress();
+    const errors: Error[] = [];
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.others[1]);
+    keeper = new Keeper([accountAddress], publicClient, walletClient, { onError: (error) => errors.push(error) });
+    await keeper.start();
+
+    const Level = await ethers.getContractFactory("Level");
+    const level4 = await Level.deploy(accountAddress, 4, [fixture.others[3].address]);
+    await fixture.account.connect(fixture.owner).addLevel(await level4.getAddress());
+
+    const txHash = ethers.keccak256(ethers.toUtf8Bytes("added-level"));
+    await (keeper as any)._scheduleTimelock(accountAddress.toLowerCase(), txHash, 4, 1n);
+    expect(keeper.getScheduled().map((task) => task.action)).to.deep.equal([{
+      type: "completeTimelock",
+      account: accountAddress.toLowerCase(),
+      txHash,
+      levelId: 4,
+      levelAddress: (await level4.getAddress()).toLowerCase()
+    }]);
+
+    await (keeper as any)._scheduleTimelock(accountAddress.toLowerCase(), txHash, 9, 1n);
+    expect(errors.map((error) => error.message)).to.deep.equal([
+      `No level contract for level 9 of ${accountAddress.toLowerCase()}; cannot complete timelock of ${txHash}`
+    ]);
+  });
+
+  it("Should read pending transactions from the SDK's event indexer", async () => {
+    const txHash = await proposeWithQuorum();
+    const { publicClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    const indexer = new EventIndexer(await fixture.account.getAddress(), publicClient);
+    let indexedReads = 0;
+    const getLogs = indexer.getLogs.bind(indexer);
+    indexer.getLogs = async (filter) => {
+      indexedReads++;
+      return getLogs(filter);
+    };
+    fixture.sdk.setEventIndexer(indexer);
+
+    keeper = fixture.sdk.createKeeper();
+    await keeper.start();
+
+    expect(indexedReads).to.be.greaterThan(0);
+    expect(keeper.getScheduled().map((task) => task.action.txHash)).to.deep.equal([txHash]);
+  });
+
+  it("Should find the account's deployment block", async () => {
+    const accountAddress = await fixture.account.getAddress() as Address;
+    const { publicClient } = await createViemClientsFromEthersSigner(fixture.owner);
+
+    const deployedAt = await getDeploymentBlock(publicClient, accountAddress);
+
+    expect(await ethers.provider.getCode(accountAddress, deployedAt)).to.not.equal("0x");
+    expect(await ethers.provider.getCode(accountAddress, deployedAt - 1n)).to.equal("0x");
+    // Not deployed yet: nothing to scan before the latest block
+    expect(await getDeploymentBlock(publicClient, fixture.others[5].address as Address))
+      .to.equal(BigInt(await ethers.provider.getBlockNumber()));
+  });
+
+  it("Should skip an action that reverts on-chain after someone else took it", async () => {
+    const txHash = await proposeWithQuorum();
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.others[1]);
+    keeper = new Keeper([await fixture.account.getAddress()], publicClient, walletClient, { pollingInterval: 100 });
+    await keeper.start();
+    await expireTimelock();
+
+    await ethers.provider.send("evm_setAutomine", [false]);
+    try {
+      const running = keeper.runDue();
+      while ((await ethers.provider.send("eth_getBlockByNumber", ["pending", false])).transactions.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      // A competitor with a higher tip completes the timelock first in the same block
+      const fees = await ethers.provider.getFeeData();
+      await fixture.level1.connect(fixture.others[2]).completeTimelock(txHash, {
+        gasLimit: 200_000,
+        maxFeePerGas: fees.maxFeePerGas! * 10n,
+        maxPriorityFeePerGas: fees.maxFeePerGas! * 5n
+      });
+      await ethers.provider.send("evm_mine", []);
+
+      const [result] = await running;
+      expect(result.status).to.equal("skipped");
+      expect(result.reason).to.equal("AlreadyApproved");
+      expect(result.transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+      const receipt = await ethers.provider.getTransactionReceipt(result.transactionHash!);
+      expect(receipt!.status).to.equal(0);
+    } finally {
+      await ethers.provider.send("evm_setAutomine", [true]);
+    }
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * MultiLevelAccountFactoryClient Tests
+ * 
+ * Tests for account prediction and creation through the SDK
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MultiLevelAccountFactoryClient } from "../../sdk/src/MultiLevelAccountFactoryClient";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+describe("MultiLevelAccountFactoryClient", () => {
+  let fixture: SDKFixture;
+  let client: MultiLevelAccountFactoryClient;
+  let levelSigners: string[][];
+  
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    client = new MultiLevelAccountFactoryClient(
+      await fixture.factory.getAddress(),
+      publicClient,
+      walletClient
+    );
+    
+    levelSigners = [
+      [fixture.ops1.address, fixture.ops2.address],
+      [fixture.comp1.address]
+    ];
+  });
+  
+  describe("Address Prediction", () => {
+    it("Should match the factory's computeAccountAddress", async () => {
+      const predicted = await client.computeAccountAddress(fixture.owner.address, levelSigners, 7n);
+      const expected = await fixture.factory.computeAccountAddress(fixture.owner.address, levelSigners, 7);
+      
+      expect(predicted).to.equal(expected);
+    });
+    
+    it("Should read the EntryPoint from the factory", async () => {
+      expect(await client.getEntryPointAddress()).to.equal(await fixture.entryPoint.getAddress());
+    });
+  });
+  
+  describe("Account Creation", () => {
+    it("Should create account and decode factory events", async () => {
+      const predicted = await client.computeAccountAddress(fixture.owner.address, levelSigners, 7n);
+      
+      const result = await client.createAccount(fixture.owner.address, levelSigners, 7n);
+      
+      expect(result.accountAddress).to.equal(predicted);
+      expect(result.owner).to.equal(fixture.owner.address);
+      expect(result.levelIds).to.deep.equal([1n, 2n]);
+      expect(result.levels.length).to.equal(2);
+      expect(result.levels[0].signers).to.deep.equal(levelSigners[0]);
+      expect(result.levels[1].levelId).to.equal(2n);
+      
+      const account = await ethers.getContractAt("MultiLevelAccount", result.accountAddress);
+      expect(await account.levelContracts(1)).to.equal(result.levels[0].levelAddress);
+    });
+    
+    it("Should return an SDK bound to the new account", async () => {
+      const result = await client.createAccount(fixture.owner.address, levelSigners, 8n);
+      
+      expect(await result.sdk.isDeployed()).to.be.true;
+      expect(await result.sdk.getAmountRangeCount()).to.equal(0n);
+    });
+    
+    it("Should return a counterfactual SDK that is not yet deployed", async () => {
+      const sdk = await client.getCounterfactualSDK(fixture.owner.address, levelSigners, 9n);
+      
+      expect(await sdk.isDeployed()).to.be.false;
+    });
+    
+    it("Should reject a ConfiguredAccountFactory built for another factory", async () => {
+      const Factory = await ethers.getContractFactory("MultiLevelAccountFactory");
+      const otherFactory = await Factory.deploy(await fixture.entryPoint.getAddress());
+      const Configured = await ethers.getContractFactory("ConfiguredAccountFactory");
+      const configured = await Configured.deploy(await otherFactory.getAddress());
+      
+      try {
+        await client.getCounterfactualSDK(fixture.owner.address, levelSigners, 9n, {
+          configuredFactoryAddress: await configured.getAddress(),
+          ranges: []
+        });
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.include("creates accounts through");
+      }
+    });
+  });
+});
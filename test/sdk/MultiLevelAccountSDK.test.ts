@@ -6,7 +6,21 @@
 
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import {
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  getAddress,
+  pad,
+  zeroAddress,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type Log
+} from "viem";
 import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
+import { ENTRY_POINT_ABI, MULTI_LEVEL_ACCOUNT_ABI } from "../../sdk/src/contracts/abis";
+import { getUserOpProposals } from "../../sdk/src/utils/userOpProposals";
 import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
 import {
   SCENARIO_HAPPY_PATH,
@@ -81,6 +95,78 @@ describe("MultiLevelAccountSDK", () => {
       const status = await fixture.sdk.getTransactionStatus(txHash);
       expect(status.levelStatuses.length).to.equal(3);
     });
+
+    it("Should propose several transactions in one submission", async () => {
+      const proposals = [
+        { to: fixture.others[0].address, value: ethers.parseEther("1"), data: "0x", amount: ethers.parseEther("5000") },
+        { to: fixture.others[1].address, value: ethers.parseEther("2"), data: "0x", amount: ethers.parseEther("20000") },
+        { to: fixture.others[2].address, value: ethers.parseEther("3"), data: "0x", amount: ethers.parseEther("2000000") }
+      ];
+      const builder = (fixture.sdk as any).userOpBuilder;
+      const buildUserOp = builder.buildUserOp.bind(builder);
+      const nonceKeys: bigint[] = [];
+      builder.buildUserOp = (params: any) => {
+        nonceKeys.push(params.nonceKey);
+        return buildUserOp(params);
+      };
+      const blockBefore = await ethers.provider.getBlockNumber();
+
+      const txHashes = await fixture.sdk.proposeTransactions(proposals);
+
+      expect(nonceKeys).to.deep.equal([0n, 1n, 2n]);
+      expect(await ethers.provider.getBlockNumber()).to.equal(blockBefore + 1);
+      expect(new Set(txHashes).size).to.equal(3);
+      for (const [i, txHash] of txHashes.entries()) {
+        const status = await fixture.sdk.getTransactionStatus(txHash);
+        expect(status.to).to.equal(proposals[i].to);
+        expect(status.amount).to.equal(proposals[i].amount);
+        expect(status.levelStatuses.length).to.equal(i + 1);
+      }
+    });
+
+    it("Should attribute proposals to UserOps in a bundle receipt", () => {
+      const account = getAddress("0x00000000000000000000000000000000000000AC");
+      const entryPoint = getAddress("0x00000000000000000000000000000000000000E7");
+      const other = getAddress("0x0000000000000000000000000000000000000B0B");
+      const [opA, opB, opC, txA, txC] = ["0xa1", "0xb2", "0xc3", "0x01", "0x03"]
+        .map((hash) => pad(hash as `0x${string}`));
+      const log = (abi: Abi, address: Address, eventName: string, args: Record<string, unknown>) => {
+        const event = abi.find((item) => item.type === "event" && item.name === eventName) as AbiEvent;
+        const data = event.inputs.filter((input) => !input.indexed);
+        return {
+          address,
+          topics: encodeEventTopics({ abi: [event], eventName, args } as any),
+          data: encodeAbiParameters(data, data.map((input) => args[input.name!]))
+        } as unknown as Log;
+      };
+      const proposed = (txHash: string) => log(MULTI_LEVEL_ACCOUNT_ABI, account, "TransactionProposed", {
+        txHash, to: other, value: 0n, amount: 1n, levelIds: [1n], quorums: [1n]
+      });
+      const userOpEvent = (userOpHash: string, sender: Address, success: boolean) =>
+        log(ENTRY_POINT_ABI, entryPoint, "UserOperationEvent", {
+          userOpHash, sender, paymaster: zeroAddress, nonce: 0n, success, actualGasCost: 0n, actualGasUsed: 0n
+        });
+      const unauthorized = encodeErrorResult({ abi: MULTI_LEVEL_ACCOUNT_ABI, errorName: "Unauthorized" });
+
+      const outcomes = getUserOpProposals([
+        proposed(txC),
+        userOpEvent(opC, account, true),
+        userOpEvent(pad("0xff"), other, true),
+        log(ENTRY_POINT_ABI, entryPoint, "UserOperationRevertReason", {
+          userOpHash: opB, sender: account, nonce: 0n, revertReason: unauthorized
+        }),
+        userOpEvent(opB, account, false),
+        proposed(txA),
+        userOpEvent(opA, account, true)
+      ], account, entryPoint);
+
+      expect(outcomes.map((outcome) => [outcome.userOpHash, outcome.txHash])).to.deep.equal([
+        [opC, txC],
+        [opB, null],
+        [opA, txA]
+      ]);
+      expect(outcomes[1].revertReason?.errorName).to.equal("Unauthorized");
+    });
   });
   
   describe("Co-Signer Scenarios", () => {
@@ -524,5 +610,44 @@ describe("MultiLevelAccountSDK", () => {
       expect(balanceAfter - balanceBefore).to.equal(value);
     });
   });
+  
+  describe("Configuration Governance", () => {
+    it("Should route configuration changes through approvals", async () => {
+      fixture.sdk.setConfigGovernance({ routingAmount: ethers.parseEther("1") });
+      const rangeCount = await fixture.sdk.getAmountRangeCount();
+      
+      const txHash = await fixture.sdk.removeAmountRange(0);
+      
+      // Nothing changes until the proposal is approved and executed
+      expect(await fixture.sdk.getAmountRangeCount()).to.equal(rangeCount);
+      const status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.to.toLowerCase()).to.equal((await fixture.account.getAddress()).toLowerCase());
+      
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await fixture.level1.completeTimelock(txHash);
+      await fixture.sdk.executeApprovedTransaction(txHash);
+      
+      expect(await fixture.sdk.getAmountRangeCount()).to.equal(rangeCount - 1n);
+    });
+    
+    it("Should default to the highest approval tier", async () => {
+      fixture.sdk.setConfigGovernance({});
+      
+      const txHash = await fixture.sdk.configureAmountRange(0n, ethers.parseEther("1"), [1], [1], [0]);
+      const status = await fixture.sdk.getTransactionStatus(txHash);
+      
+      expect(status.amount).to.equal(ethers.parseEther("1000001"));
+      expect(status.levelStatuses.map((l) => l.levelId)).to.deep.equal([1, 2, 3]);
+      
+      // Direct owner calls are restored when governance is cleared
+      fixture.sdk.setConfigGovernance(undefined);
+      const rangeCount = await fixture.sdk.getAmountRangeCount();
+      await fixture.sdk.configureAmountRange(0n, ethers.parseEther("1"), [1], [1], [0]);
+      expect(await fixture.sdk.getAmountRangeCount()).to.equal(rangeCount + 1n);
+    });
+  });
 });
 
@@ -0,0 +1,253 @@
+/**
+ * Amount Policy Tests
+ *
+ * Tests for declarative amount-range policies, applyPolicy diffing and validation
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { diffPolicy, parseDuration, parsePolicy } from "../../sdk/src/policy/amountPolicy";
+import { validateAmountRanges } from "../../sdk/src/policy/validatePolicy";
+import type { AmountRange } from "../../sdk/src/types";
+import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+
+const DEFAULT_POLICY = path.join(__dirname, "../../scripts/policies/default.yaml");
+
+const POLICY = `
+unit: ether
+ranges:
+  - min: 0
+    max: 10000
+    levels:
+      - { id: 1, quorum: 2, timelock: 1h }
+  - min: 10001
+    max: 1000000
+    levels:
+      - { id: 1, quorum: 2, timelock: 1h }
+      - { id: 2, quorum: 2, timelock: 4h }
+  - min: 1000001
+    max: unlimited
+    levels:
+      - { id: 1, quorum: 3, timelock: 1h }
+      - { id: 2, quorum: 2, timelock: 2h }
+      - { id: 3, quorum: 1, timelock: 1d }
+`;
+
+describe("Amount Policy", () => {
+  let fixture: SDKFixture;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+
+    await fixture.owner.sendTransaction({
+      to: await fixture.account.getAddress(),
+      value: ethers.parseEther("100")
+    });
+  });
+
+  async function getRanges(): Promise<AmountRange[]> {
+    const ranges: AmountRange[] = [];
+    for (let i = 0; i < Number(await fixture.account.getAmountRangeCount()); i++) {
+      const range = await fixture.account.getAmountRange(i);
+      ranges.push({
+        minAmount: range.minAmount,
+        maxAmount: range.maxAmount,
+        levelIds: [...range.levelIds],
+        quorums: [...range.quorums],
+        timelocks: [...range.timelocks]
+      });
+    }
+    return ranges;
+  }
+
+  describe("Parsing", () => {
+    it("Should parse durations", () => {
+      expect(parseDuration("90s")).to.equal(90n);
+      expect(parseDuration("2h")).to.equal(7200n);
+      expect(parseDuration("1h30m")).to.equal(5400n);
+      expect(parseDuration("1d")).to.equal(86400n);
+      expect(parseDuration(600)).to.equal(600n);
+      expect(() => parseDuration("2 hours")).to.throw("Invalid duration");
+    });
+
+    it("Should parse the default policy into the fixture's ranges", async () => {
+      const ranges = parsePolicy(await fs.readFile(DEFAULT_POLICY, "utf8"));
+
+      expect(ranges).to.deep.equal(await getRanges());
+      expect(ranges[2].maxAmount).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should accept JSON and reject invalid ranges", () => {
+      const json = JSON.stringify({ unit: "wei", ranges: [{ min: "0", max: "100", levels: [{ id: 1, quorum: 1 }] }] });
+
+      expect(parsePolicy(json)).to.deep.equal([
+        { minAmount: 0n, maxAmount: 100n, levelIds: [1n], quorums: [1n], timelocks: [0n] }
+      ]);
+      expect(() => parsePolicy({ ranges: [{ min: 5, max: 1, levels: [{ id: 1, quorum: 1 }] }] }))
+        .to.throw("min is greater than max");
+      expect(() => parsePolicy({ ranges: [{ min: 0, max: 1, levels: [] }] }))
+        .to.throw("at least one level");
+    });
+  });
+
+  describe("applyPolicy", () => {
+    it("Should plan only the changed range", async () => {
+      const { plan, transactionHashes } = await fixture.sdk.applyPolicy(POLICY, { dryRun: true });
+
+      expect(transactionHashes).to.have.length(0);
+      expect(plan.unchanged).to.have.length(2);
+      expect(plan.steps.map((s) => s.type)).to.deep.equal(["configureAmountRange", "removeAmountRange"]);
+      expect(plan.steps[0].range.timelocks).to.deep.equal([3600n, 14400n]);
+      expect(await fixture.account.getAmountRangeCount()).to.equal(3n);
+    });
+
+    it("Should converge on-chain ranges and be idempotent", async () => {
+      const desired = parsePolicy(POLICY);
+
+      const { transactionHashes } = await fixture.sdk.applyPolicy(POLICY);
+
+      expect(transactionHashes).to.have.length(2);
+      expect(await getRanges()).to.deep.equal(desired);
+      expect((await fixture.sdk.applyPolicy(POLICY)).plan.steps).to.have.length(0);
+    });
+
+    it("Should compute removal indices across the contract's swap and sort", () => {
+      const range = (min: bigint): AmountRange => ({
+        minAmount: min, maxAmount: min + 9n, levelIds: [1n], quorums: [1n], timelocks: [0n]
+      });
+      const current = [range(0n), range(10n), range(20n), range(30n)];
+
+      const plan = diffPolicy(current, [range(10n), range(30n)]);
+
+      // Removing index 0 moves 30 into it, then sorting restores [10, 20, 30]
+      expect(plan.steps.map((s) => s.type === "removeAmountRange" ? s.index : -1)).to.deep.equal([0, 1]);
+    });
+
+    it("Should propose changes under config governance", async () => {
+      fixture.sdk.setConfigGovernance({ routingAmount: ethers.parseEther("1") });
+
+      const { plan, transactionHashes } = await fixture.sdk.applyPolicy(POLICY);
+
+      // One batch proposal carries every step
+      expect(transactionHashes).to.have.length(1);
+      const status = await fixture.sdk.getTransactionStatus(transactionHashes[0]);
+      expect(status.to.toLowerCase()).to.equal((await fixture.account.getAddress()).toLowerCase());
+      expect((await fixture.sdk.getBatch(transactionHashes[0]))!.calls).to.have.length(plan.steps.length);
+      expect(await fixture.account.getAmountRangeCount()).to.equal(3n);
+    });
+
+    it("Should keep a governed plan's steps in order when proposals execute out of order", async () => {
+      const SINGLE_TIER = `
+unit: ether
+ranges:
+  - min: 0
+    max: unlimited
+    levels:
+      - { id: 1, quorum: 2, timelock: 1h }
+`;
+      fixture.sdk.setConfigGovernance({ routingAmount: ethers.parseEther("1") });
+
+      // Three removals whose indices depend on the earlier steps
+      const { plan, transactionHashes: [planTx] } = await fixture.sdk.applyPolicy(SINGLE_TIER);
+      expect(plan.steps.map((step) => step.type)).to.deep.equal([
+        "configureAmountRange", "removeAmountRange", "removeAmountRange", "removeAmountRange"
+      ]);
+
+      // A proposal made later is approved and executed first
+      const laterTx = await fixture.sdk.proposeTransaction(fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1"));
+      for (const txHash of [laterTx, planTx]) {
+        await fixture.level1.connect(fixture.ops1).sign(txHash);
+        await fixture.level1.connect(fixture.ops2).sign(txHash);
+      }
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      for (const txHash of [laterTx, planTx]) {
+        await fixture.level1.completeTimelock(txHash);
+        await fixture.sdk.executeApprovedTransaction(txHash);
+      }
+
+      // The steps ran in plan order in one call, so each removal hit the intended range
+      expect(await getRanges()).to.deep.equal(parsePolicy(SINGLE_TIER));
+    });
+  });
+
+  describe("Validation", () => {
+    const range = (min: bigint, max: bigint, levels: [number, number, number][]): AmountRange => ({
+      minAmount: min,
+      maxAmount: max,
+      levelIds: levels.map(([id]) => BigInt(id)),
+      quorums: levels.map(([, quorum]) => BigInt(quorum)),
+      timelocks: levels.map(([, , timelock]) => BigInt(timelock))
+    });
+
+    it("Should accept contiguous, strengthening ranges", () => {
+      const report = validateAmountRanges([
+        range(0n, 99n, [[1, 1, 0]]),
+        range(100n, ethers.MaxUint256, [[1, 2, 3600], [2, 1, 3600]])
+      ], { signerCounts: { 1: 3, 2: 1 } });
+
+      expect(report.valid).to.be.true;
+      expect(report.issues).to.have.length(0);
+      expect(report.covered).to.deep.equal([{ minAmount: 0n, maxAmount: ethers.MaxUint256 }]);
+    });
+
+    it("Should report only the baseline tier gaps in the shipped default policy", async () => {
+      const report = validateAmountRanges(
+        parsePolicy(await fs.readFile(DEFAULT_POLICY, "utf8")),
+        { signerCounts: { 1: 3, 2: 2, 3: 1 } }
+      );
+
+      // Tiers start at whole ether (10001, 1000001), as deployed by the baseline scripts
+      expect(report.issues.map((issue) => issue.code)).to.deep.equal(["gap", "gap"]);
+      expect(report.gaps).to.deep.equal([
+        { minAmount: ethers.parseEther("10000") + 1n, maxAmount: ethers.parseEther("10001") - 1n },
+        { minAmount: ethers.parseEther("1000000") + 1n, maxAmount: ethers.parseEther("1000001") - 1n }
+      ]);
+    });
+
+    it("Should report each kind of issue", () => {
+      const report = validateAmountRanges([
+        range(0n, 99n, [[1, 2, 3600], [2, 1, 0]]),
+        range(50n, 199n, [[1, 4, 3600]]),
+        range(300n, 399n, [[9, 1, 0]]),
+        range(500n, 400n, [[1, 1, 0]])
+      ], { signerCounts: new Map([[1, 3], [2, 1]]) });
+
+      const codes = report.issues.map((i) => `${i.code}:${i.rangeIndex ?? "-"}`);
+      expect(report.valid).to.be.false;
+      expect(codes).to.have.members([
+        "invalidRange:3",
+        "quorumExceedsSigners:1",
+        "unknownLevel:2",
+        "overlap:1",
+        "gap:-",
+        "gap:-",
+        "zeroTimelock:2",
+        "nonMonotonicApproval:1",
+        "nonMonotonicApproval:2"
+      ]);
+      expect(report.gaps).to.deep.equal([
+        { minAmount: 200n, maxAmount: 299n },
+        { minAmount: 400n, maxAmount: ethers.MaxUint256 }
+      ]);
+    });
+
+    it("Should report the fixture's gaps between tiers in diagnostics", async () => {
+      const { policyReport } = await fixture.sdk.getAccountDiagnostics();
+
+      // Inclusive ranges leave the amounts strictly between 10000 and 10001 ETH uncovered
+      expect(policyReport.valid).to.be.false;
+      expect(policyReport.issues.map((i) => i.code)).to.deep.equal(["gap", "gap"]);
+      expect(policyReport.gaps[0]).to.deep.equal({
+        minAmount: ethers.parseEther("10000") + 1n,
+        maxAmount: ethers.parseEther("10001") - 1n
+      });
+
+      // Validates a parsed policy before it is applied
+      const quorumTooHigh = await fixture.sdk.validateAmountPolicy([range(0n, ethers.MaxUint256, [[3, 2, 3600]])]);
+      expect(quorumTooHigh.issues.map((i) => i.code)).to.deep.equal(["quorumExceedsSigners"]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * PortfolioClient Tests
+ *
+ * Tests for discovering and aggregating accounts deployed by one factory
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { getAddress, type Address } from "viem";
+import { PortfolioClient } from "../../sdk/src/PortfolioClient";
+import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+describe("PortfolioClient", () => {
+  let fixture: SDKFixture;
+  let portfolio: PortfolioClient;
+  let accountAddress: Address;
+  let secondAccount: Address;
+  let secondSdk: MultiLevelAccountSDK;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    accountAddress = await fixture.account.getAddress() as Address;
+    const secondOwner = fixture.others[0];
+
+    // Second account: ops1 and comp1 share a single level, quorum 1
+    await fixture.factory.createAccount(secondOwner.address, [[fixture.ops1.address, fixture.comp1.address]], 1);
+    secondAccount = await fixture.factory.computeAccountAddress(
+      secondOwner.address,
+      [[fixture.ops1.address, fixture.comp1.address]],
+      1
+    ) as Address;
+    const second = await ethers.getContractAt("MultiLevelAccount", secondAccount);
+    await second.connect(secondOwner).configureAmountRange(0, ethers.MaxUint256, [1], [1], [3600]);
+
+    await fixture.owner.sendTransaction({ to: accountAddress, value: ethers.parseEther("100") });
+    await fixture.owner.sendTransaction({ to: secondAccount, value: ethers.parseEther("40") });
+
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    portfolio = new PortfolioClient(await fixture.factory.getAddress(), publicClient, walletClient);
+
+    const secondClients = await createViemClientsFromEthersSigner(secondOwner);
+    secondSdk = new MultiLevelAccountSDK(
+      secondAccount,
+      await fixture.entryPoint.getAddress(),
+      secondClients.publicClient,
+      secondClients.walletClient
+    );
+  });
+
+  it("Should discover accounts filtered by current owner and signer", async () => {
+    const all = await portfolio.discoverAccounts();
+    expect(all.map((account) => account.accountAddress)).to.deep.equal([getAddress(accountAddress), getAddress(secondAccount)]);
+    expect(all[0].levelIds).to.deep.equal([1n, 2n, 3n]);
+    expect(all[1].owner).to.equal(fixture.others[0].address);
+
+    const byOwner = await portfolio.discoverAccounts({ owner: fixture.owner.address.toLowerCase() });
+    expect(byOwner.map((account) => account.accountAddress)).to.deep.equal([getAddress(accountAddress)]);
+
+    expect(await portfolio.discoverAccounts({ signer: fixture.ops1.address })).to.have.length(2);
+    expect(await portfolio.discoverAccounts({ signer: fixture.exec.address })).to.have.length(1);
+    expect(await portfolio.discoverAccounts({ signer: fixture.others[5].address })).to.have.length(0);
+
+    // Ownership transfers are reflected
+    await fixture.account.connect(fixture.owner).transferOwnership(fixture.others[0].address);
+    expect(await portfolio.discoverAccounts({ owner: fixture.owner.address })).to.have.length(0);
+  });
+
+  it("Should aggregate balances, ranges and pending transactions", async () => {
+    const to = fixture.others[1].address;
+    await fixture.sdk.proposeTransaction(to, ethers.parseEther("1"), "0x", ethers.parseEther("5000"));
+    await fixture.sdk.proposeTransaction(to, ethers.parseEther("2"), "0x", ethers.parseEther("20000"));
+    await secondSdk.proposeTransaction(to, ethers.parseEther("3"), "0x", ethers.parseEther("3"));
+
+    const summary = await portfolio.getSummary();
+    expect(summary.totalBalance).to.equal(ethers.parseEther("140"));
+    expect(summary.pendingCount).to.equal(3);
+
+    const [first, second] = summary.accounts;
+    expect(first.amountRanges).to.have.length(3);
+    expect(first.levels.map((level) => level.pending.length)).to.deep.equal([2, 0, 0]);
+    expect(first.levels[1].signers).to.deep.equal([fixture.comp1.address, fixture.comp2.address]);
+    expect(second.balance).to.equal(ethers.parseEther("40"));
+    expect(second.levels[0].pending[0].summary).to.equal(`Send 3 ETH to ${to}`);
+  });
+
+  it("Should list transactions waiting on a signer across accounts", async () => {
+    const to = fixture.others[1].address;
+    const txHash = await fixture.sdk.proposeTransaction(to, ethers.parseEther("1"), "0x", ethers.parseEther("5000"));
+    const secondTxHash = await secondSdk.proposeTransaction(to, ethers.parseEther("3"), "0x", ethers.parseEther("3"));
+
+    const forOps1 = await portfolio.getPendingForSigner(fixture.ops1.address);
+    expect(forOps1.map((tx) => [tx.accountAddress, tx.levelId, tx.txHash])).to.deep.equal([
+      [getAddress(accountAddress), 1, txHash],
+      [getAddress(secondAccount), 1, secondTxHash]
+    ]);
+
+    // Already signed
+    await fixture.level1.connect(fixture.ops1).sign(txHash);
+    expect((await portfolio.getPendingForSigner(fixture.ops1.address)).map((tx) => tx.txHash))
+      .to.deep.equal([secondTxHash]);
+
+    // Quorum met, only the timelock remains
+    await fixture.level1.connect(fixture.ops2).sign(txHash);
+    expect(await portfolio.getPendingForSigner(fixture.ops3.address)).to.have.length(0);
+
+    // Scoped by owner
+    expect((await portfolio.getPendingForSigner(fixture.comp1.address, { owner: fixture.others[0].address }))
+      .map((tx) => tx.txHash)).to.deep.equal([secondTxHash]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Routing Amount Tests
+ *
+ * Tests for token-aware routing amounts and declared amount checks
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { encodeFunctionData, erc20Abi, maxUint256, parseAbi, type Address } from "viem";
+import { MultiLevelAccountError } from "../../sdk/src/errors";
+import { computeRoutingAmount, decodeAssetMovements } from "../../sdk/src/amounts/routingAmount";
+import { StaticPriceSource } from "../../sdk/src/amounts/StaticPriceSource";
+import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+
+const USDC = "0x00000000000000000000000000000000000000C0" as Address;
+const WETH = "0x00000000000000000000000000000000000000E0" as Address;
+const UNKNOWN = "0x00000000000000000000000000000000000000F0" as Address;
+const RECIPIENT = "0x0000000000000000000000000000000000000123" as Address;
+
+const WETH_ABI = parseAbi(["function deposit() payable", "function withdraw(uint256 wad)"]);
+
+// 1 USDC = 0.0004 ETH
+const prices = new StaticPriceSource({
+  [USDC]: { decimals: 6, price: ethers.parseEther("0.0004") },
+  [WETH]: { decimals: 18, price: ethers.parseEther("1") }
+});
+
+const transfer = (amount: bigint) =>
+  encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [RECIPIENT, amount] });
+
+describe("Routing Amount", () => {
+  describe("Decoding", () => {
+    it("Should decode ERC-20, WETH and native movements", () => {
+      const from = "0x0000000000000000000000000000000000000456" as Address;
+      const transferFrom = encodeFunctionData({ abi: erc20Abi, functionName: "transferFrom", args: [from, RECIPIENT, 5n] });
+      const approve = encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [RECIPIENT, 7n] });
+      const deposit = encodeFunctionData({ abi: WETH_ABI, functionName: "deposit" });
+      const withdraw = encodeFunctionData({ abi: WETH_ABI, functionName: "withdraw", args: [9n] });
+      const options = { wethAddresses: [WETH] };
+
+      expect(decodeAssetMovements(USDC, 0n, transfer(3n))).to.deep.equal([
+        { kind: "erc20Transfer", token: USDC, to: RECIPIENT, amount: 3n }
+      ]);
+      expect(decodeAssetMovements(USDC, 0n, transferFrom)).to.deep.equal([
+        { kind: "erc20TransferFrom", token: USDC, from, to: RECIPIENT, amount: 5n }
+      ]);
+      expect(decodeAssetMovements(USDC, 0n, approve)).to.deep.equal([
+        { kind: "erc20Approve", token: USDC, to: RECIPIENT, amount: 7n }
+      ]);
+      expect(decodeAssetMovements(WETH, 4n, deposit, options)).to.deep.equal([
+        { kind: "wethDeposit", token: WETH, amount: 4n }
+      ]);
+      expect(decodeAssetMovements(WETH, 0n, withdraw, options)).to.deep.equal([
+        { kind: "wethWithdraw", token: WETH, amount: 9n }
+      ]);
+
+      // Unknown calldata and WETH calls on unlisted targets contribute only native value
+      expect(decodeAssetMovements(RECIPIENT, 2n, "0x12345678")).to.deep.equal([
+        { kind: "native", to: RECIPIENT, amount: 2n }
+      ]);
+      expect(decodeAssetMovements(WETH, 0n, withdraw)).to.deep.equal([]);
+    });
+  });
+
+  describe("Pricing", () => {
+    it("Should normalize token amounts into wei, rounding up", async () => {
+      const usdc = await computeRoutingAmount(USDC, ethers.parseEther("1"), transfer(1000_000000n), prices);
+
+      expect(usdc.amount).to.equal(ethers.parseEther("1.4"));
+      expect(usdc.movements.map((m) => m.value)).to.deep.equal([ethers.parseEther("1"), ethers.parseEther("0.4")]);
+      expect(usdc.unpriced).to.have.length(0);
+
+      // 1 unit is 0.0000000004 ETH, which rounds up rather than to zero
+      expect((await computeRoutingAmount(USDC, 0n, transfer(1n), prices)).amount).to.equal(400000000n);
+    });
+
+    it("Should flag unknown tokens and cap unlimited approvals", async () => {
+      const unknown = await computeRoutingAmount(UNKNOWN, 0n, transfer(10n), prices);
+      expect(unknown.amount).to.equal(0n);
+      expect(unknown.unpriced.map((m) => m.token)).to.deep.equal([UNKNOWN]);
+
+      const approve = encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [RECIPIENT, maxUint256] });
+      const unlimited = await computeRoutingAmount(USDC, 0n, approve, prices);
+      expect(unlimited.amount).to.equal(maxUint256);
+    });
+  });
+
+  describe("Declared Amount Check", () => {
+    let fixture: SDKFixture;
+
+    beforeEach(async () => {
+      fixture = await deploySDKFixture();
+
+      await fixture.owner.sendTransaction({
+        to: await fixture.account.getAddress(),
+        value: ethers.parseEther("100")
+      });
+    });
+
+    it("Should refuse proposals that understate a token transfer", async () => {
+      fixture.sdk.setAmountCheck({ priceSource: prices, mode: "refuse" });
+      // 50,000,000 USDC is worth 20,000 ETH, above the first range
+      const data = transfer(50_000_000_000000n);
+
+      const check = await fixture.sdk.checkAmount(USDC, 0n, data, ethers.parseEther("1"));
+      expect(check.understated).to.be.true;
+      expect(check.amount).to.equal(ethers.parseEther("20000"));
+
+      try {
+        await fixture.sdk.proposeTransaction(USDC, 0n, data, ethers.parseEther("1"));
+        expect.fail("Should have thrown");
+      } catch (error) {
+        expect(error).to.be.instanceOf(MultiLevelAccountError);
+        expect((error as MultiLevelAccountError).errorName).to.equal("AmountUnderstated");
+      }
+
+      try {
+        await fixture.sdk.proposeTransaction(UNKNOWN, 0n, transfer(1n), ethers.parseEther("1"));
+        expect.fail("Should have thrown");
+      } catch (error) {
+        expect((error as MultiLevelAccountError).errorName).to.equal("AmountUnderstated");
+        expect((error as Error).message).to.include("no price");
+      }
+
+      const txHash = await fixture.sdk.proposeTransaction(USDC, 0n, data, check.amount);
+      const status = await fixture.sdk.getTransactionStatus(txHash);
+      expect(status.levelStatuses.map((l) => l.levelId)).to.deep.equal([1, 2]);
+    });
+
+    it("Should only warn in warn mode", async () => {
+      fixture.sdk.setAmountCheck({ priceSource: prices });
+      const warnings: unknown[] = [];
+      const warn = console.warn;
+      console.warn = (...args: unknown[]) => { warnings.push(args[0]); };
+
+      try {
+        const txHash = await fixture.sdk.proposeTransaction(USDC, 0n, transfer(50_000_000_000000n), ethers.parseEther("1"));
+        expect(txHash).to.match(/^0x[0-9a-f]{64}$/i);
+      } finally {
+        console.warn = warn;
+      }
+
+      expect(warnings.some((w) => String(w).includes("understates"))).to.be.true;
+    });
+  });
+});
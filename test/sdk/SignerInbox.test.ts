@@ -0,0 +1,100 @@
+/**
+ * SignerInbox Tests
+ *
+ * Tests for finding a signer's levels from logs and listing what awaits them
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { getAddress, type Address } from "viem";
+import { SignerInbox } from "../../sdk/src/SignerInbox";
+import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+describe("SignerInbox", () => {
+  let fixture: SDKFixture;
+  let accountAddress: Address;
+  let secondAccount: Address;
+  let secondSdk: MultiLevelAccountSDK;
+  // Earlier tests deploy accounts with the same signers on this chain
+  let fromBlock: bigint;
+
+  async function inboxFor(signer: string, accounts?: string[]): Promise<SignerInbox> {
+    const { publicClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    return new SignerInbox(signer, publicClient, undefined, { accounts, fromBlock });
+  }
+
+  function sortByAddress(...addresses: string[]): string[] {
+    return addresses.map((address) => getAddress(address)).sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+  }
+
+  beforeEach(async () => {
+    fromBlock = BigInt(await ethers.provider.getBlockNumber() + 1);
+    fixture = await deploySDKFixture();
+    accountAddress = await fixture.account.getAddress() as Address;
+    const secondOwner = fixture.others[0];
+    const levelSigners = [[fixture.ops1.address, fixture.comp1.address]];
+
+    await fixture.factory.createAccount(secondOwner.address, levelSigners, 1);
+    secondAccount = await fixture.factory.computeAccountAddress(secondOwner.address, levelSigners, 1) as Address;
+    const second = await ethers.getContractAt("MultiLevelAccount", secondAccount);
+    await second.connect(secondOwner).configureAmountRange(0, ethers.MaxUint256, [1], [1], [3600]);
+
+    await fixture.owner.sendTransaction({ to: accountAddress, value: ethers.parseEther("100") });
+    await fixture.owner.sendTransaction({ to: secondAccount, value: ethers.parseEther("40") });
+
+    const { publicClient, walletClient } = await createViemClientsFromEthersSigner(secondOwner);
+    secondSdk = new MultiLevelAccountSDK(secondAccount, await fixture.entryPoint.getAddress(), publicClient, walletClient);
+  });
+
+  it("Should find a signer's levels across accounts", async () => {
+    const levels = await (await inboxFor(fixture.comp1.address)).getLevels();
+    expect(levels.map((level) => level.accountAddress)).to.deep.equal(sortByAddress(accountAddress, secondAccount));
+    expect(levels.find((level) => level.accountAddress === getAddress(accountAddress))).to.deep.equal({
+      accountAddress: getAddress(accountAddress),
+      levelId: 2,
+      levelAddress: await fixture.level2.getAddress()
+    });
+
+    expect(await (await inboxFor(fixture.comp1.address, [secondAccount])).getLevels()).to.have.length(1);
+    expect(await (await inboxFor(fixture.others[5].address)).getLevels()).to.have.length(0);
+  });
+
+  it("Should follow signer removal and ignore unregistered levels", async () => {
+    // A Level whose account never registered it
+    const Level = await ethers.getContractFactory("Level");
+    await Level.deploy(fixture.others[3].address, 1, [fixture.ops2.address]);
+
+    await ethers.provider.send("hardhat_impersonateAccount", [accountAddress]);
+    const accountSigner = await ethers.getSigner(accountAddress);
+    await fixture.level1.connect(accountSigner).removeSigner(fixture.ops2.address);
+    await ethers.provider.send("hardhat_stopImpersonatingAccount", [accountAddress]);
+
+    expect(await (await inboxFor(fixture.ops2.address)).getLevels()).to.have.length(0);
+    expect((await (await inboxFor(fixture.ops3.address)).getLevels()).map((level) => level.levelId)).to.deep.equal([1]);
+  });
+
+  it("Should list transactions awaiting the signer, oldest first", async () => {
+    const to = fixture.others[1].address;
+    const secondTxHash = await secondSdk.proposeTransaction(to, ethers.parseEther("3"), "0x", ethers.parseEther("3"));
+    const txHash = await fixture.sdk.proposeTransaction(to, ethers.parseEther("1"), "0x", ethers.parseEther("5000"));
+    const laterTxHash = await fixture.sdk.proposeTransaction(to, ethers.parseEther("2"), "0x", ethers.parseEther("20000"));
+
+    const inbox = await inboxFor(fixture.ops1.address);
+    const transactions = await inbox.getTransactions();
+    expect(transactions.map((tx) => [tx.accountAddress, tx.levelId, tx.txHash])).to.deep.equal([
+      [getAddress(secondAccount), 1, secondTxHash],
+      [getAddress(accountAddress), 1, txHash],
+      [getAddress(accountAddress), 1, laterTxHash]
+    ]);
+    expect(transactions[1].summary).to.equal(`Send 1 ETH to ${to}`);
+
+    // Signed through the inbox's signer interface
+    const { walletClient } = await createViemClientsFromEthersSigner(fixture.ops1);
+    const { publicClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    const signingInbox = new SignerInbox(fixture.ops1.address, publicClient, walletClient, { fromBlock });
+    await signingInbox.getSignerInterface(transactions[1]).sign(txHash);
+
+    expect((await inbox.getTransactions()).map((tx) => tx.txHash)).to.deep.equal([secondTxHash, laterTxHash]);
+  });
+});
@@ -201,5 +201,66 @@ describe("SignerInterface", () => {
       });
     });
   });
+  
+  describe("Per-signer Status", () => {
+    async function level1For(signer: typeof fixture.ops1) {
+      const { publicClient, walletClient } = await createViemClientsFromEthersSigner(signer);
+      const sdk = new MultiLevelAccountSDK(
+        await fixture.account.getAddress(),
+        await fixture.entryPoint.getAddress(),
+        publicClient,
+        walletClient
+      );
+      return sdk.getSignerInterface(1);
+    }
+    
+    it("Should report who signed and whether the wallet still needs to act", async () => {
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address,
+        ethers.parseEther("1"),
+        "0x",
+        ethers.parseEther("5000")
+      );
+      const ops1Level = await level1For(fixture.ops1);
+      const ops2Level = await level1For(fixture.ops2);
+      
+      let [pending] = await ops1Level.getPendingTransactions();
+      expect(pending.signedBy).to.deep.equal([]);
+      expect(pending.needsMyAction).to.equal(true);
+      expect(pending.awaitingTimelock).to.equal(false);
+      
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      
+      [pending] = await ops1Level.getPendingTransactions();
+      expect(pending.signedBy).to.deep.equal([fixture.ops1.address]);
+      expect(pending.needsMyAction).to.equal(false);
+      expect(await ops1Level.getPendingTransactions({ onlyActionable: true })).to.have.length(0);
+      expect(await ops2Level.getPendingTransactions({ onlyActionable: true })).to.have.length(1);
+      
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      
+      [pending] = await (await level1For(fixture.ops3)).getPendingTransactions();
+      expect(pending.signedBy).to.deep.equal([fixture.ops1.address, fixture.ops2.address]);
+      expect(pending.awaitingTimelock).to.equal(true);
+      expect(pending.needsMyAction).to.equal(false);
+      expect(await ops1Level.getPendingTransactions({ includeTimelocked: false })).to.have.length(0);
+    });
+    
+    it("Should compute needsMyAction for a given signer or non-signer wallet", async () => {
+      await fixture.sdk.proposeTransaction(
+        fixture.others[0].address,
+        ethers.parseEther("1"),
+        "0x",
+        ethers.parseEther("5000")
+      );
+      
+      // The fixture SDK's wallet is the owner, who is not a level signer
+      const ownerLevel = fixture.sdk.getSignerInterface(1);
+      expect((await ownerLevel.getPendingTransactions())[0].needsMyAction).to.equal(false);
+      expect((await ownerLevel.getPendingTransactions({ signer: fixture.ops3.address }))[0].needsMyAction).to.equal(true);
+      expect(await ownerLevel.getPendingTransactions({ signer: fixture.comp1.address, onlyActionable: true }))
+        .to.have.length(0);
+    });
+  });
 });
 
@@ -0,0 +1,129 @@
+/**
+ * Signer Management Tests
+ *
+ * Tests for signer add/remove proposals and quorum validation
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { Hex } from "viem";
+import { MultiLevelAccountError, LevelContractError } from "../../sdk/src/errors";
+import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+
+describe("Signer Management", () => {
+  let fixture: SDKFixture;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+
+    await fixture.owner.sendTransaction({
+      to: await fixture.account.getAddress(),
+      value: ethers.parseEther("100")
+    });
+  });
+
+  it("Should add a signer through the approval flow", async () => {
+    const newSigner = fixture.others[1].address;
+    const proposal = await fixture.sdk.proposeAddSigner(1, newSigner, { amount: ethers.parseEther("1") });
+
+    expect(proposal.levelAddress).to.equal(await fixture.level1.getAddress());
+    expect(proposal.resultingSigners).to.have.length(4);
+    expect((await fixture.sdk.getSignerChangeStatus(proposal)).state).to.equal("awaitingSignatures");
+
+    await fixture.level1.connect(fixture.ops1).sign(proposal.txHash);
+    await fixture.level1.connect(fixture.ops2).sign(proposal.txHash);
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    await fixture.level1.completeTimelock(proposal.txHash);
+    await fixture.sdk.executeApprovedTransaction(proposal.txHash as Hex);
+
+    const status = await fixture.sdk.getSignerChangeStatus(proposal);
+    expect(status.state).to.equal("executed");
+    expect(status.signers).to.deep.equal(proposal.resultingSigners);
+    expect(await fixture.level1.isSigner(newSigner)).to.be.true;
+  });
+
+  it("Should refuse removals that leave a quorum unsatisfiable", async () => {
+    const validation = await fixture.sdk.validateSignerChange(2, { type: "remove", signer: fixture.comp1.address });
+
+    expect(validation.valid).to.be.false;
+    expect(validation.resultingSigners).to.deep.equal([fixture.comp2.address]);
+    expect(validation.unsatisfiableQuorums.map((q) => [q.rangeIndex, q.quorum])).to.deep.equal([[1, 2], [2, 2]]);
+
+    try {
+      await fixture.sdk.proposeRemoveSigner(2, fixture.comp1.address);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect(error).to.be.instanceOf(MultiLevelAccountError);
+      expect((error as MultiLevelAccountError).errorName).to.equal("UnsatisfiableQuorum");
+    }
+
+    try {
+      await fixture.sdk.proposeRemoveSigner(3, fixture.exec.address);
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect(error).to.be.instanceOf(LevelContractError);
+      expect((error as LevelContractError).message).to.include("last signer");
+    }
+  });
+
+  it("Should allow adding a signer to a level that cannot meet a quorum yet", async () => {
+    // Level 2 has two signers; a new range asks for three
+    await fixture.account.connect(fixture.owner).configureAmountRange(
+      ethers.parseEther("20000"), ethers.parseEther("30000"), [2], [3], [0]
+    );
+    const newSigner = fixture.others[1].address;
+
+    const validation = await fixture.sdk.validateSignerChange(2, { type: "add", signer: newSigner });
+    expect(validation.valid).to.be.true;
+    expect(validation.unsatisfiableQuorums).to.deep.equal([]);
+
+    const proposal = await fixture.sdk.proposeAddSigner(2, newSigner, { amount: ethers.parseEther("1") });
+    expect(proposal.resultingSigners).to.deep.equal([fixture.comp1.address, fixture.comp2.address, newSigner]);
+  });
+
+  it("Should propose a rotation as one batch validated against the added signer", async () => {
+    const newSigner = fixture.others[1].address;
+
+    // The top range needs all three level 1 signers, so removing alone fails
+    const removal = await fixture.sdk.validateSignerChange(1, { type: "remove", signer: fixture.ops3.address });
+    expect(removal.valid).to.be.false;
+
+    const rotation = await fixture.sdk.proposeSignerRotation(1, fixture.ops3.address, newSigner);
+
+    expect(rotation.changes).to.deep.equal([
+      { type: "add", signer: newSigner },
+      { type: "remove", signer: fixture.ops3.address }
+    ]);
+    expect(rotation.resultingSigners).to.deep.equal([fixture.ops1.address, fixture.ops2.address, newSigner]);
+
+    const batch = await fixture.sdk.getBatch(rotation.txHash);
+    expect(batch!.calls.map((call) => call.data)).to.deep.equal(rotation.data);
+    expect(batch!.calls.map((call) => call.to.toLowerCase()))
+      .to.deep.equal(Array(2).fill((await fixture.level1.getAddress()).toLowerCase()));
+
+    // Defaults to the strictest range
+    expect(rotation.amount).to.equal(ethers.parseEther("1000001"));
+    expect(batch!.totalAmount).to.equal(rotation.amount);
+    const status = await fixture.sdk.getTransactionStatus(rotation.txHash);
+    expect(status.levelStatuses.map((l) => l.levelId)).to.deep.equal([1, 2, 3]);
+  });
+
+  it("Should add and remove in one execution when rotating", async () => {
+    const newSigner = fixture.others[1].address;
+    const rotation = await fixture.sdk.proposeSignerRotation(1, fixture.ops3.address, newSigner, {
+      amount: ethers.parseEther("1")
+    });
+
+    await fixture.level1.connect(fixture.ops1).sign(rotation.txHash);
+    await fixture.level1.connect(fixture.ops2).sign(rotation.txHash);
+    await ethers.provider.send("evm_increaseTime", [3601]);
+    await ethers.provider.send("evm_mine", []);
+    await fixture.level1.completeTimelock(rotation.txHash);
+    await fixture.sdk.executeApprovedTransaction(rotation.txHash as Hex);
+
+    const status = await fixture.sdk.getSignerChangeStatus(rotation);
+    expect(status.state).to.equal("executed");
+    expect(status.signers).to.deep.equal(rotation.resultingSigners);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Simulation Tests
+ *
+ * Tests for simulating proposals from the account before they are proposed or executed
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  erc20Abi,
+  getAddress,
+  numberToHex,
+  type Address,
+  type Hex,
+  type PublicClient
+} from "viem";
+import { MultiLevelAccountError } from "../../sdk/src/errors";
+import { simulateCall } from "../../sdk/src/utils/simulation";
+import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+
+describe("Simulation", () => {
+  let fixture: SDKFixture;
+  let accountAddress: Address;
+  let reverting: Address;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+    accountAddress = await fixture.account.getAddress() as Address;
+
+    await fixture.owner.sendTransaction({
+      to: accountAddress,
+      value: ethers.parseEther("100")
+    });
+
+    const RevertingContract = await ethers.getContractFactory("RevertingContract");
+    reverting = await (await RevertingContract.deploy()).getAddress() as Address;
+  });
+
+  it("Should simulate a call from the account with balance deltas", async () => {
+    const to = fixture.others[0].address as Address;
+
+    const simulation = await fixture.sdk.simulateProposal(to, ethers.parseEther("1"), "0x");
+
+    expect(simulation.success).to.be.true;
+    expect(simulation.method).to.equal("eth_call");
+    expect(simulation.balanceDeltaSource).to.equal("calldata");
+    expect(simulation.balanceDeltas).to.deep.equal([
+      { address: getAddress(accountAddress), token: undefined, delta: -ethers.parseEther("1") },
+      { address: getAddress(to), token: undefined, delta: ethers.parseEther("1") }
+    ]);
+
+    // Same call if the recipient were a contract rejecting ETH
+    const overridden = await fixture.sdk.simulateProposal(to, ethers.parseEther("1"), "0x", {
+      stateOverride: [{ address: to, code: await ethers.provider.getCode(reverting) as Hex }]
+    });
+    expect(overridden.success).to.be.false;
+    expect(overridden.error?.message).to.include("Transaction failed");
+  });
+
+  it("Should refuse reverting proposals and record allowed ones", async () => {
+    fixture.sdk.setProposalSimulation({});
+
+    try {
+      await fixture.sdk.proposeTransaction(reverting, 0n, "0x", ethers.parseEther("1"));
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect(error).to.be.instanceOf(MultiLevelAccountError);
+      expect((error as MultiLevelAccountError).errorName).to.equal("SimulationReverted");
+      expect((error as MultiLevelAccountError).message).to.include("Transaction failed");
+    }
+
+    fixture.sdk.setProposalSimulation({ allowRevert: true });
+    const txHash = await fixture.sdk.proposeTransaction(reverting, 0n, "0x", ethers.parseEther("1"));
+
+    const simulation = fixture.sdk.getProposalSimulation(txHash)!;
+    expect(simulation.success).to.be.false;
+    expect(simulation.error?.errorName).to.equal("Error");
+    expect(simulation.balanceDeltas).to.have.length(0);
+  });
+
+  it("Should show approvers what a pending transaction will do", async () => {
+    const to = fixture.others[0].address as Address;
+    const txHash = await fixture.sdk.proposeTransaction(to, ethers.parseEther("1"), "0x", ethers.parseEther("1"));
+    const level1 = fixture.sdk.getSignerInterface(1);
+
+    const [pending] = await level1.getPendingTransactions({ simulate: true });
+    expect(pending.txHash).to.equal(txHash);
+    expect(pending.simulation?.success).to.be.true;
+    expect((await level1.getPendingTransactions())[0]).to.not.have.property("simulation");
+
+    const simulation = await level1.simulateTransaction(txHash);
+    expect(simulation.balanceDeltas.map((d) => d.delta)).to.deep.equal([-ethers.parseEther("1"), ethers.parseEther("1")]);
+  });
+
+  it("Should read logs and balance deltas from eth_simulateV1", async () => {
+    const token = "0x00000000000000000000000000000000000000C0" as Address;
+    const recipient = "0x0000000000000000000000000000000000000123" as Address;
+    const transferLog = (address: Address, from: Address, to: Address, value: bigint) => ({
+      address,
+      topics: encodeEventTopics({ abi: erc20Abi, eventName: "Transfer", args: { from, to } }) as Hex[],
+      data: encodeAbiParameters([{ type: "uint256" }], [value])
+    });
+    const requests: { method: string; params: unknown }[] = [];
+    const client = {
+      request: async (args: { method: string; params: unknown }) => {
+        requests.push(args);
+        return [{
+          calls: [{
+            status: "0x1",
+            returnData: "0x",
+            gasUsed: numberToHex(52000),
+            logs: [
+              transferLog("0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE", accountAddress, token, 5n),
+              transferLog(token, accountAddress, recipient, 700n)
+            ]
+          }]
+        }];
+      }
+    } as unknown as PublicClient;
+
+    const simulation = await simulateCall(client, accountAddress, token, 5n, "0x", {
+      stateOverride: [{ address: accountAddress, balance: 10n }]
+    });
+
+    expect(requests[0].method).to.equal("eth_simulateV1");
+    expect((requests[0].params as any)[0].blockStateCalls[0].stateOverrides[accountAddress].balance).to.equal("0xa");
+    expect(simulation.method).to.equal("eth_simulateV1");
+    expect(simulation.gasUsed).to.equal(52000n);
+    expect(simulation.logs?.map((log) => log.eventName)).to.deep.equal(["Transfer"]);
+    expect(simulation.balanceDeltas).to.deep.equal([
+      { address: getAddress(accountAddress), token: undefined, delta: -5n },
+      { address: getAddress(token), token: undefined, delta: 5n },
+      { address: getAddress(accountAddress), token: getAddress(token), delta: -700n },
+      { address: getAddress(recipient), token: getAddress(token), delta: 700n }
+    ]);
+  });
+});
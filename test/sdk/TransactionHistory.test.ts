@@ -0,0 +1,126 @@
+/**
+ * TransactionHistory Tests
+ *
+ * Tests for log-based transaction history, including finalized transactions
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TransactionHistory } from "../../sdk/src/TransactionHistory";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
+
+describe("TransactionHistory", () => {
+  let fixture: SDKFixture;
+
+  beforeEach(async () => {
+    fixture = await deploySDKFixture();
+
+    await fixture.owner.sendTransaction({
+      to: await fixture.account.getAddress(),
+      value: ethers.parseEther("100")
+    });
+  });
+
+  async function createHistory(chunkSize?: bigint): Promise<TransactionHistory> {
+    const { publicClient } = await createViemClientsFromEthersSigner(fixture.owner);
+    return new TransactionHistory(await fixture.account.getAddress(), publicClient, { chunkSize });
+  }
+
+  describe("Lifecycle", () => {
+    it("Should return the full lifecycle of an executed transaction", async () => {
+      const to = fixture.others[0].address;
+      const value = ethers.parseEther("1");
+      const txHash = await fixture.sdk.proposeTransaction(to, value, "0x", ethers.parseEther("1"));
+
+      await fixture.level1.connect(fixture.ops1).sign(txHash);
+      await fixture.level1.connect(fixture.ops2).sign(txHash);
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await fixture.level1.completeTimelock(txHash);
+      await fixture.account.executeApprovedTransaction(txHash);
+
+      const history = await createHistory();
+      const entry = await history.getTransaction(txHash);
+
+      expect(entry).to.not.be.null;
+      expect(entry!.outcome).to.equal("executed");
+      expect(entry!.to.toLowerCase()).to.equal(to.toLowerCase());
+      expect(entry!.value).to.equal(value);
+      expect(entry!.finalizedAtBlock).to.be.a("bigint");
+      expect(entry!.levels[0].signers.map((s) => s.toLowerCase())).to.deep.equal([
+        fixture.ops1.address.toLowerCase(),
+        fixture.ops2.address.toLowerCase()
+      ]);
+      expect(entry!.levels[0].quorumReached).to.be.true;
+      expect(entry!.levels[0].completed).to.be.true;
+      expect(entry!.events.map((e) => e.type)).to.deep.equal([
+        "proposed",
+        "signed",
+        "signed",
+        "quorumReached",
+        "levelCompleted",
+        "readyForExecution",
+        "executed"
+      ]);
+    });
+
+    it("Should return denied transactions after storage is deleted", async () => {
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address,
+        ethers.parseEther("1"),
+        "0x",
+        ethers.parseEther("1")
+      );
+
+      await fixture.level1.connect(fixture.ops2).deny(txHash);
+
+      const history = await createHistory();
+      const entry = await history.getTransaction(txHash);
+
+      expect(entry!.outcome).to.equal("denied");
+      expect(entry!.levels[0].deniedBy!.toLowerCase()).to.equal(fixture.ops2.address.toLowerCase());
+      const denied = entry!.events.find((e) => e.type === "denied");
+      expect(denied!.levelId).to.equal(1);
+    });
+  });
+
+  describe("Pagination", () => {
+    it("Should paginate newest first across chunked scans", async () => {
+      const hashes: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        hashes.push(await fixture.sdk.proposeTransaction(
+          fixture.others[0].address,
+          ethers.parseEther("1"),
+          "0x",
+          ethers.parseEther(String(i + 1))
+        ));
+      }
+
+      // Small chunks force several eth_getLogs requests
+      const history = await createHistory(2n);
+
+      const first = await history.getTransactions({ limit: 2 });
+      expect(first.total).to.equal(3);
+      expect(first.hasMore).to.be.true;
+      expect(first.entries.map((e) => e.txHash)).to.deep.equal([hashes[2], hashes[1]]);
+
+      const second = await history.getTransactions({ offset: 2, limit: 2 });
+      expect(second.hasMore).to.be.false;
+      expect(second.entries.map((e) => e.txHash)).to.deep.equal([hashes[0]]);
+    });
+
+    it("Should filter by outcome", async () => {
+      const pending = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("1")
+      );
+      const denied = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address, ethers.parseEther("1"), "0x", ethers.parseEther("2")
+      );
+      await fixture.level1.connect(fixture.ops1).deny(denied);
+
+      const page = await fixture.sdk.getTransactionHistory({ outcome: "pending" });
+
+      expect(page.entries.map((e) => e.txHash)).to.deep.equal([pending]);
+    });
+  });
+});
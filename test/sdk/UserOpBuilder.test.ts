@@ -6,8 +6,15 @@
 
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { decodeFunctionData, type Address, type Hex } from "viem";
 import { MultiLevelAccountSDK } from "../../sdk/src/MultiLevelAccountSDK";
-import { deploySDKFixture, SDKFixture } from "./helpers/sdkFixtures";
+import { UserOpBuilder } from "../../sdk/src/UserOpBuilder";
+import { MultiLevelAccountFactoryClient } from "../../sdk/src/MultiLevelAccountFactoryClient";
+import { MULTI_LEVEL_ACCOUNT_FACTORY_ABI } from "../../sdk/src/contracts/abis";
+import { RpcPaymaster } from "../../sdk/src/paymasters/RpcPaymaster";
+import { AccountInitConfig, AmountRange, PackedUserOperation, PaymasterProvider } from "../../sdk/src/types";
+import { toRpcUserOp, unpackPaymasterAndData } from "../../sdk/src/utils/userOpPacking";
+import { deploySDKFixture, SDKFixture, createViemClientsFromEthersSigner } from "./helpers/sdkFixtures";
 
 describe("UserOpBuilder", () => {
   let fixture: SDKFixture;
@@ -82,5 +89,438 @@ describe("UserOpBuilder", () => {
       expect(txHash).to.not.be.undefined;
     });
   });
-});
 
+  describe("Counterfactual Deployment", () => {
+    async function buildUndeployed(): Promise<{ builder: UserOpBuilder; initConfig: AccountInitConfig; predicted: string }> {
+      const initConfig: AccountInitConfig = {
+        factoryAddress: await fixture.factory.getAddress(),
+        owner: fixture.owner.address,
+        levelSigners: [[fixture.ops1.address, fixture.ops2.address], [fixture.exec.address]],
+        salt: 42n
+      };
+      const predicted = await fixture.factory.computeAccountAddress(
+        initConfig.owner,
+        initConfig.levelSigners,
+        initConfig.salt
+      );
+
+      const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.owner);
+      const builder = new UserOpBuilder(
+        predicted as Address,
+        await fixture.entryPoint.getAddress() as Address,
+        publicClient,
+        walletClient
+      );
+      builder.setAccountInitConfig(initConfig);
+
+      return { builder, initConfig, predicted };
+    }
+
+    it("Should leave initCode empty for a deployed account", async () => {
+      const initCode = await (fixture.sdk as any).userOpBuilder.getInitCode();
+      expect(initCode).to.equal("0x");
+    });
+
+    it("Should populate initCode for an undeployed account", async () => {
+      const { builder, initConfig, predicted } = await buildUndeployed();
+
+      const userOp = await builder.buildUserOp({
+        to: fixture.others[0].address as Address,
+        value: 0n,
+        data: "0x",
+        amount: 0n
+      });
+
+      expect(userOp.sender).to.equal(predicted);
+      expect(userOp.initCode.slice(0, 42).toLowerCase()).to.equal(initConfig.factoryAddress.toLowerCase());
+
+      const decoded = decodeFunctionData({
+        abi: MULTI_LEVEL_ACCOUNT_FACTORY_ABI,
+        data: `0x${userOp.initCode.slice(42)}` as Hex
+      });
+      expect(decoded.functionName).to.equal("createAccount");
+      expect((decoded.args as any)[0]).to.equal(initConfig.owner);
+      expect((decoded.args as any)[2]).to.equal(initConfig.salt);
+    });
+
+    it("Should deploy the account at the predicted address from factoryData", async () => {
+      const { builder, initConfig, predicted } = await buildUndeployed();
+      const initCode = await builder.getInitCode();
+
+      await fixture.owner.sendTransaction({
+        to: initConfig.factoryAddress,
+        data: `0x${initCode.slice(42)}`
+      });
+
+      expect(await ethers.provider.getCode(predicted)).to.not.equal("0x");
+      expect(await builder.isAccountDeployed()).to.be.true;
+      expect(await builder.getInitCode()).to.equal("0x");
+    });
+
+    it("Should refuse to deploy and propose without initial ranges", async () => {
+      const { initConfig, predicted } = await buildUndeployed();
+      await fixture.owner.sendTransaction({ to: predicted, value: ethers.parseEther("1") });
+
+      const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.owner);
+      const sdk = new MultiLevelAccountSDK(
+        predicted as Address,
+        await fixture.entryPoint.getAddress() as Address,
+        publicClient,
+        walletClient
+      );
+      sdk.setAccountInitConfig(initConfig);
+
+      // The new account would have no amount ranges, so execute() would revert after deployment
+      try {
+        await sdk.proposeTransaction(fixture.others[0].address, 0n, "0x", 0n);
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.errorName).to.equal("AccountNotDeployed");
+        expect(error.message).to.include("no initial amount ranges");
+      }
+
+      expect(await sdk.isDeployed()).to.be.false;
+      expect(await ethers.provider.getBalance(predicted)).to.equal(ethers.parseEther("1"));
+    });
+
+    describe("With Initial Ranges", () => {
+      const ranges: AmountRange[] = [
+        { minAmount: 0n, maxAmount: ethers.parseEther("10"), levelIds: [1n], quorums: [1n], timelocks: [0n] },
+        {
+          minAmount: ethers.parseEther("10") + 1n,
+          maxAmount: ethers.parseEther("1000"),
+          levelIds: [1n, 2n],
+          quorums: [2n, 1n],
+          timelocks: [0n, 3600n]
+        }
+      ];
+
+      async function getConfiguredSDK(salt: bigint): Promise<{ sdk: MultiLevelAccountSDK; accountAddress: string }> {
+        const Configured = await ethers.getContractFactory("ConfiguredAccountFactory");
+        const configured = await Configured.deploy(await fixture.factory.getAddress());
+
+        const levelSigners = [[fixture.ops1.address, fixture.ops2.address], [fixture.exec.address]];
+        const accountAddress = await configured.computeAccountAddress(fixture.owner.address, levelSigners, ranges, salt);
+
+        const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.owner);
+        const client = new MultiLevelAccountFactoryClient(await fixture.factory.getAddress(), publicClient, walletClient);
+        const sdk = await client.getCounterfactualSDK(
+          fixture.owner.address,
+          levelSigners,
+          salt,
+          { configuredFactoryAddress: await configured.getAddress(), ranges }
+        );
+        await fixture.owner.sendTransaction({ to: accountAddress, value: ethers.parseEther("10") });
+        return { sdk, accountAddress };
+      }
+
+      it("Should deploy a configured account and propose in one UserOp", async () => {
+        const { sdk, accountAddress } = await getConfiguredSDK(44n);
+        expect(await sdk.isDeployed()).to.be.false;
+
+        const txHash = await sdk.proposeTransaction(
+          fixture.others[0].address,
+          ethers.parseEther("1"),
+          "0x",
+          ethers.parseEther("50")
+        );
+
+        const account = await ethers.getContractAt("MultiLevelAccount", accountAddress);
+        expect(await sdk.isDeployed()).to.be.true;
+        expect(await account.owner()).to.equal(fixture.owner.address);
+        expect(await sdk.getAmountRanges()).to.deep.equal(ranges);
+
+        const status = await sdk.getTransactionStatus(txHash);
+        expect(status.levelStatuses.map((level) => level.levelId)).to.deep.equal([1, 2]);
+      });
+
+      it("Should deploy with the first of several proposals", async () => {
+        const { sdk } = await getConfiguredSDK(45n);
+
+        const txHashes = await sdk.proposeTransactions([
+          { to: fixture.others[0].address, value: 0n, data: "0x", amount: ethers.parseEther("1") },
+          { to: fixture.others[1].address, value: 0n, data: "0x", amount: ethers.parseEther("20") }
+        ]);
+
+        expect(txHashes).to.have.length(2);
+        expect((await sdk.getTransactionStatus(txHashes[0])).levelStatuses).to.have.length(1);
+        expect((await sdk.getTransactionStatus(txHashes[1])).levelStatuses).to.have.length(2);
+      });
+
+      it("Should refuse an amount outside the initial ranges before deploying", async () => {
+        const { sdk } = await getConfiguredSDK(46n);
+
+        try {
+          await sdk.proposeTransaction(fixture.others[0].address, 0n, "0x", ethers.parseEther("5000"));
+          expect.fail("Should have thrown");
+        } catch (error: any) {
+          expect(error.errorName).to.equal("NoConfigForAmount");
+        }
+
+        expect(await sdk.isDeployed()).to.be.false;
+      });
+    });
+
+    it("Should reject init config that does not match the sender", async () => {
+      const { builder, initConfig } = await buildUndeployed();
+      builder.setAccountInitConfig({ ...initConfig, salt: 43n });
+
+      try {
+        await builder.getInitCode();
+        expect.fail("Should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.include("Counterfactual address mismatch");
+      }
+    });
+  });
+
+  describe("Gas Estimation", () => {
+    const BUNDLER_URL = "http://bundler.test/rpc";
+    let originalFetch: typeof fetch;
+    let bundlerCalls: string[];
+    
+    async function createBuilder(bundlerUrl?: string): Promise<UserOpBuilder> {
+      const { publicClient, walletClient } = await createViemClientsFromEthersSigner(fixture.owner);
+      return new UserOpBuilder(
+        await fixture.account.getAddress() as Address,
+        await fixture.entryPoint.getAddress() as Address,
+        publicClient,
+        walletClient,
+        bundlerUrl
+      );
+    }
+    
+    function unpackGasLimits(accountGasLimits: string): { verificationGasLimit: bigint; callGasLimit: bigint } {
+      const hex = accountGasLimits.slice(2);
+      return {
+        verificationGasLimit: BigInt(`0x${hex.slice(0, 32)}`),
+        callGasLimit: BigInt(`0x${hex.slice(32, 64)}`)
+      };
+    }
+    
+    const params = () => ({
+      to: fixture.others[0].address as Address,
+      value: ethers.parseEther("1"),
+      data: "0x" as Hex,
+      amount: ethers.parseEther("5000")
+    });
+    
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+      bundlerCalls = [];
+      // Minimal bundler: gas estimates only, no gas price endpoint
+      globalThis.fetch = (async (_url: any, init: any) => {
+        const body = JSON.parse(init.body);
+        bundlerCalls.push(body.method);
+        const payload = body.method === "eth_estimateUserOperationGas"
+          ? { result: { preVerificationGas: "0xc350", verificationGasLimit: "0x186a0", callGasLimit: "0x30d40" } }
+          : { error: { code: -32601, message: "Method not found" } };
+        return { json: async () => ({ jsonrpc: "2.0", id: body.id, ...payload }) } as any;
+      }) as typeof fetch;
+    });
+    
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+    
+    it("Should use bundler estimates with the default multiplier", async () => {
+      const builder = await createBuilder(BUNDLER_URL);
+      const userOp = await builder.buildUserOp(params());
+      
+      expect(bundlerCalls).to.include("eth_estimateUserOperationGas");
+      const limits = unpackGasLimits(userOp.accountGasLimits);
+      expect(limits.verificationGasLimit).to.equal(120000n);
+      expect(limits.callGasLimit).to.equal(240000n);
+      expect(userOp.preVerificationGas).to.equal(60000n);
+    });
+    
+    it("Should apply a custom multiplier and per-field overrides", async () => {
+      const builder = await createBuilder(BUNDLER_URL);
+      const userOp = await builder.buildUserOp({
+        ...params(),
+        gasMultiplier: 1.5,
+        gasOverrides: { preVerificationGas: 70000n }
+      });
+      
+      const limits = unpackGasLimits(userOp.accountGasLimits);
+      expect(limits.verificationGasLimit).to.equal(150000n);
+      expect(limits.callGasLimit).to.equal(300000n);
+      expect(userOp.preVerificationGas).to.equal(70000n);
+    });
+    
+    it("Should reject multipliers that are not finite or below 1", async () => {
+      const builder = await createBuilder(BUNDLER_URL);
+      
+      for (const gasMultiplier of [NaN, Infinity, -1, 0, 0.5]) {
+        try {
+          await builder.buildUserOp({ ...params(), gasMultiplier });
+          expect.fail("Should have thrown");
+        } catch (error: any) {
+          expect(error.message).to.include(`Invalid gasMultiplier ${gasMultiplier}`);
+        }
+      }
+    });
+    
+    it("Should estimate with the paymaster's stub data", async () => {
+      const PAYMASTER = "0x00000000000000000000000000000000000000Aa";
+      const estimateRequests: any[] = [];
+      const bundlerFetch = globalThis.fetch;
+      globalThis.fetch = (async (url: any, init: any) => {
+        const body = JSON.parse(init.body);
+        if (body.method === "eth_estimateUserOperationGas") {
+          estimateRequests.push(body.params[0]);
+        }
+        return bundlerFetch(url, init);
+      }) as typeof fetch;
+      
+      const sponsoredOps: PackedUserOperation[] = [];
+      const builder = await createBuilder(BUNDLER_URL);
+      builder.setPaymaster({
+        getPaymasterStubData: async () => ({
+          paymaster: PAYMASTER,
+          paymasterVerificationGasLimit: 100000n,
+          paymasterPostOpGasLimit: 50000n,
+          paymasterData: "0xdead"
+        }),
+        sponsorUserOperation: async (userOp) => {
+          sponsoredOps.push(userOp);
+          return {
+            paymaster: PAYMASTER,
+            paymasterVerificationGasLimit: 100000n,
+            paymasterPostOpGasLimit: 50000n,
+            paymasterData: "0x1234"
+          };
+        }
+      });
+      
+      const userOp = await builder.buildUserOp(params());
+      
+      expect(estimateRequests).to.have.lengthOf(1);
+      expect(estimateRequests[0].paymaster.toLowerCase()).to.equal(PAYMASTER.toLowerCase());
+      expect(estimateRequests[0].paymasterVerificationGasLimit).to.equal("0x186a0");
+      expect(estimateRequests[0].paymasterData).to.equal("0xdead");
+      
+      // The final sponsorship is requested once, over the estimated limits
+      expect(sponsoredOps).to.have.lengthOf(1);
+      expect(unpackGasLimits(sponsoredOps[0].accountGasLimits).callGasLimit).to.equal(240000n);
+      expect(unpackPaymasterAndData(userOp.paymasterAndData as Hex)!.paymasterData).to.equal("0x1234");
+    });
+    
+    it("Should skip estimation when every field is overridden", async () => {
+      const builder = await createBuilder(BUNDLER_URL);
+      const userOp = await builder.buildUserOp({
+        ...params(),
+        gasOverrides: { callGasLimit: 1n, verificationGasLimit: 2n, preVerificationGas: 3n }
+      });
+      
+      expect(bundlerCalls).to.not.include("eth_estimateUserOperationGas");
+      const limits = unpackGasLimits(userOp.accountGasLimits);
+      expect(limits.callGasLimit).to.equal(1n);
+      expect(limits.verificationGasLimit).to.equal(2n);
+      expect(userOp.preVerificationGas).to.equal(3n);
+    });
+    
+    it("Should fall back to local estimation without a bundler", async () => {
+      const builder = await createBuilder();
+      const userOp = await builder.buildUserOp(params());
+      
+      expect(bundlerCalls).to.be.empty;
+      const limits = unpackGasLimits(userOp.accountGasLimits);
+      expect(limits.callGasLimit).to.be.greaterThan(0n);
+      expect(limits.callGasLimit).to.not.equal(500000n);
+      expect(limits.verificationGasLimit).to.equal(1000000n);
+    });
+  });
+
+  describe("Paymaster", () => {
+    const PAYMASTER = "0x00000000000000000000000000000000000000Aa";
+    
+    const staticPaymaster: PaymasterProvider = {
+      sponsorUserOperation: async () => ({
+        paymaster: PAYMASTER,
+        paymasterVerificationGasLimit: 100000n,
+        paymasterPostOpGasLimit: 50000n,
+        paymasterData: "0x1234"
+      })
+    };
+    
+    const params = () => ({
+      to: fixture.others[0].address as Address,
+      value: ethers.parseEther("1"),
+      data: "0x" as Hex,
+      amount: ethers.parseEther("5000")
+    });
+    
+    it("Should fill paymasterAndData from the paymaster", async () => {
+      const builder = (fixture.sdk as any).userOpBuilder as UserOpBuilder;
+      builder.setPaymaster(staticPaymaster);
+      
+      const userOp = await builder.buildUserOp(params());
+      const fields = unpackPaymasterAndData(userOp.paymasterAndData as Hex);
+      
+      expect(fields).to.not.be.null;
+      expect(fields!.paymaster.toLowerCase()).to.equal(PAYMASTER.toLowerCase());
+      expect(fields!.paymasterVerificationGasLimit).to.equal(100000n);
+      expect(fields!.paymasterPostOpGasLimit).to.equal(50000n);
+      expect(fields!.paymasterData).to.equal("0x1234");
+      
+      const rpcUserOp = toRpcUserOp(userOp);
+      expect(rpcUserOp.paymaster!.toLowerCase()).to.equal(PAYMASTER.toLowerCase());
+      expect(rpcUserOp.paymasterVerificationGasLimit).to.equal("0x186a0");
+      expect(rpcUserOp.paymasterData).to.equal("0x1234");
+    });
+    
+    it("Should sign over the paymaster data", async () => {
+      fixture.sdk.setPaymaster(staticPaymaster);
+      
+      const txHash = await fixture.sdk.proposeTransaction(
+        fixture.others[0].address,
+        ethers.parseEther("1"),
+        "0x",
+        ethers.parseEther("5000")
+      );
+      
+      expect(txHash).to.not.be.undefined;
+    });
+    
+    it("Should request sponsorship over RPC and apply returned gas limits", async () => {
+      const originalFetch = globalThis.fetch;
+      const requests: any[] = [];
+      globalThis.fetch = (async (_url: any, init: any) => {
+        const body = JSON.parse(init.body);
+        requests.push(body);
+        return {
+          json: async () => ({
+            jsonrpc: "2.0",
+            id: body.id,
+            result: {
+              paymaster: PAYMASTER,
+              paymasterVerificationGasLimit: "0x7530",
+              paymasterPostOpGasLimit: "0x0",
+              paymasterData: "0xabcd",
+              callGasLimit: "0x11170"
+            }
+          })
+        } as any;
+      }) as typeof fetch;
+      
+      try {
+        const builder = (fixture.sdk as any).userOpBuilder as UserOpBuilder;
+        builder.setPaymaster(new RpcPaymaster("http://paymaster.test", { sponsorshipPolicyId: "sp_test" }));
+        
+        const userOp = await builder.buildUserOp(params());
+        
+        expect(requests[0].method).to.equal("pm_sponsorUserOperation");
+        expect(requests[0].params[1]).to.equal(await fixture.entryPoint.getAddress());
+        expect(requests[0].params[2]).to.deep.equal({ sponsorshipPolicyId: "sp_test" });
+        
+        const fields = unpackPaymasterAndData(userOp.paymasterAndData as Hex);
+        expect(fields!.paymasterVerificationGasLimit).to.equal(30000n);
+        expect(fields!.paymasterData).to.equal("0xabcd");
+        expect(BigInt(`0x${userOp.accountGasLimits.slice(34)}`)).to.equal(70000n);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+});
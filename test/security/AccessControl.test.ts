@@ -28,6 +28,23 @@ describe("Access Control - Security Tests", () => {
     ).to.be.revertedWithCustomError(account, "OwnableUnauthorizedAccount");
   });
 
+  it("Should allow the account itself to configure", async () => {
+    // Approved self-calls reach configuration functions with msg.sender == account
+    await ethers.provider.send("hardhat_impersonateAccount", [await account.getAddress()]);
+    await owner.sendTransaction({
+      to: await account.getAddress(),
+      value: ethers.parseEther("1")
+    });
+    const accountSigner = await ethers.getSigner(await account.getAddress());
+    const rangeCount = await account.getAmountRangeCount();
+
+    await account.connect(accountSigner).configureAmountRange(0, ethers.parseEther("1"), [1], [1], [0]);
+    expect(await account.getAmountRangeCount()).to.equal(rangeCount + 1n);
+
+    await account.connect(accountSigner).removeAmountRange(0);
+    expect(await account.getAmountRangeCount()).to.equal(rangeCount);
+  });
+
   it("Should prevent non-owner from adding levels", async () => {
     const LevelFactory = await ethers.getContractFactory("Level");
     const newLevel = await LevelFactory.deploy(
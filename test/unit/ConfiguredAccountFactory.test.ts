@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ConfiguredAccountFactory, MultiLevelAccountFactory, MultiLevelAccount } from "../../typechain-types";
+
+describe("ConfiguredAccountFactory - Unit Tests", () => {
+  let factory: MultiLevelAccountFactory;
+  let configured: ConfiguredAccountFactory;
+  let owner: SignerWithAddress;
+  let ops1: SignerWithAddress, ops2: SignerWithAddress;
+  let comp1: SignerWithAddress;
+  let attacker: SignerWithAddress;
+  let levelSigners: string[][];
+
+  const ranges = [
+    { minAmount: 0n, maxAmount: ethers.parseEther("10"), levelIds: [1n], quorums: [1n], timelocks: [0n] },
+    {
+      minAmount: ethers.parseEther("10") + 1n,
+      maxAmount: ethers.MaxUint256,
+      levelIds: [1n, 2n],
+      quorums: [2n, 1n],
+      timelocks: [0n, 3600n]
+    }
+  ];
+
+  beforeEach(async () => {
+    [, owner, ops1, ops2, comp1, attacker] = await ethers.getSigners();
+    levelSigners = [[ops1.address, ops2.address], [comp1.address]];
+
+    const EntryPointFactory = await ethers.getContractFactory("MockEntryPoint");
+    const entryPoint = await EntryPointFactory.deploy();
+
+    const Factory = await ethers.getContractFactory("MultiLevelAccountFactory");
+    factory = await Factory.deploy(await entryPoint.getAddress());
+
+    const Configured = await ethers.getContractFactory("ConfiguredAccountFactory");
+    configured = await Configured.deploy(await factory.getAddress());
+  });
+
+  async function getAccount(address: string): Promise<MultiLevelAccount> {
+    return await ethers.getContractAt("MultiLevelAccount", address) as unknown as MultiLevelAccount;
+  }
+
+  describe("Account Creation", () => {
+    it("Should create the account at the predicted address with ranges and owner", async () => {
+      const predicted = await configured.computeAccountAddress(owner.address, levelSigners, ranges, 0);
+
+      await expect(configured.createAccount(owner.address, levelSigners, ranges, 0))
+        .to.emit(configured, "ConfiguredAccountCreated")
+        .withArgs(predicted, owner.address, 2);
+
+      const account = await getAccount(predicted);
+      expect(await account.owner()).to.equal(owner.address);
+      expect(await account.getAmountRangeCount()).to.equal(2n);
+      expect(await account.levelContracts(2)).to.not.equal(ethers.ZeroAddress);
+
+      const range = await account.getAmountRange(1);
+      expect(range.levelIds).to.deep.equal([1n, 2n]);
+      expect(range.timelocks).to.deep.equal([0n, 3600n]);
+    });
+
+    it("Should commit the address to owner and ranges", async () => {
+      const predicted = await configured.computeAccountAddress(owner.address, levelSigners, ranges, 0);
+
+      expect(await configured.computeAccountAddress(attacker.address, levelSigners, ranges, 0))
+        .to.not.equal(predicted);
+      expect(await configured.computeAccountAddress(owner.address, levelSigners, ranges.slice(0, 1), 0))
+        .to.not.equal(predicted);
+    });
+
+    it("Should return the existing account on a second call", async () => {
+      const predicted = await configured.computeAccountAddress(owner.address, levelSigners, ranges, 0);
+      await configured.createAccount(owner.address, levelSigners, ranges, 0);
+
+      await expect(configured.createAccount(owner.address, levelSigners, ranges, 0))
+        .to.not.emit(configured, "ConfiguredAccountCreated");
+      expect(await (await getAccount(predicted)).getAmountRangeCount()).to.equal(2n);
+    });
+
+    it("Should finish configuring an account created directly through the inner factory", async () => {
+      const predicted = await configured.computeAccountAddress(owner.address, levelSigners, ranges, 0);
+      const innerSalt = BigInt(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "tuple(uint256 minAmount, uint256 maxAmount, uint256[] levelIds, uint256[] quorums, uint256[] timelocks)[]", "uint256"],
+        [owner.address, ranges, 0]
+      )));
+
+      // Front-run: deploy the inner account without ranges, owned by the configured factory
+      await factory.connect(attacker).createAccount(await configured.getAddress(), levelSigners, innerSalt);
+      expect(await (await getAccount(predicted)).owner()).to.equal(await configured.getAddress());
+
+      await configured.createAccount(owner.address, levelSigners, ranges, 0);
+
+      const account = await getAccount(predicted);
+      expect(await account.owner()).to.equal(owner.address);
+      expect(await account.getAmountRangeCount()).to.equal(2n);
+    });
+  });
+});
@@ -354,6 +354,12 @@ describe("Level - Unit Tests", () => {
       expect(progress.required).to.equal(2n);
     });
 
+    it("Should report no progress for a transaction that was not submitted", async () => {
+      const progress = await level1.getSignatureProgress(ethers.keccak256(ethers.toUtf8Bytes("non-existent")));
+      expect(progress.current).to.equal(0n);
+      expect(progress.required).to.equal(0n);
+    });
+
     it("Should reject duplicate signature", async () => {
       await level1.connect(fixture.ops1).sign(txHash);
 
@@ -390,6 +396,92 @@ describe("Level - Unit Tests", () => {
     });
   });
 
+  describe("Off-chain Approvals", () => {
+    let txHash: string;
+
+    async function signApproval(signer: typeof fixture.ops1, hash: string = txHash): Promise<string> {
+      const { chainId } = await ethers.provider.getNetwork();
+      return await signer.signTypedData(
+        { name: "MultiLevelAccount Level", version: "1", chainId, verifyingContract: await level1.getAddress() },
+        {
+          Approval: [
+            { name: "account", type: "address" },
+            { name: "levelId", type: "uint256" },
+            { name: "txHash", type: "bytes32" },
+            { name: "chainId", type: "uint256" }
+          ]
+        },
+        { account: await account.getAddress(), levelId: 1, txHash: hash, chainId }
+      );
+    }
+
+    beforeEach(async () => {
+      txHash = ethers.keccak256(ethers.toUtf8Bytes("approval-test"));
+      await ethers.provider.send("hardhat_impersonateAccount", [await account.getAddress()]);
+      await fixture.owner.sendTransaction({
+        to: await account.getAddress(),
+        value: ethers.parseEther("1")
+      });
+      const accountSigner = await ethers.getSigner(await account.getAddress());
+      await level1.connect(accountSigner).submitTransaction(txHash, 2, 3600);
+    });
+
+    it("Should apply approvals from several signers in one relayed call", async () => {
+      const approvals = ethers.concat([await signApproval(fixture.ops1), await signApproval(fixture.ops3)]);
+
+      await expect(level1.connect(fixture.others[0]).signWithApprovals(txHash, approvals))
+        .to.emit(level1, "Signed").withArgs(txHash, fixture.ops1.address, 1, 2)
+        .and.to.emit(level1, "Signed").withArgs(txHash, fixture.ops3.address, 2, 2)
+        .and.to.emit(level1, "QuorumReached");
+
+      expect(await level1.hasSigned(txHash, fixture.ops1.address)).to.be.true;
+      expect(await level1.hasSigned(txHash, fixture.ops3.address)).to.be.true;
+      expect(await level1.hasSigned(txHash, fixture.ops2.address)).to.be.false;
+    });
+
+    it("Should expose the EIP-712 digest signers sign", async () => {
+      const signature = await signApproval(fixture.ops2);
+      expect(ethers.recoverAddress(await level1.getApprovalDigest(txHash), signature)).to.equal(fixture.ops2.address);
+    });
+
+    it("Should reject approvals from non-signers, for other transactions, or malformed", async () => {
+      await expect(
+        level1.signWithApprovals(txHash, await signApproval(fixture.others[0]))
+      ).to.be.revertedWithCustomError(level1, "NotSigner");
+
+      const otherTxHash = ethers.keccak256(ethers.toUtf8Bytes("other"));
+      await expect(
+        level1.signWithApprovals(txHash, await signApproval(fixture.ops1, otherTxHash))
+      ).to.be.revertedWithCustomError(level1, "NotSigner");
+
+      const approval = await signApproval(fixture.ops1);
+      await expect(
+        level1.signWithApprovals(txHash, ethers.dataSlice(approval, 0, 64))
+      ).to.be.revertedWithCustomError(level1, "InvalidApprovalsLength");
+      await expect(
+        level1.signWithApprovals(txHash, "0x")
+      ).to.be.revertedWithCustomError(level1, "InvalidApprovalsLength");
+    });
+
+    it("Should skip approvals from signers who signed after collection", async () => {
+      const approvals = ethers.concat([
+        await signApproval(fixture.ops1),
+        await signApproval(fixture.ops1),
+        await signApproval(fixture.ops2)
+      ]);
+
+      // ops1 signs on-chain before the relayer submits
+      await level1.connect(fixture.ops1).sign(txHash);
+
+      await expect(level1.connect(fixture.others[0]).signWithApprovals(txHash, approvals))
+        .to.emit(level1, "Signed").withArgs(txHash, fixture.ops2.address, 2, 2)
+        .and.to.emit(level1, "QuorumReached");
+
+      const [current] = await level1.getSignatureProgress(txHash);
+      expect(current).to.equal(2);
+    });
+  });
+
   describe("Denial", () => {
     let txHash: string;
 
@@ -720,6 +720,86 @@ describe("MultiLevelAccount - Unit Tests", () => {
     });
   });
 
+  describe("Batch Execution", () => {
+    async function proposeBatch(to: string[], values: bigint[], data: string[], amounts: bigint[]) {
+      const { createUserOp, signUserOp } = await import("../helpers/userOp");
+      const callData = account.interface.encodeFunctionData("executeBatch", [to, values, data, amounts]);
+      const userOp = createUserOp({
+        sender: await account.getAddress(),
+        nonce: await account.nonce(),
+        callData
+      });
+
+      const chainId = (await ethers.provider.getNetwork()).chainId;
+      userOp.signature = await signUserOp(userOp, owner, await entryPoint.getAddress(), chainId);
+      return await entryPoint.handleOps([userOp], owner.address);
+    }
+
+    it("Should propose a batch routed by the total amount and execute all calls", async () => {
+      const [alice, bob] = fixture.others;
+      await owner.sendTransaction({
+        to: await account.getAddress(),
+        value: ethers.parseEther("10")
+      });
+
+      await proposeBatch(
+        [alice.address, bob.address],
+        [ethers.parseEther("1"), ethers.parseEther("2")],
+        ["0x", "0x"],
+        [ethers.parseEther("6000"), ethers.parseEther("6000")]
+      );
+
+      const [batchEvent] = await account.queryFilter(account.filters.BatchProposed());
+      const txHash = batchEvent.args.txHash;
+      expect(batchEvent.args.to).to.deep.equal([alice.address, bob.address]);
+
+      // 12000 ETH total routes through levels 1 and 2, although each call alone needs level 1 only
+      const txn = await account.getTransaction(txHash);
+      expect(txn.to).to.equal(await account.getAddress());
+      expect(txn.value).to.equal(0n);
+      expect(txn.amount).to.equal(ethers.parseEther("12000"));
+      expect(txn.config.levelIds).to.deep.equal([1n, 2n]);
+
+      await level1.connect(fixture.ops1).sign(txHash);
+      await level1.connect(fixture.ops2).sign(txHash);
+      await ethers.provider.send("evm_increaseTime", [3601]);
+      await ethers.provider.send("evm_mine", []);
+      await level1.completeTimelock(txHash);
+      await level2.connect(fixture.comp1).sign(txHash);
+      await level2.connect(fixture.comp2).sign(txHash);
+      await ethers.provider.send("evm_increaseTime", [7201]);
+      await ethers.provider.send("evm_mine", []);
+      await level2.completeTimelock(txHash);
+
+      const aliceBefore = await ethers.provider.getBalance(alice.address);
+      const bobBefore = await ethers.provider.getBalance(bob.address);
+      await account.executeApprovedTransaction(txHash);
+
+      expect(await ethers.provider.getBalance(alice.address)).to.equal(aliceBefore + ethers.parseEther("1"));
+      expect(await ethers.provider.getBalance(bob.address)).to.equal(bobBefore + ethers.parseEther("2"));
+    });
+
+    it("Should reject invalid batches and direct batch calls", async () => {
+      const to = fixture.others[0].address;
+
+      await ethers.provider.send("hardhat_impersonateAccount", [await entryPoint.getAddress()]);
+      const entryPointSigner = await ethers.getSigner(await entryPoint.getAddress());
+      await expect(
+        account.connect(entryPointSigner).executeBatch.staticCall([], [], [], [])
+      ).to.be.revertedWithCustomError(account, "InvalidBatch");
+      await expect(
+        account.connect(entryPointSigner).executeBatch.staticCall([to, to], [0n], ["0x", "0x"], [1n, 1n])
+      ).to.be.revertedWithCustomError(account, "InvalidBatch");
+
+      await expect(
+        account.connect(owner).executeBatch([to], [0n], ["0x"], [1n])
+      ).to.be.revertedWithCustomError(account, "OnlyEntryPoint");
+      await expect(
+        account.connect(owner).executeBatchCalls([to], [0n], ["0x"])
+      ).to.be.revertedWithCustomError(account, "Unauthorized");
+    });
+  });
+
   describe("Level Callback Edge Cases", () => {
     it("Should handle last level approval correctly", async () => {
       // Test the branch where currentLevelIndex == levelIds.length (last level)